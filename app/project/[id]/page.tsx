@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useAppStore } from "@/lib/store";
 
@@ -47,12 +47,44 @@ import {
   Upload,
   FileText,
   MoreVertical,
+  CalendarDays,
+  Contact,
+  Scale,
+  Flag,
+  ListChecks,
+  SlidersHorizontal,
+  Undo2,
+  Redo2,
 } from "lucide-react";
 import Gantt from "@/components/Gantt";
 import { ColorPicker } from "@/components/ColorPicker";
 import jMoment from "jalali-moment";
-import { GanttTask, TaskGroup } from "@/lib/types";
+import {
+  GanttTask,
+  GanttTaskType,
+  ProjectViewSettings,
+  TaskGroup,
+  TaskPriority,
+} from "@/lib/types";
 import { DateTimePicker } from "@/components/DateTimePicker";
+import { TaskDependencyEditor } from "@/components/TaskDependencyEditor";
+import { WorkCalendarEditor } from "@/components/WorkCalendarEditor";
+import { ResourceEditor } from "@/components/ResourceEditor";
+import { TaskAssignmentEditor } from "@/components/TaskAssignmentEditor";
+import { ResourceLevelingPreview } from "@/components/ResourceLevelingPreview";
+import { BaselineManager } from "@/components/BaselineManager";
+import { TaskStatusEditor } from "@/components/TaskStatusEditor";
+import { CustomFieldEditor } from "@/components/CustomFieldEditor";
+import { TaskDetailsPanel } from "@/components/TaskDetailsPanel";
+import {
+  DEFAULT_TASK_PRIORITY,
+  TASK_PRIORITIES,
+  TASK_PRIORITY_LABELS,
+} from "@/lib/priority";
+import { getProjectStatuses, getTaskStatus } from "@/lib/status";
+import { formatJalaliDate } from "@/lib/gantt-utils";
+import { getDescendantIds, hasChildTasks } from "@/lib/task-hierarchy";
+import { countWorkingDays, getWorkingEndDate } from "@/lib/work-calendar";
 import {
   exportProjectAsJSON,
   exportProjectAsMarkdown,
@@ -65,6 +97,11 @@ import {
 // Configure jalali-moment
 jMoment.locale("fa");
 
+// Date strings as produced and consumed by DateTimePicker
+const parsePickerDate = (value: string) =>
+  jMoment(value, "YYYY/MM/DD").toDate();
+const formatPickerDate = (date: Date) => jMoment(date).format("YYYY-MM-DD");
+
 export default function ProjectPage() {
   const params = useParams();
   const router = useRouter();
@@ -75,6 +112,9 @@ export default function ProjectPage() {
     currentProject,
     tasks,
     groups,
+    dependencies,
+    resources,
+    baselines,
     isLoading,
     error,
     initializeDB,
@@ -85,11 +125,23 @@ export default function ProjectPage() {
     createGroup,
     deleteGroup,
     updateGroup,
+    updateProjectViewSettings,
     importProjectData,
+    undoStack,
+    redoStack,
+    undo,
+    redo,
   } = useAppStore();
 
   const [isAddTaskDialogOpen, setIsAddTaskDialogOpen] = useState(false);
   const [isAddGroupDialogOpen, setIsAddGroupDialogOpen] = useState(false);
+  const [isCalendarDialogOpen, setIsCalendarDialogOpen] = useState(false);
+  const [isResourcesDialogOpen, setIsResourcesDialogOpen] = useState(false);
+  const [isLevelingDialogOpen, setIsLevelingDialogOpen] = useState(false);
+  const [isBaselinesDialogOpen, setIsBaselinesDialogOpen] = useState(false);
+  const [isStatusesDialogOpen, setIsStatusesDialogOpen] = useState(false);
+  const [isCustomFieldsDialogOpen, setIsCustomFieldsDialogOpen] =
+    useState(false);
   const [isEditTaskSheetOpen, setIsEditTaskSheetOpen] = useState(false);
   const [isEditGroupSheetOpen, setIsEditGroupSheetOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<GanttTask | null>(null);
@@ -99,25 +151,128 @@ export default function ProjectPage() {
   const [taskEndDate, setTaskEndDate] = useState("");
   const [taskColor, setTaskColor] = useState("#3b82f6");
   const [taskGroupId, setTaskGroupId] = useState<string>("none");
+  const [taskIsPinned, setTaskIsPinned] = useState(false);
+  const [taskType, setTaskType] = useState<GanttTaskType>("task");
+  const [taskParentId, setTaskParentId] = useState<string>("none");
+  const [taskPriority, setTaskPriority] = useState<TaskPriority>(
+    DEFAULT_TASK_PRIORITY
+  );
+  const [taskStatus, setTaskStatus] = useState("");
   const [groupTitle, setGroupTitle] = useState("");
   const [groupColor, setGroupColor] = useState("#3b82f6");
 
+  const projectStatuses = useMemo(
+    () => getProjectStatuses(currentProject),
+    [currentProject]
+  );
+  const projectCustomFields = useMemo(
+    () => currentProject?.customFields || [],
+    [currentProject]
+  );
+
+  // A task cannot be nested under itself, its own subtasks or a milestone
+  const parentCandidates = useMemo(() => {
+    const excluded = selectedTask
+      ? getDescendantIds(tasks, selectedTask.id).add(selectedTask.id)
+      : new Set<string>();
+    return tasks.filter(
+      (task) => task.type !== "milestone" && !excluded.has(task.id)
+    );
+  }, [tasks, selectedTask]);
+
+  const isSummaryTask = selectedTask
+    ? hasChildTasks(tasks, selectedTask.id)
+    : false;
+
+  // Length of the task in the form, in working days of the project calendar
+  const taskDuration = useMemo(() => {
+    if (!taskStartDate || !taskEndDate) return null;
+    return countWorkingDays(
+      parsePickerDate(taskStartDate),
+      parsePickerDate(taskEndDate),
+      currentProject?.calendar
+    );
+  }, [taskStartDate, taskEndDate, currentProject?.calendar]);
+
+  // Milestones have a single date, so keep the end date in step with the
+  // start. Other tasks keep their length in working days.
+  const handleTaskStartDateChange = useCallback(
+    (value: string) => {
+      setTaskStartDate(value);
+      if (taskType === "milestone") {
+        setTaskEndDate(value);
+      } else if (taskDuration) {
+        setTaskEndDate(
+          formatPickerDate(
+            getWorkingEndDate(
+              parsePickerDate(value),
+              taskDuration,
+              currentProject?.calendar
+            )
+          )
+        );
+      }
+    },
+    [taskType, taskDuration, currentProject?.calendar]
+  );
+
+  const handleTaskDurationChange = useCallback(
+    (value: string) => {
+      const duration = parseInt(value, 10);
+      if (!taskStartDate || isNaN(duration) || duration < 1) return;
+      setTaskEndDate(
+        formatPickerDate(
+          getWorkingEndDate(
+            parsePickerDate(taskStartDate),
+            duration,
+            currentProject?.calendar
+          )
+        )
+      );
+    },
+    [taskStartDate, currentProject?.calendar]
+  );
+
+  const handleTaskTypeChange = useCallback(
+    (value: string) => {
+      setTaskType(value as GanttTaskType);
+      if (value === "milestone") {
+        setTaskEndDate(taskStartDate);
+      }
+    },
+    [taskStartDate]
+  );
+
   // Export/Import handlers
   const handleExportJSON = useCallback(() => {
     if (!currentProject) return;
 
-    const jsonData = exportProjectAsJSON(currentProject, tasks, groups);
+    const jsonData = exportProjectAsJSON(
+      currentProject,
+      tasks,
+      groups,
+      dependencies,
+      resources,
+      baselines
+    );
     const filename = generateSafeFilename(currentProject.name, "json");
     downloadJSON(jsonData, filename);
-  }, [currentProject, tasks, groups]);
+  }, [currentProject, tasks, groups, dependencies, resources, baselines]);
 
   const handleExportMarkdown = useCallback(() => {
     if (!currentProject) return;
 
-    const markdownData = exportProjectAsMarkdown(currentProject, tasks, groups);
+    const markdownData = exportProjectAsMarkdown(
+      currentProject,
+      tasks,
+      groups,
+      dependencies,
+      resources,
+      baselines
+    );
     const filename = generateSafeFilename(currentProject.name, "md");
     downloadMarkdown(markdownData, filename);
-  }, [currentProject, tasks, groups]);
+  }, [currentProject, tasks, groups, dependencies, resources, baselines]);
 
   const handleImportJSON = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -144,6 +299,49 @@ export default function ProjectPage() {
     [importProjectData]
   );
 
+  const handleUndo = useCallback(async () => {
+    try {
+      await undo();
+    } catch (error) {
+      alert("خطا در واگرد: " + (error as Error).message);
+    }
+  }, [undo]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      await redo();
+    } catch (error) {
+      alert("خطا در انجام دوباره: " + (error as Error).message);
+    }
+  }, [redo]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z and Ctrl+Y redo. Matching on the physical
+  // key keeps the shortcuts working with a Persian keyboard layout, and
+  // text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (
+        target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+      ) {
+        return;
+      }
+
+      if (e.code === "KeyZ" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((e.code === "KeyZ" && e.shiftKey) || e.code === "KeyY") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
   // Initialize database and set current project only once
   useEffect(() => {
     let isCancelled = false;
@@ -189,8 +387,8 @@ export default function ProjectPage() {
       return;
 
     try {
-      const startDate = jMoment(taskStartDate, "YYYY/MM/DD").toDate();
-      const endDate = jMoment(taskEndDate, "YYYY/MM/DD").toDate();
+      const startDate = parsePickerDate(taskStartDate);
+      const endDate = parsePickerDate(taskEndDate);
 
       if (endDate < startDate) {
         alert("تاریخ پایان باید بعد از تاریخ شروع باشد");
@@ -202,7 +400,9 @@ export default function ProjectPage() {
         taskTitle,
         startDate,
         endDate,
-        taskGroupId === "none" ? undefined : taskGroupId
+        taskGroupId === "none" ? undefined : taskGroupId,
+        taskType,
+        taskParentId === "none" ? undefined : taskParentId
       );
 
       // Update task color if different from default
@@ -216,8 +416,11 @@ export default function ProjectPage() {
       setTaskEndDate("");
       setTaskColor("#3b82f6");
       setTaskGroupId("none");
+      setTaskType("task");
+      setTaskParentId("none");
     } catch (error) {
       console.error("Failed to create task:", error);
+      alert((error as Error).message);
     }
   }, [
     taskTitle,
@@ -225,6 +428,8 @@ export default function ProjectPage() {
     taskEndDate,
     taskColor,
     taskGroupId,
+    taskType,
+    taskParentId,
     currentProject,
     createTask,
     updateTask,
@@ -254,8 +459,8 @@ export default function ProjectPage() {
       return;
 
     try {
-      const startDate = jMoment(taskStartDate, "YYYY/MM/DD").toDate();
-      const endDate = jMoment(taskEndDate, "YYYY/MM/DD").toDate();
+      const startDate = parsePickerDate(taskStartDate);
+      const endDate = parsePickerDate(taskEndDate);
 
       if (endDate < startDate) {
         alert("تاریخ پایان باید بعد از تاریخ شروع باشد");
@@ -268,6 +473,11 @@ export default function ProjectPage() {
         endDate,
         color: taskColor,
         groupId: taskGroupId === "none" ? undefined : taskGroupId,
+        isPinned: taskIsPinned,
+        type: taskType,
+        parentId: taskParentId === "none" ? undefined : taskParentId,
+        priority: taskPriority,
+        status: taskStatus,
       });
       setIsEditTaskSheetOpen(false);
       setSelectedTask(null);
@@ -276,8 +486,14 @@ export default function ProjectPage() {
       setTaskEndDate("");
       setTaskColor("#3b82f6");
       setTaskGroupId("none");
+      setTaskIsPinned(false);
+      setTaskType("task");
+      setTaskParentId("none");
+      setTaskPriority(DEFAULT_TASK_PRIORITY);
+      setTaskStatus("");
     } catch (error) {
       console.error("Failed to update task:", error);
+      alert((error as Error).message);
     }
   }, [
     selectedTask,
@@ -286,6 +502,11 @@ export default function ProjectPage() {
     taskEndDate,
     taskColor,
     taskGroupId,
+    taskIsPinned,
+    taskType,
+    taskParentId,
+    taskPriority,
+    taskStatus,
     updateTask,
   ]);
 
@@ -351,15 +572,35 @@ export default function ProjectPage() {
     setIsEditGroupSheetOpen(true);
   }, []);
 
-  const handleTaskClick = useCallback((task: GanttTask) => {
-    setSelectedTask(task);
-    setTaskTitle(task.title);
-    setTaskStartDate(jMoment(task.startDate).format("YYYY-MM-DD"));
-    setTaskEndDate(jMoment(task.endDate).format("YYYY-MM-DD"));
-    setTaskColor(task.color || "#3b82f6");
-    setTaskGroupId(task.groupId || "none");
-    setIsEditTaskSheetOpen(true);
-  }, []);
+  const handleTaskClick = useCallback(
+    (task: GanttTask) => {
+      setSelectedTask(task);
+      setTaskTitle(task.title);
+      setTaskStartDate(formatPickerDate(task.startDate));
+      setTaskEndDate(formatPickerDate(task.endDate));
+      setTaskColor(task.color || "#3b82f6");
+      setTaskGroupId(task.groupId || "none");
+      setTaskIsPinned(!!task.isPinned);
+      setTaskType(task.type || "task");
+      setTaskParentId(task.parentId || "none");
+      setTaskPriority(task.priority || DEFAULT_TASK_PRIORITY);
+      setTaskStatus(getTaskStatus(task, projectStatuses).id);
+      setIsEditTaskSheetOpen(true);
+    },
+    [projectStatuses]
+  );
+
+  const handleViewSettingsChange = useCallback(
+    async (updates: Partial<ProjectViewSettings>) => {
+      if (!currentProject) return;
+      try {
+        await updateProjectViewSettings(currentProject.id, updates);
+      } catch (error) {
+        console.error("Failed to update view settings:", error);
+      }
+    },
+    [currentProject, updateProjectViewSettings]
+  );
 
   const handleProjectChange = useCallback(
     (newProjectId: string) => {
@@ -471,6 +712,156 @@ export default function ProjectPage() {
                 </DialogContent>
               </Dialog>
 
+              {/* Work Calendar Button */}
+              <Dialog
+                open={isCalendarDialogOpen}
+                onOpenChange={setIsCalendarDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="gap-2">
+                    <CalendarDays className="w-4 h-4" />
+                    تقویم کاری
+                  </Button>
+                </DialogTrigger>
+                <DialogContent
+                  className="sm:max-w-md p-4"
+                  style={{ direction: "rtl" }}
+                >
+                  <DialogHeader>
+                    <DialogTitle>تقویم کاری پروژه</DialogTitle>
+                  </DialogHeader>
+                  <WorkCalendarEditor project={currentProject} />
+                </DialogContent>
+              </Dialog>
+
+              {/* Resources Button */}
+              <Dialog
+                open={isResourcesDialogOpen}
+                onOpenChange={setIsResourcesDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="gap-2">
+                    <Contact className="w-4 h-4" />
+                    منابع
+                  </Button>
+                </DialogTrigger>
+                <DialogContent
+                  className="sm:max-w-lg p-4"
+                  style={{ direction: "rtl" }}
+                >
+                  <DialogHeader>
+                    <DialogTitle>منابع پروژه</DialogTitle>
+                  </DialogHeader>
+                  <ResourceEditor
+                    projectId={currentProject.id}
+                    resources={resources}
+                  />
+                </DialogContent>
+              </Dialog>
+
+              {/* Resource Leveling Button */}
+              <Dialog
+                open={isLevelingDialogOpen}
+                onOpenChange={setIsLevelingDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    disabled={resources.length === 0}
+                  >
+                    <Scale className="w-4 h-4" />
+                    تسطیح منابع
+                  </Button>
+                </DialogTrigger>
+                <DialogContent
+                  className="sm:max-w-2xl p-4"
+                  style={{ direction: "rtl" }}
+                >
+                  <DialogHeader>
+                    <DialogTitle>تسطیح منابع</DialogTitle>
+                  </DialogHeader>
+                  {isLevelingDialogOpen && (
+                    <ResourceLevelingPreview
+                      tasks={tasks}
+                      dependencies={dependencies}
+                      resources={resources}
+                      calendar={currentProject.calendar}
+                      onApplied={() => setIsLevelingDialogOpen(false)}
+                    />
+                  )}
+                </DialogContent>
+              </Dialog>
+
+              {/* Baselines Button */}
+              <Dialog
+                open={isBaselinesDialogOpen}
+                onOpenChange={setIsBaselinesDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="gap-2">
+                    <Flag className="w-4 h-4" />
+                    خطوط مبنا
+                  </Button>
+                </DialogTrigger>
+                <DialogContent
+                  className="sm:max-w-lg p-4"
+                  style={{ direction: "rtl" }}
+                >
+                  <DialogHeader>
+                    <DialogTitle>خطوط مبنای پروژه</DialogTitle>
+                  </DialogHeader>
+                  <BaselineManager
+                    projectId={currentProject.id}
+                    baselines={baselines}
+                  />
+                </DialogContent>
+              </Dialog>
+
+              {/* Task Statuses Button */}
+              <Dialog
+                open={isStatusesDialogOpen}
+                onOpenChange={setIsStatusesDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="gap-2">
+                    <ListChecks className="w-4 h-4" />
+                    وضعیت‌ها
+                  </Button>
+                </DialogTrigger>
+                <DialogContent
+                  className="sm:max-w-lg p-4"
+                  style={{ direction: "rtl" }}
+                >
+                  <DialogHeader>
+                    <DialogTitle>وضعیت‌های تسک</DialogTitle>
+                  </DialogHeader>
+                  <TaskStatusEditor project={currentProject} />
+                </DialogContent>
+              </Dialog>
+
+              {/* Custom Fields Button */}
+              <Dialog
+                open={isCustomFieldsDialogOpen}
+                onOpenChange={setIsCustomFieldsDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="gap-2">
+                    <SlidersHorizontal className="w-4 h-4" />
+                    فیلدهای سفارشی
+                  </Button>
+                </DialogTrigger>
+                <DialogContent
+                  className="sm:max-w-lg p-4"
+                  style={{ direction: "rtl" }}
+                >
+                  <DialogHeader>
+                    <DialogTitle>فیلدهای سفارشی تسک‌ها</DialogTitle>
+                  </DialogHeader>
+                  <CustomFieldEditor project={currentProject} />
+                </DialogContent>
+              </Dialog>
+
               {/* Add Task Button */}
               <Dialog
                 open={isAddTaskDialogOpen}
@@ -501,6 +892,44 @@ export default function ProjectPage() {
                         className="w-full"
                       />
                     </div>
+                    <div>
+                      <Label className="block text-sm font-medium mb-2">
+                        نوع
+                      </Label>
+                      <Select
+                        value={taskType}
+                        onValueChange={handleTaskTypeChange}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="task">تسک</SelectItem>
+                          <SelectItem value="milestone">نقطه عطف</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="block text-sm font-medium mb-2">
+                        تسک والد (اختیاری)
+                      </Label>
+                      <Select
+                        value={taskParentId}
+                        onValueChange={setTaskParentId}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="انتخاب تسک والد" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">بدون والد</SelectItem>
+                          {parentCandidates.map((task) => (
+                            <SelectItem key={task.id} value={task.id}>
+                              {task.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div>
                       <Label className="block text-sm font-medium mb-2">
                         گروه (اختیاری)
@@ -508,6 +937,7 @@ export default function ProjectPage() {
                       <Select
                         value={taskGroupId}
                         onValueChange={setTaskGroupId}
+                        disabled={taskParentId !== "none"}
                       >
                         <SelectTrigger className="w-full">
                           <SelectValue placeholder="انتخاب گروه" />
@@ -543,22 +973,41 @@ export default function ProjectPage() {
                       </Label>
                       <DateTimePicker
                         value={taskStartDate}
-                        onChange={setTaskStartDate}
+                        onChange={handleTaskStartDateChange}
                         placeholder="انتخاب تاریخ شروع"
                         className="w-full"
                       />
                     </div>
-                    <div>
-                      <Label className="block text-sm font-medium mb-2">
-                        تاریخ پایان
-                      </Label>
-                      <DateTimePicker
-                        value={taskEndDate}
-                        onChange={setTaskEndDate}
-                        placeholder="انتخاب تاریخ پایان"
-                        className="w-full"
-                      />
-                    </div>
+                    {taskType === "task" && (
+                      <div>
+                        <Label className="block text-sm font-medium mb-2">
+                          تاریخ پایان
+                        </Label>
+                        <DateTimePicker
+                          value={taskEndDate}
+                          onChange={setTaskEndDate}
+                          placeholder="انتخاب تاریخ پایان"
+                          className="w-full"
+                        />
+                      </div>
+                    )}
+                    {taskType === "task" && (
+                      <div>
+                        <Label className="block text-sm font-medium mb-2">
+                          مدت (روز کاری)
+                        </Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={taskDuration ?? ""}
+                          onChange={(e) =>
+                            handleTaskDurationChange(e.target.value)
+                          }
+                          disabled={!taskStartDate}
+                          className="w-full"
+                        />
+                      </div>
+                    )}
                     <div className="flex justify-end gap-2">
                       <Button
                         variant="outline"
@@ -598,6 +1047,40 @@ export default function ProjectPage() {
                 </SelectContent>
               </Select>
 
+              {/* Undo / Redo */}
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={handleUndo}
+                  disabled={undoStack.length === 0}
+                  title={
+                    undoStack.length > 0
+                      ? `واگرد: ${
+                          undoStack[undoStack.length - 1].label
+                        } (Ctrl+Z)`
+                      : "واگرد (Ctrl+Z)"
+                  }
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={handleRedo}
+                  disabled={redoStack.length === 0}
+                  title={
+                    redoStack.length > 0
+                      ? `انجام دوباره: ${
+                          redoStack[redoStack.length - 1].label
+                        } (Ctrl+Shift+Z)`
+                      : "انجام دوباره (Ctrl+Shift+Z)"
+                  }
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
+              </div>
+
               {/* Print Button */}
               <Button
                 variant="outline"
@@ -677,8 +1160,16 @@ export default function ProjectPage() {
             <Gantt
               tasks={tasks}
               groups={groups}
+              dependencies={dependencies}
+              resources={resources}
+              baselines={baselines}
+              statuses={projectStatuses}
+              customFields={projectCustomFields}
+              viewSettings={currentProject.viewSettings}
+              calendar={currentProject.calendar}
               onTaskDoubleClick={handleTaskClick}
               onGroupClick={handleGroupClick}
+              onViewSettingsChange={handleViewSettingsChange}
             />
           ) : (
             <div className="h-full flex items-center justify-center">
@@ -710,7 +1201,11 @@ export default function ProjectPage() {
 
         {/* Task Edit Sheet */}
         <Sheet open={isEditTaskSheetOpen} onOpenChange={setIsEditTaskSheetOpen}>
-          <SheetContent side="right" style={{ direction: "rtl" }}>
+          <SheetContent
+            side="right"
+            className="overflow-y-auto"
+            style={{ direction: "rtl" }}
+          >
             <SheetHeader>
               <SheetTitle>ویرایش تسک</SheetTitle>
               <SheetDescription>
@@ -729,11 +1224,93 @@ export default function ProjectPage() {
                   className="w-full"
                 />
               </div>
+              <div>
+                <Label className="block text-sm font-medium mb-2">نوع</Label>
+                <Select value={taskType} onValueChange={handleTaskTypeChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="task">تسک</SelectItem>
+                    <SelectItem value="milestone" disabled={isSummaryTask}>
+                      نقطه عطف
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="block text-sm font-medium mb-2">وضعیت</Label>
+                <Select value={taskStatus} onValueChange={setTaskStatus}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projectStatuses.map((status) => (
+                      <SelectItem key={status.id} value={status.id}>
+                        <div className="flex items-center gap-2">
+                          <div
+                            className="w-3 h-3 rounded-full"
+                            style={{ backgroundColor: status.color }}
+                          />
+                          {status.label}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTask?.actualEndDate && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    پایان واقعی: {formatJalaliDate(selectedTask.actualEndDate)}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label className="block text-sm font-medium mb-2">اولویت</Label>
+                <Select
+                  value={taskPriority}
+                  onValueChange={(value) =>
+                    setTaskPriority(value as TaskPriority)
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...TASK_PRIORITIES].reverse().map((priority) => (
+                      <SelectItem key={priority} value={priority}>
+                        {TASK_PRIORITY_LABELS[priority]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="block text-sm font-medium mb-2">
+                  تسک والد (اختیاری)
+                </Label>
+                <Select value={taskParentId} onValueChange={setTaskParentId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="انتخاب تسک والد" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">بدون والد</SelectItem>
+                    {parentCandidates.map((task) => (
+                      <SelectItem key={task.id} value={task.id}>
+                        {task.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div>
                 <Label className="block text-sm font-medium mb-2">
                   گروه (اختیاری)
                 </Label>
-                <Select value={taskGroupId} onValueChange={setTaskGroupId}>
+                <Select
+                  value={taskGroupId}
+                  onValueChange={setTaskGroupId}
+                  disabled={taskParentId !== "none"}
+                >
                   <SelectTrigger className="w-full">
                     <SelectValue placeholder="انتخاب گروه" />
                   </SelectTrigger>
@@ -768,22 +1345,91 @@ export default function ProjectPage() {
                 </Label>
                 <DateTimePicker
                   value={taskStartDate}
-                  onChange={setTaskStartDate}
+                  onChange={handleTaskStartDateChange}
                   placeholder="انتخاب تاریخ شروع"
+                  disabled={isSummaryTask}
                   className="w-full"
                 />
               </div>
-              <div>
-                <Label className="block text-sm font-medium mb-2">
-                  تاریخ پایان
-                </Label>
-                <DateTimePicker
-                  value={taskEndDate}
-                  onChange={setTaskEndDate}
-                  placeholder="انتخاب تاریخ پایان"
-                  className="w-full"
+              {taskType === "task" && (
+                <div>
+                  <Label className="block text-sm font-medium mb-2">
+                    تاریخ پایان
+                  </Label>
+                  <DateTimePicker
+                    value={taskEndDate}
+                    onChange={setTaskEndDate}
+                    placeholder="انتخاب تاریخ پایان"
+                    disabled={isSummaryTask}
+                    className="w-full"
+                  />
+                </div>
+              )}
+              {taskType === "task" && (
+                <div>
+                  <Label className="block text-sm font-medium mb-2">
+                    مدت (روز کاری)
+                  </Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={taskDuration ?? ""}
+                    onChange={(e) => handleTaskDurationChange(e.target.value)}
+                    disabled={isSummaryTask || !taskStartDate}
+                    className="w-full"
+                  />
+                </div>
+              )}
+              {isSummaryTask && (
+                <p className="text-sm text-gray-500">
+                  تاریخ‌ها و پیشرفت این تسک از روی زیرمجموعه‌های آن محاسبه
+                  می‌شوند
+                </p>
+              )}
+              <div className="flex items-center gap-2">
+                <input
+                  id="task-pinned"
+                  type="checkbox"
+                  checked={taskIsPinned}
+                  onChange={(e) => setTaskIsPinned(e.target.checked)}
+                  className="w-4 h-4"
                 />
+                <Label htmlFor="task-pinned" className="text-sm font-medium">
+                  زمان‌بندی دستی (با جابجایی پیش‌نیازها جابجا نشود)
+                </Label>
               </div>
+              {selectedTask && (
+                <TaskDetailsPanel
+                  taskId={selectedTask.id}
+                  tasks={tasks}
+                  customFields={projectCustomFields}
+                  isSummary={isSummaryTask}
+                />
+              )}
+              {selectedTask && (
+                <div>
+                  <Label className="block text-sm font-medium mb-2">
+                    مسئولان
+                  </Label>
+                  <TaskAssignmentEditor
+                    taskId={selectedTask.id}
+                    tasks={tasks}
+                    resources={resources}
+                  />
+                </div>
+              )}
+              {selectedTask && (
+                <div>
+                  <Label className="block text-sm font-medium mb-2">
+                    پیش‌نیازها
+                  </Label>
+                  <TaskDependencyEditor
+                    task={selectedTask}
+                    tasks={tasks}
+                    dependencies={dependencies}
+                  />
+                </div>
+              )}
               <div className="flex justify-between pt-4">
                 <Button
                   variant="destructive"
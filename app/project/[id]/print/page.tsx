@@ -7,6 +7,7 @@ import GanttPrint from "@/components/GanttPrint";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, Printer } from "lucide-react";
 import { TimelineView } from "@/lib/types";
+import { TIMELINE_VIEWS, TIMELINE_VIEW_LABELS } from "@/lib/gantt-utils";
 import "../../../../styles/print.css";
 
 export default function PrintPage() {
@@ -60,7 +61,7 @@ export default function PrintPage() {
   useEffect(() => {
     const searchParams = new URLSearchParams(window.location.search);
     const viewParam = searchParams.get("view") as TimelineView;
-    if (viewParam && (viewParam === "daily" || viewParam === "weekly")) {
+    if (viewParam && TIMELINE_VIEWS.includes(viewParam)) {
       setView(viewParam);
     }
   }, []);
@@ -138,8 +139,11 @@ export default function PrintPage() {
                 onChange={(e) => setView(e.target.value as TimelineView)}
                 className="border border-gray-300 rounded px-2 py-1 text-sm"
               >
-                <option value="daily">روزانه</option>
-                <option value="weekly">هفتگی</option>
+                {TIMELINE_VIEWS.map((timelineView) => (
+                  <option key={timelineView} value={timelineView}>
+                    {TIMELINE_VIEW_LABELS[timelineView]}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -154,7 +158,12 @@ export default function PrintPage() {
       {/* Print Content */}
       <div className="bg-white min-h-screen">
         <div className="max-w-7xl mx-auto p-4 print:p-0 print:max-w-none">
-          <GanttPrint tasks={tasks} groups={groups} view={view} />
+          <GanttPrint
+            tasks={tasks}
+            groups={groups}
+            view={view}
+            calendar={currentProject.calendar}
+          />
         </div>
       </div>
 
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { Baseline } from "@/lib/types";
+import { formatJalaliDate, toPersianNumbers } from "@/lib/gantt-utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+
+interface BaselineManagerProps {
+  projectId: string;
+  baselines: Baseline[];
+}
+
+export function BaselineManager({
+  projectId,
+  baselines,
+}: BaselineManagerProps) {
+  const { createBaseline, updateBaseline, deleteBaseline } = useAppStore();
+  const [newName, setNewName] = useState("");
+
+  const handleSave = async () => {
+    const name =
+      newName.trim() ||
+      `خط مبنا ${toPersianNumbers((baselines.length + 1).toString())}`;
+
+    try {
+      await createBaseline(projectId, name);
+      setNewName("");
+    } catch (error) {
+      console.error("Failed to create baseline:", error);
+    }
+  };
+
+  const handleRename = async (baseline: Baseline, value: string) => {
+    const name = value.trim();
+    if (!name || name === baseline.name) return;
+
+    try {
+      await updateBaseline(baseline.id, { name });
+    } catch (error) {
+      console.error("Failed to update baseline:", error);
+    }
+  };
+
+  const handleDelete = async (baseline: Baseline) => {
+    if (!confirm(`آیا از حذف «${baseline.name}» اطمینان دارید؟`)) return;
+
+    try {
+      await deleteBaseline(baseline.id);
+    } catch (error) {
+      console.error("Failed to delete baseline:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        خط مبنا تاریخ‌ها و پیشرفت فعلی همه تسک‌ها را ذخیره می‌کند تا بعداً
+        برنامه تأییدشده با وضعیت واقعی مقایسه شود.
+      </p>
+
+      {baselines.length === 0 && (
+        <p className="text-sm text-gray-500">خط مبنایی ذخیره نشده است</p>
+      )}
+
+      <div className="max-h-80 overflow-y-auto space-y-2">
+        {baselines.map((baseline) => (
+          <div
+            key={baseline.id}
+            className="flex items-center gap-2 rounded-md border p-2"
+          >
+            <Input
+              defaultValue={baseline.name}
+              onBlur={(e) => handleRename(baseline, e.target.value)}
+              className="flex-1"
+            />
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {formatJalaliDate(baseline.createdAt)}،{" "}
+              {toPersianNumbers(baseline.tasks.length.toString())} تسک
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleDelete(baseline)}
+              title="حذف خط مبنا"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="نام خط مبنا (اختیاری)"
+          className="flex-1"
+        />
+        <Button variant="outline" onClick={handleSave} className="gap-2">
+          <Plus className="w-4 h-4" />
+          ذخیره برنامه فعلی
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { CustomFieldDefinition, CustomFieldType, Project } from "@/lib/types";
+import { generateId } from "@/lib/indexeddb";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  parseList,
+} from "@/lib/custom-fields";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+interface CustomFieldEditorProps {
+  project: Project;
+}
+
+export function CustomFieldEditor({ project }: CustomFieldEditorProps) {
+  const { updateProject } = useAppStore();
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<CustomFieldType>("text");
+
+  const fields = project.customFields || [];
+
+  const saveFields = async (customFields: CustomFieldDefinition[]) => {
+    try {
+      await updateProject(project.id, { customFields });
+    } catch (error) {
+      console.error("Failed to update custom fields:", error);
+    }
+  };
+
+  const saveField = (id: string, updates: Partial<CustomFieldDefinition>) => {
+    saveFields(
+      fields.map((field) =>
+        field.id === id ? { ...field, ...updates } : field
+      )
+    );
+  };
+
+  const handleRename = (field: CustomFieldDefinition, value: string) => {
+    const name = value.trim();
+    if (!name || name === field.name) return;
+    saveField(field.id, { name });
+  };
+
+  const handleOptionsChange = (field: CustomFieldDefinition, value: string) => {
+    const options = parseList(value);
+    if (options.join(",") === (field.options || []).join(",")) return;
+    saveField(field.id, { options });
+  };
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    if (!confirm(`آیا از حذف فیلد «${field.name}» اطمینان دارید؟`)) return;
+    saveFields(fields.filter((f) => f.id !== field.id));
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    saveFields([
+      ...fields,
+      {
+        id: generateId(),
+        name,
+        type: newType,
+        options: newType === "select" ? [] : undefined,
+      },
+    ]);
+    setNewName("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        فیلدهای سفارشی در پنل ویرایش هر تسک پر می‌شوند و می‌توان آن‌ها را به
+        صورت ستون در فهرست وظایف نمایش داد.
+      </p>
+
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500">فیلد سفارشی تعریف نشده است</p>
+      )}
+
+      <div className="max-h-80 overflow-y-auto space-y-2">
+        {fields.map((field) => (
+          <div key={field.id} className="rounded-md border p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                defaultValue={field.name}
+                onBlur={(e) => handleRename(field, e.target.value)}
+                className="flex-1"
+              />
+              <span className="text-sm text-gray-500 w-16">
+                {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(field)}
+                title="حذف فیلد"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            {field.type === "select" && (
+              <Input
+                defaultValue={(field.options || []).join("، ")}
+                onBlur={(e) => handleOptionsChange(field, e.target.value)}
+                placeholder="گزینه‌ها (با ویرگول جدا کنید)"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="نام فیلد"
+          className="flex-1"
+        />
+        <Select
+          value={newType}
+          onValueChange={(value) => setNewType(value as CustomFieldType)}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CUSTOM_FIELD_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {CUSTOM_FIELD_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          افزودن
+        </Button>
+      </div>
+    </div>
+  );
+}
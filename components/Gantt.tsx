@@ -1,19 +1,97 @@
 "use client";
 
 import React, { useState, useMemo, useCallback } from "react";
-import { GanttTask, GanttConfig, TimelineView, TaskGroup } from "@/lib/types";
+import {
+  GanttTask,
+  GanttConfig,
+  GanttRenderer,
+  GanttRow,
+  Resource,
+  Baseline,
+  CustomFieldDefinition,
+  ProjectViewSettings,
+  TaskColorMode,
+  TaskDraft,
+  TaskListColumn,
+  TaskListSort,
+  TaskStatusDefinition,
+  TimelineView,
+  TaskGroup,
+  TaskDependency,
+  WorkCalendar,
+} from "@/lib/types";
 import { useAppStore } from "@/lib/store";
+import jMoment from "jalali-moment";
 import {
+  MAX_DAY_WIDTH,
+  MIN_DAY_WIDTH,
   calculateGanttDimensions,
+  calculateTaskPosition,
   generateTimelineDates,
-  formatJalaliDate,
+  getDefaultDayWidth,
+  getNonWorkingRanges,
+  getTimeAtPosition,
+  getTimelineOffset,
+  getTodayOffset,
+  getZoomView,
+  getTaskDurations,
+  getTaskEdgeX,
   toPersianNumbers,
 } from "@/lib/gantt-utils";
-import GanttTimeline from "./GanttTimeline";
+import { DependencyEdge, getDependencyType } from "@/lib/dependencies";
+import { computeCriticalPath } from "@/lib/scheduling";
+import {
+  UNASSIGNED_FILTER,
+  getProjectWorkload,
+  getTaskAssignees,
+  matchesAssigneeFilter,
+} from "@/lib/resources";
+import {
+  flattenTaskTree,
+  getWbsNumbers,
+  sortByOrder,
+  summarizeTasks,
+} from "@/lib/task-hierarchy";
+import GanttTimeline, { TIMELINE_BAND_HEIGHT } from "./GanttTimeline";
 import GanttTaskBar from "./GanttTaskBar";
-import { Badge } from "@/components/ui/badge";
+import GanttDependencyArrows, {
+  DependencyLinkDraft,
+} from "./GanttDependencyArrows";
+import GanttCanvas from "./GanttCanvas";
+import GanttTaskList, { getRowKey } from "./GanttTaskList";
+import GanttSplitter, { SPLITTER_WIDTH } from "./GanttSplitter";
+import GanttWorkload from "./GanttWorkload";
+import { getBaselineTasksById } from "@/lib/baselines";
+import { DEFAULT_TASK_STATUSES } from "@/lib/status";
+import {
+  TASK_COLOR_MODE_LABELS,
+  getColorLegend,
+  getTaskColorsById,
+} from "@/lib/task-colors";
+import {
+  BuiltInColumnId,
+  createTaskComparator,
+  getAvailableColumns,
+  getColumnLabel,
+  resolveTaskListColumns,
+} from "@/lib/task-list-columns";
+import {
+  createTaskDraft,
+  getCellUpdates,
+  parsePastedTasks,
+} from "@/lib/task-entry";
+import { useVirtualGrid } from "@/hooks/use-virtual-grid";
+import { useZoomGestures } from "@/hooks/use-zoom-gestures";
+import { Button } from "@/components/ui/button";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -21,40 +99,346 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { CalendarDays, Calendar } from "lucide-react";
-import jMoment from "jalali-moment";
+import {
+  CalendarDays,
+  Calendar,
+  CalendarRange,
+  Route,
+  ChevronDown,
+  ChevronLeft,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  Layers,
+  Paintbrush,
+  Users,
+  BarChart3,
+  Flag,
+  Palette,
+  Columns3,
+  Maximize2,
+  Minimize2,
+  Expand,
+  Focus,
+  LocateFixed,
+} from "lucide-react";
+import { DropResult } from "@hello-pangea/dnd";
 
 interface GanttProps {
   tasks: GanttTask[];
   groups?: TaskGroup[];
+  dependencies?: TaskDependency[];
+  calendar?: WorkCalendar;
+  resources?: Resource[];
+  baselines?: Baseline[];
+  statuses?: TaskStatusDefinition[]; // The project's status list
+  customFields?: CustomFieldDefinition[]; // Can be shown as task list columns
+  viewSettings?: ProjectViewSettings; // Saved task list layout
   className?: string;
   onTaskClick?: (task: GanttTask) => void;
   onTaskDoubleClick?: (task: GanttTask) => void;
   onGroupClick?: (group: TaskGroup) => void;
+  onViewSettingsChange?: (updates: Partial<ProjectViewSettings>) => void;
 }
 
-// Interface for organized data structure
-interface GanttRow {
-  type: "group" | "task";
-  id: string;
-  data: TaskGroup | GanttTask;
-  index: number; // Position in the visual list
-}
+// Narrowest the splitter can make the task list
+const MIN_TASK_LIST_WIDTH = 160;
+
+// Space left on each side of the dates fitted into the chart, in pixels
+const FIT_MARGIN = 24;
 
 const Gantt = React.memo(function Gantt({
   tasks,
   groups = [],
+  dependencies = [],
+  calendar,
+  resources = [],
+  baselines = [],
+  statuses = DEFAULT_TASK_STATUSES,
+  customFields = [],
+  viewSettings,
   className = "",
   onTaskClick,
   onTaskDoubleClick,
   onGroupClick,
+  onViewSettingsChange,
 }: GanttProps) {
-  const [view, setView] = useState<TimelineView>("daily");
-  const { updateTask } = useAppStore();
+  // Timeline scale and zoom level in pixels per day, changed together by
+  // zooming and separately by picking a view
+  const [zoom, setZoom] = useState<{ view: TimelineView; dayWidth: number }>(
+    () => ({ view: "daily", dayWidth: getDefaultDayWidth("daily") })
+  );
+  const view = zoom.view;
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [renderer, setRenderer] = useState<GanttRenderer>("dom");
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [showWorkload, setShowWorkload] = useState(true);
+  const [baselineId, setBaselineId] = useState("none");
+  const [colorMode, setColorMode] = useState<TaskColorMode>("manual");
+  const [linkDraft, setLinkDraft] = useState<DependencyLinkDraft | null>(null);
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  const {
+    currentProject,
+    createTasks,
+    updateTask,
+    setGroupsExpanded,
+    reorderTasks,
+    reorderGroups,
+    createDependency,
+    deleteDependency,
+  } = useAppStore();
 
   // Refs for scroll synchronization
   const taskListScrollRef = React.useRef<HTMLDivElement>(null);
   const chartScrollRef = React.useRef<HTMLDivElement>(null);
+  const timelineScrollRef = React.useRef<HTMLDivElement>(null);
+  const workloadScrollRef = React.useRef<HTMLDivElement>(null);
+  const chartBodyRef = React.useRef<HTMLDivElement>(null);
+
+  const resourcesById = useMemo(
+    () => new Map(resources.map((resource) => [resource.id, resource])),
+    [resources]
+  );
+
+  // Assignees per task, built once so task bars keep stable props
+  const assigneesByTaskId = useMemo(
+    () =>
+      new Map(
+        tasks.map((task) => [task.id, getTaskAssignees(task, resourcesById)])
+      ),
+    [tasks, resourcesById]
+  );
+
+  // Tasks that pass the assignee filter, plus their parents so that the
+  // matching subtasks keep their place in the tree
+  const filteredTasks = useMemo(() => {
+    if (assigneeFilter === "all") return tasks;
+
+    const tasksById = new Map(tasks.map((task) => [task.id, task]));
+    const keptIds = new Set<string>();
+    tasks
+      .filter((task) => matchesAssigneeFilter(task, assigneeFilter))
+      .forEach((task) => {
+        let current: GanttTask | undefined = task;
+        while (current && !keptIds.has(current.id)) {
+          keptIds.add(current.id);
+          current = current.parentId
+            ? tasksById.get(current.parentId)
+            : undefined;
+        }
+      });
+    return tasks.filter((task) => keptIds.has(task.id));
+  }, [tasks, assigneeFilter]);
+
+  // A filter on a deleted resource falls back to showing every task
+  React.useEffect(() => {
+    if (
+      assigneeFilter !== "all" &&
+      assigneeFilter !== UNASSIGNED_FILTER &&
+      !resourcesById.has(assigneeFilter)
+    ) {
+      setAssigneeFilter("all");
+    }
+  }, [assigneeFilter, resourcesById]);
+
+  // Task dates of the baseline drawn under the bars, if one is picked
+  const baselineTasksById = useMemo(
+    () =>
+      getBaselineTasksById(
+        baselines.find((baseline) => baseline.id === baselineId)
+      ),
+    [baselines, baselineId]
+  );
+
+  // A deleted baseline stops being drawn
+  React.useEffect(() => {
+    if (
+      baselineId !== "none" &&
+      !baselines.some((baseline) => baseline.id === baselineId)
+    ) {
+      setBaselineId("none");
+    }
+  }, [baselineId, baselines]);
+
+  // Bar colors under the "color by" mode, null when tasks keep their own
+  const colorsByTaskId = useMemo(
+    () => getTaskColorsById(tasks, colorMode, { statuses, groups, resources }),
+    [tasks, colorMode, statuses, groups, resources]
+  );
+  const colorLegend = useMemo(
+    () => getColorLegend(colorMode, { statuses, groups, resources }),
+    [colorMode, statuses, groups, resources]
+  );
+
+  // All tasks, including those inside collapsed branches, so the timeline
+  // range and the critical path do not change when a branch is collapsed
+  const allTasks = useMemo(() => {
+    const groupIds = new Set(groups.map((group) => group.id));
+    return tasks.filter((task) => !task.groupId || groupIds.has(task.groupId));
+  }, [tasks, groups]);
+
+  const taskDurations = useMemo(
+    () =>
+      new Map(
+        allTasks.map((task) => [task.id, getTaskDurations(task, calendar)])
+      ),
+    [allTasks, calendar]
+  );
+
+  // The project's task list columns and the column the rows are sorted by
+  const columns = useMemo(
+    () => resolveTaskListColumns(viewSettings?.taskListColumns, customFields),
+    [viewSettings?.taskListColumns, customFields]
+  );
+  const sort = viewSettings?.taskListSort || null;
+  const columnsWidth = columns.reduce(
+    (total, column) => total + column.width,
+    0
+  );
+
+  // The list pane shows all columns unless the splitter narrowed it, in
+  // which case the grid scrolls sideways. The width being dragged is shown
+  // before it is saved.
+  const [draggedListWidth, setDraggedListWidth] = useState<number | null>(null);
+  const isListCollapsed = !!viewSettings?.isTaskListCollapsed;
+  const isFullscreen = !!viewSettings?.isFullscreen;
+  const listPaneWidth = isListCollapsed
+    ? 0
+    : Math.min(
+        columnsWidth,
+        draggedListWidth ?? viewSettings?.taskListWidth ?? columnsWidth
+      );
+
+  const handleListResizeEnd = useCallback(
+    (taskListWidth: number) => {
+      setDraggedListWidth(null);
+      onViewSettingsChange?.({ taskListWidth });
+    },
+    [onViewSettingsChange]
+  );
+
+  const toggleListCollapsed = useCallback(
+    () => onViewSettingsChange?.({ isTaskListCollapsed: !isListCollapsed }),
+    [isListCollapsed, onViewSettingsChange]
+  );
+
+  const toggleFullscreen = useCallback(
+    () => onViewSettingsChange?.({ isFullscreen: !isFullscreen }),
+    [isFullscreen, onViewSettingsChange]
+  );
+
+  // Escape leaves fullscreen, unless the task list or an open dialog used
+  // it
+  React.useEffect(() => {
+    if (!isFullscreen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.key === "Escape" &&
+        !event.defaultPrevented &&
+        !(event.target as HTMLElement).closest?.("[role='dialog']")
+      ) {
+        toggleFullscreen();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isFullscreen, toggleFullscreen]);
+
+  const wbsNumbers = useMemo(
+    () => getWbsNumbers(allTasks, groups),
+    [allTasks, groups]
+  );
+
+  const taskComparator = useMemo(
+    () =>
+      sort
+        ? createTaskComparator(sort, {
+            statuses,
+            resourcesById,
+            customFields,
+            wbsNumbers,
+            taskDurations,
+          })
+        : undefined,
+    [sort, statuses, resourcesById, customFields, wbsNumbers, taskDurations]
+  );
+
+  const setColumns = useCallback(
+    (taskListColumns: TaskListColumn[]) =>
+      onViewSettingsChange?.({ taskListColumns }),
+    [onViewSettingsChange]
+  );
+
+  const setSort = useCallback(
+    (taskListSort: TaskListSort | null) =>
+      onViewSettingsChange?.({ taskListSort }),
+    [onViewSettingsChange]
+  );
+
+  const toggleColumn = useCallback(
+    (column: TaskListColumn) => {
+      if (columns.some((c) => c.id === column.id)) {
+        setColumns(columns.filter((c) => c.id !== column.id));
+        if (sort?.columnId === column.id) setSort(null);
+      } else {
+        setColumns([...columns, column]);
+      }
+    },
+    [columns, sort, setColumns, setSort]
+  );
+
+  // A value typed into a task list cell. Unreadable values are dropped and
+  // the cell shows the saved value again.
+  const handleCellEdit = useCallback(
+    async (task: GanttTask, columnId: string, text: string) => {
+      const updates = getCellUpdates(task, columnId, text, calendar);
+      if (!updates) return;
+      if (updates.endDate && updates.endDate < task.startDate) {
+        alert("تاریخ پایان باید بعد از تاریخ شروع باشد");
+        return;
+      }
+
+      try {
+        await updateTask(task.id, updates);
+      } catch (error) {
+        console.error("Failed to update task:", error);
+      }
+    },
+    [calendar, updateTask]
+  );
+
+  const saveNewTasks = useCallback(
+    async (drafts: TaskDraft[]) => {
+      if (!currentProject || drafts.length === 0) return;
+      try {
+        await createTasks(currentProject.id, drafts);
+      } catch (error) {
+        console.error("Failed to create tasks:", error);
+      }
+    },
+    [currentProject, createTasks]
+  );
+
+  const handleCreateTask = useCallback(
+    (title: string) => {
+      const draft = createTaskDraft({ title }, calendar);
+      if (draft) saveNewTasks([draft]);
+    },
+    [calendar, saveNewTasks]
+  );
+
+  const handlePasteTasks = useCallback(
+    (text: string, columnIds: BuiltInColumnId[], groupId?: string) =>
+      saveNewTasks(
+        parsePastedTasks(text, columnIds, calendar).map((draft) => ({
+          ...draft,
+          groupId,
+        }))
+      ),
+    [calendar, saveNewTasks]
+  );
 
   // Organize tasks and groups into rows
   const organizedRows = useMemo((): GanttRow[] => {
@@ -62,7 +446,7 @@ const Gantt = React.memo(function Gantt({
     let index = 0;
 
     // Group tasks by groupId
-    const tasksByGroup = tasks.reduce((acc, task) => {
+    const tasksByGroup = filteredTasks.reduce((acc, task) => {
       const groupId = task.groupId || "ungrouped";
       if (!acc[groupId]) {
         acc[groupId] = [];
@@ -72,7 +456,7 @@ const Gantt = React.memo(function Gantt({
     }, {} as Record<string, GanttTask[]>);
 
     // First, add grouped tasks
-    groups.forEach((group) => {
+    sortByOrder(groups).forEach((group) => {
       // Add group header
       rows.push({
         type: "group",
@@ -81,48 +465,209 @@ const Gantt = React.memo(function Gantt({
         index: index++,
       });
 
-      // Add tasks in this group
+      // Collapsed groups show only their header row
+      if (group.isExpanded === false) return;
+
+      // Add tasks in this group, subtasks nested under their parents
       const groupTasks = tasksByGroup[group.id] || [];
-      groupTasks.forEach((task) => {
+      flattenTaskTree(groupTasks, collapsedTaskIds, taskComparator).forEach(
+        (node) => {
+          rows.push({
+            type: "task",
+            id: node.task.id,
+            data: node.task,
+            index: index++,
+            depth: node.depth,
+            hasChildren: node.hasChildren,
+          });
+        }
+      );
+    });
+
+    // Then add ungrouped tasks
+    const ungroupedTasks = tasksByGroup["ungrouped"] || [];
+    flattenTaskTree(ungroupedTasks, collapsedTaskIds, taskComparator).forEach(
+      (node) => {
         rows.push({
           type: "task",
-          id: task.id,
-          data: task,
+          id: node.task.id,
+          data: node.task,
           index: index++,
+          depth: node.depth,
+          hasChildren: node.hasChildren,
         });
-      });
-    });
+      }
+    );
 
-    // Then add ungrouped tasks
-    const ungroupedTasks = tasksByGroup["ungrouped"] || [];
-    ungroupedTasks.forEach((task) => {
-      rows.push({
-        type: "task",
-        id: task.id,
-        data: task,
-        index: index++,
-      });
+    return rows;
+  }, [filteredTasks, groups, collapsedTaskIds, taskComparator]);
+
+  // Dropping a row reorders its siblings (or the groups, for a group
+  // header); dropping a task onto a group header moves it into that group
+  const handleRowDragEnd = useCallback(
+    async (result: DropResult) => {
+      const row = organizedRows[result.source.index];
+      if (!row) return;
+
+      try {
+        if (result.combine) {
+          const target = organizedRows.find(
+            (r) => getRowKey(r) === result.combine!.draggableId
+          );
+          if (row.type !== "task" || target?.type !== "group") return;
+
+          const task = row.data as GanttTask;
+          if (task.groupId !== target.id || task.parentId) {
+            await updateTask(task.id, {
+              groupId: target.id,
+              parentId: undefined,
+            });
+          }
+          return;
+        }
+
+        if (
+          !result.destination ||
+          result.destination.index === result.source.index
+        ) {
+          return;
+        }
+
+        const reordered = [...organizedRows];
+        reordered.splice(result.source.index, 1);
+        reordered.splice(result.destination.index, 0, row);
+
+        if (row.type === "group") {
+          await reorderGroups(
+            reordered.filter((r) => r.type === "group").map((r) => r.id)
+          );
+        } else {
+          const task = row.data as GanttTask;
+          const isSibling = (sibling: GanttTask) =>
+            sibling.groupId === task.groupId &&
+            sibling.parentId === task.parentId;
+          const visibleIds = reordered
+            .filter((r) => r.type === "task" && isSibling(r.data as GanttTask))
+            .map((r) => r.id);
+          // Siblings hidden by the assignee filter keep their places; the
+          // visible ones fill the remaining places in their new order
+          const visibleIdSet = new Set(visibleIds);
+          let nextVisible = 0;
+          await reorderTasks(
+            sortByOrder(tasks.filter(isSibling)).map((sibling) =>
+              visibleIdSet.has(sibling.id)
+                ? visibleIds[nextVisible++]
+                : sibling.id
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Failed to reorder rows:", error);
+      }
+    },
+    [organizedRows, tasks, updateTask, reorderTasks, reorderGroups]
+  );
+
+  // Date range and progress shown on the header of each collapsed group
+  const collapsedGroupSummaries = useMemo(
+    () =>
+      new Map(
+        groups
+          .filter((group) => group.isExpanded === false)
+          .map((group) => [
+            group.id,
+            summarizeTasks(tasks.filter((task) => task.groupId === group.id)),
+          ])
+      ),
+    [tasks, groups]
+  );
+
+  const toggleGroupExpanded = useCallback(
+    async (group: TaskGroup) => {
+      try {
+        await setGroupsExpanded([group.id], group.isExpanded === false);
+      } catch (error) {
+        console.error("Failed to update group:", error);
+      }
+    },
+    [setGroupsExpanded]
+  );
+
+  // Expand or collapse every group and every subtask branch at once
+  const setAllExpanded = useCallback(
+    async (isExpanded: boolean) => {
+      setCollapsedTaskIds(
+        isExpanded
+          ? new Set()
+          : new Set(
+              tasks.flatMap((task) => (task.parentId ? [task.parentId] : []))
+            )
+      );
+      try {
+        await setGroupsExpanded(
+          groups.map((group) => group.id),
+          isExpanded
+        );
+      } catch (error) {
+        console.error("Failed to update groups:", error);
+      }
+    },
+    [tasks, groups, setGroupsExpanded]
+  );
+
+  const toggleTaskCollapsed = useCallback((taskId: string) => {
+    setCollapsedTaskIds((current) => {
+      const next = new Set(current);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
     });
+  }, []);
 
-    return rows;
-  }, [tasks, groups]);
+  const tasksById = useMemo(
+    () => new Map(allTasks.map((task) => [task.id, task])),
+    [allTasks]
+  );
 
-  // Extract only tasks for dimension calculation
-  const allTasks = useMemo(
+  const rowIndexByTaskId = useMemo(
     () =>
-      organizedRows
-        .filter((row) => row.type === "task")
-        .map((row) => row.data as GanttTask),
+      new Map(
+        organizedRows
+          .filter((row) => row.type === "task")
+          .map((row) => [row.id, row.index])
+      ),
     [organizedRows]
   );
 
+  const scheduleInfo = useMemo(
+    () => computeCriticalPath(allTasks, dependencies, calendar),
+    [allTasks, dependencies, calendar]
+  );
+
+  const criticalTaskIds = useMemo(
+    () =>
+      showCriticalPath
+        ? new Set(
+            [...scheduleInfo.entries()]
+              .filter(([, info]) => info.isCritical)
+              .map(([id]) => id)
+          )
+        : null,
+    [scheduleInfo, showCriticalPath]
+  );
+
   const config: GanttConfig = useMemo(() => {
-    const dimensions = calculateGanttDimensions(allTasks, view);
+    const dimensions = calculateGanttDimensions(allTasks, view, zoom.dayWidth);
     return {
       view,
       ...dimensions,
+      calendar,
+      renderer,
     };
-  }, [allTasks, view]);
+  }, [allTasks, view, zoom.dayWidth, calendar, renderer]);
 
   const timelineDates = useMemo(
     () => generateTimelineDates(config.startDate, config.endDate, config.view),
@@ -134,6 +679,41 @@ const Gantt = React.memo(function Gantt({
     [timelineDates.length, config.cellWidth]
   );
 
+  // Null when today is outside the timeline
+  const todayOffset = useMemo(() => getTodayOffset(config), [config]);
+
+  // Only the rows and timeline columns inside the chart viewport are
+  // rendered; the task list shares the chart's vertical scroll position
+  const {
+    rows: visibleRows,
+    columns: visibleColumns,
+    update: updateVisibleRange,
+  } = useVirtualGrid(chartScrollRef, {
+    rowCount: organizedRows.length,
+    rowHeight: config.rowHeight,
+    columnCount: timelineDates.length,
+    columnWidth: config.cellWidth,
+  });
+
+  const renderedRows = useMemo(
+    () => organizedRows.slice(visibleRows.start, visibleRows.end),
+    [organizedRows, visibleRows]
+  );
+
+  // Load of each resource per timeline column, and the tasks that put a
+  // resource over capacity
+  const workload = useMemo(
+    () => getProjectWorkload(allTasks, resources, config),
+    [allTasks, resources, config]
+  );
+
+  // A panel shown after the chart has scrolled starts at its position
+  React.useLayoutEffect(() => {
+    if (workloadScrollRef.current && chartScrollRef.current) {
+      workloadScrollRef.current.scrollLeft = chartScrollRef.current.scrollLeft;
+    }
+  }, [showWorkload, resources.length]);
+
   const handleTaskUpdate = useCallback(
     async (taskId: string, updates: Partial<GanttTask>) => {
       try {
@@ -145,10 +725,232 @@ const Gantt = React.memo(function Gantt({
     [updateTask]
   );
 
-  const handleViewChange = useCallback((value: TimelineView) => {
-    setView(value);
+  // A link dragged from one bar's edge to another's becomes a dependency
+  const handleLinkCreate = useCallback(
+    async (
+      task: GanttTask,
+      targetId: string,
+      edge: DependencyEdge,
+      targetEdge: DependencyEdge
+    ) => {
+      try {
+        await createDependency(
+          task.projectId,
+          task.id,
+          targetId,
+          getDependencyType(edge, targetEdge)
+        );
+      } catch (error) {
+        alert((error as Error).message);
+      }
+    },
+    [createDependency]
+  );
+
+  // Drag from a bar's link handle and drop on another bar to add a dependency
+  const handleLinkStart = useCallback(
+    (task: GanttTask, edge: DependencyEdge, e: React.MouseEvent) => {
+      const container = chartBodyRef.current;
+      const rowIndex = rowIndexByTaskId.get(task.id);
+      if (!container || rowIndex === undefined) return;
+
+      const getPointer = (event: MouseEvent) => {
+        const rect = container.getBoundingClientRect();
+        return {
+          toX: event.clientX - rect.left,
+          toY: event.clientY - rect.top,
+        };
+      };
+
+      setLinkDraft({
+        fromX: getTaskEdgeX(task, config, chartWidth, edge),
+        fromY: rowIndex * config.rowHeight + config.rowHeight / 2,
+        ...getPointer(e.nativeEvent),
+      });
+
+      const handleMouseMove = (event: MouseEvent) => {
+        setLinkDraft((draft) =>
+          draft ? { ...draft, ...getPointer(event) } : draft
+        );
+      };
+
+      const handleMouseUp = async (event: MouseEvent) => {
+        document.removeEventListener("mousemove", handleMouseMove);
+        document.removeEventListener("mouseup", handleMouseUp);
+        setLinkDraft(null);
+
+        const target = (
+          document.elementFromPoint(
+            event.clientX,
+            event.clientY
+          ) as HTMLElement | null
+        )?.closest<HTMLElement>("[data-task-id]");
+        const targetId = target?.dataset.taskId;
+        if (!target || !targetId || targetId === task.id) return;
+
+        // The start edge of the target bar is its right half in RTL
+        const rect = target.getBoundingClientRect();
+        const targetEdge: DependencyEdge =
+          event.clientX >= rect.left + rect.width / 2 ? "start" : "finish";
+
+        await handleLinkCreate(task, targetId, edge, targetEdge);
+      };
+
+      document.addEventListener("mousemove", handleMouseMove);
+      document.addEventListener("mouseup", handleMouseUp);
+    },
+    [rowIndexByTaskId, config, chartWidth, handleLinkCreate]
+  );
+
+  const handleDependencyClick = useCallback(
+    async (dependency: TaskDependency) => {
+      if (confirm("آیا از حذف این وابستگی اطمینان دارید؟")) {
+        try {
+          await deleteDependency(dependency.id);
+        } catch (error) {
+          console.error("Failed to delete dependency:", error);
+        }
+      }
+    },
+    [deleteDependency]
+  );
+
+  // A date and where it should appear, in pixels from the right edge of
+  // the chart viewport. Zooming sets one to apply once the timeline has been
+  // rebuilt at the new scale.
+  const pendingScrollRef = React.useRef<{
+    date: Date;
+    viewportX: number;
+  } | null>(null);
+  const configRef = React.useRef(config);
+  configRef.current = config;
+  const zoomRef = React.useRef(zoom);
+  zoomRef.current = zoom;
+
+  // scrollLeft runs from 0 to negative values in RTL containers
+  const scrollDateTo = useCallback(
+    (date: Date, viewportX: number, scaleConfig: GanttConfig) => {
+      const scroller = chartScrollRef.current;
+      if (!scroller) return;
+      const x = getTimelineOffset(date, scaleConfig) * scaleConfig.cellWidth;
+      scroller.scrollLeft = -Math.max(0, x - viewportX);
+    },
+    []
+  );
+
+  React.useLayoutEffect(() => {
+    const anchor = pendingScrollRef.current;
+    if (!anchor) return;
+    pendingScrollRef.current = null;
+    scrollDateTo(anchor.date, anchor.viewportX, config);
+  }, [config, scrollDateTo]);
+
+  // The date at a point of the chart viewport, for zooming around it
+  const getAnchorAt = useCallback((viewportX: number) => {
+    const scroller = chartScrollRef.current;
+    const pending = pendingScrollRef.current;
+    // The timeline has not caught up with the last zoom yet
+    if (pending) return { date: pending.date, viewportX };
+    return {
+      date: getTimeAtPosition(
+        Math.abs(scroller?.scrollLeft || 0) + viewportX,
+        configRef.current
+      ),
+      viewportX,
+    };
   }, []);
 
+  const applyZoom = useCallback(
+    (
+      next: { view: TimelineView; dayWidth: number },
+      anchor: { date: Date; viewportX: number }
+    ) => {
+      const current = zoomRef.current;
+      if (next.view === current.view && next.dayWidth === current.dayWidth) {
+        scrollDateTo(anchor.date, anchor.viewportX, configRef.current);
+        return;
+      }
+      pendingScrollRef.current = anchor;
+      zoomRef.current = next;
+      setZoom(next);
+    },
+    [scrollDateTo]
+  );
+
+  // Zoom levels between the views switch the view on the way
+  const zoomTo = useCallback(
+    (dayWidth: number, anchor: { date: Date; viewportX: number }) => {
+      const clamped = Math.min(
+        MAX_DAY_WIDTH,
+        Math.max(MIN_DAY_WIDTH, dayWidth)
+      );
+      applyZoom({ view: getZoomView(clamped), dayWidth: clamped }, anchor);
+    },
+    [applyZoom]
+  );
+
+  // Ctrl+wheel and pinch zoom around the date under the pointer
+  useZoomGestures(
+    chartScrollRef,
+    useCallback(
+      (factor: number, clientX: number) => {
+        const scroller = chartScrollRef.current;
+        if (!scroller) return;
+        const viewportX = scroller.getBoundingClientRect().right - clientX;
+        zoomTo(zoomRef.current.dayWidth * factor, getAnchorAt(viewportX));
+      },
+      [zoomTo, getAnchorAt]
+    )
+  );
+
+  // Picking a view resets the zoom to its default, around the middle of
+  // the viewport
+  const handleViewChange = useCallback(
+    (value: TimelineView) => {
+      const width = chartScrollRef.current?.clientWidth || 0;
+      applyZoom(
+        { view: value, dayWidth: getDefaultDayWidth(value) },
+        getAnchorAt(width / 2)
+      );
+    },
+    [applyZoom, getAnchorAt]
+  );
+
+  // Zoom so that the dates fill the viewport, less a margin on each side
+  const fitDates = useCallback(
+    (startDate: Date, endDate: Date) => {
+      const scroller = chartScrollRef.current;
+      if (!scroller) return;
+      const start = jMoment(startDate).startOf("day");
+      const days = jMoment(endDate).startOf("day").diff(start, "days") + 1;
+      zoomTo((scroller.clientWidth - 2 * FIT_MARGIN) / days, {
+        date: start.toDate(),
+        viewportX: FIT_MARGIN,
+      });
+    },
+    [zoomTo]
+  );
+
+  const fitProject = useCallback(() => {
+    if (allTasks.length === 0) return;
+    fitDates(
+      new Date(Math.min(...allTasks.map((task) => task.startDate.getTime()))),
+      new Date(Math.max(...allTasks.map((task) => task.endDate.getTime())))
+    );
+  }, [allTasks, fitDates]);
+
+  const selectedTask = selectedTaskId
+    ? tasksById.get(selectedTaskId)
+    : undefined;
+  const fitSelection = useCallback(() => {
+    if (selectedTask) fitDates(selectedTask.startDate, selectedTask.endDate);
+  }, [selectedTask, fitDates]);
+
+  const scrollToToday = useCallback(() => {
+    const width = chartScrollRef.current?.clientWidth || 0;
+    scrollDateTo(new Date(), width / 2, configRef.current);
+  }, [scrollDateTo]);
+
   // Scroll synchronization handlers
   const handleTaskListScroll = useCallback(
     (e: React.UIEvent<HTMLDivElement>) => {
@@ -159,17 +961,41 @@ const Gantt = React.memo(function Gantt({
     []
   );
 
-  const handleChartScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
-    if (taskListScrollRef.current) {
-      taskListScrollRef.current.scrollTop = e.currentTarget.scrollTop;
-    }
-  }, []);
+  const handleChartScroll = useCallback(
+    (e: React.UIEvent<HTMLDivElement>) => {
+      if (taskListScrollRef.current) {
+        taskListScrollRef.current.scrollTop = e.currentTarget.scrollTop;
+      }
+      // Keep the timeline header (both bands) aligned with the chart body
+      if (timelineScrollRef.current) {
+        timelineScrollRef.current.scrollLeft = e.currentTarget.scrollLeft;
+      }
+      // ...and the workload panel's columns
+      if (workloadScrollRef.current) {
+        workloadScrollRef.current.scrollLeft = e.currentTarget.scrollLeft;
+      }
+      updateVisibleRange();
+    },
+    [updateVisibleRange]
+  );
 
   // Render task bars and group headers
   const rowElements = useMemo(() => {
-    return organizedRows.map((row) => {
+    return renderedRows.map((row) => {
       if (row.type === "group") {
         const group = row.data as TaskGroup;
+        const summary = collapsedGroupSummaries.get(group.id);
+        const summaryPosition = summary
+          ? calculateTaskPosition(
+              {
+                id: group.id,
+                title: group.title,
+                projectId: group.projectId,
+                ...summary,
+              },
+              config
+            )
+          : null;
         return (
           <div
             key={`group-${group.id}`}
@@ -181,10 +1007,50 @@ const Gantt = React.memo(function Gantt({
             }}
             onClick={() => onGroupClick?.(group)}
           >
+            {/* Collapsed groups get one bar spanning all of their tasks */}
+            {summary && summaryPosition && (
+              <div
+                className="absolute rounded-md overflow-hidden shadow-sm opacity-80"
+                style={{
+                  right: `${summaryPosition.left}px`,
+                  width: `${summaryPosition.width}px`,
+                  top: "12px",
+                  bottom: "12px",
+                  backgroundColor: "#9ca3af",
+                }}
+                title={`${group.title}: ${toPersianNumbers(
+                  summary.progress.toString()
+                )}%`}
+              >
+                <div
+                  className="absolute inset-y-0 right-0"
+                  style={{
+                    width: `${summary.progress}%`,
+                    backgroundColor: group.color || "#6b7280",
+                  }}
+                />
+              </div>
+            )}
+
             <div
-              className="flex items-center gap-2"
+              className="relative flex items-center gap-2"
               style={{ direction: "rtl" }}
             >
+              <button
+                type="button"
+                className="p-0.5 rounded text-gray-500 hover:bg-gray-300"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleGroupExpanded(group);
+                }}
+                title={group.isExpanded === false ? "باز کردن" : "بستن"}
+              >
+                {group.isExpanded === false ? (
+                  <ChevronLeft className="w-4 h-4" />
+                ) : (
+                  <ChevronDown className="w-4 h-4" />
+                )}
+              </button>
               <div
                 className="w-4 h-4 rounded-full"
                 style={{ backgroundColor: group.color || "#6b7280" }}
@@ -203,37 +1069,90 @@ const Gantt = React.memo(function Gantt({
             index={row.index}
             onTaskUpdate={handleTaskUpdate}
             onTaskDoubleClick={onTaskDoubleClick}
+            onLinkStart={handleLinkStart}
+            isSummary={row.hasChildren}
+            assignees={assigneesByTaskId.get(task.id)}
+            baseline={baselineTasksById.get(task.id)}
+            color={colorsByTaskId?.get(task.id)}
+            highlight={
+              criticalTaskIds
+                ? criticalTaskIds.has(task.id)
+                  ? "critical"
+                  : "dimmed"
+                : undefined
+            }
           />
         );
       }
     });
   }, [
-    organizedRows,
+    renderedRows,
     config,
     handleTaskUpdate,
     onTaskDoubleClick,
     onGroupClick,
+    handleLinkStart,
+    criticalTaskIds,
+    collapsedGroupSummaries,
+    toggleGroupExpanded,
+    assigneesByTaskId,
+    baselineTasksById,
+    colorsByTaskId,
   ]);
 
-  // Memoize grid lines for all rows
-  const verticalGridLines = useMemo(
-    () =>
-      timelineDates.map((_, index) => (
+  // Memoize grid lines for the rendered rows and columns. Columns are
+  // counted from the right, with a line on the left edge of each.
+  const verticalGridLines = useMemo(() => {
+    const lines: React.ReactNode[] = [];
+    for (
+      let index = visibleColumns.start;
+      index < visibleColumns.end;
+      index++
+    ) {
+      lines.push(
         <div
           key={index}
           className="absolute top-0 bottom-0 border-l border-gray-100"
           style={{
-            left: `${index * config.cellWidth}px`,
+            right: `${(index + 1) * config.cellWidth - 1}px`,
             width: "1px",
           }}
         />
-      )),
-    [timelineDates, config.cellWidth]
-  );
+      );
+    }
+    return lines;
+  }, [visibleColumns, config.cellWidth]);
+
+  const nonWorkingRanges = useMemo(() => getNonWorkingRanges(config), [config]);
 
-  const horizontalGridLines = useMemo(
+  // Shade weekends and holidays of the project's work calendar
+  const nonWorkingShading = useMemo(
     () =>
-      organizedRows.map((_, index) => (
+      nonWorkingRanges
+        .filter(
+          (range) =>
+            range.left + range.width >=
+              visibleColumns.start * config.cellWidth &&
+            range.left <= visibleColumns.end * config.cellWidth
+        )
+        .map((range) => (
+          <div
+            key={range.left}
+            className="absolute top-0 bottom-0 bg-gray-100"
+            style={{
+              right: `${range.left}px`,
+              width: `${range.width}px`,
+            }}
+            title={range.reason}
+          />
+        )),
+    [nonWorkingRanges, visibleColumns, config.cellWidth]
+  );
+
+  const horizontalGridLines = useMemo(() => {
+    const lines: React.ReactNode[] = [];
+    for (let index = visibleRows.start; index < visibleRows.end; index++) {
+      lines.push(
         <div
           key={index}
           className="absolute left-0 right-0 border-b border-gray-100"
@@ -242,17 +1161,215 @@ const Gantt = React.memo(function Gantt({
             height: "1px",
           }}
         />
-      )),
-    [organizedRows, config.rowHeight]
-  );
+      );
+    }
+    return lines;
+  }, [visibleRows, config.rowHeight]);
 
   return (
-    <Card className={`w-full ${className}`}>
+    <Card
+      className={`${
+        isFullscreen
+          ? "fixed inset-0 z-40 flex flex-col rounded-none"
+          : "w-full"
+      } ${className}`}
+    >
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle style={{ direction: "rtl" }}>نمودار گانت</CardTitle>
 
           <div className="flex items-center gap-2">
+            <Button
+              variant={isFullscreen ? "default" : "outline"}
+              size="icon"
+              onClick={toggleFullscreen}
+              title={isFullscreen ? "خروج از تمام صفحه" : "تمام صفحه"}
+            >
+              {isFullscreen ? (
+                <Minimize2 className="w-4 h-4" />
+              ) : (
+                <Maximize2 className="w-4 h-4" />
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setAllExpanded(true)}
+              title="باز کردن همه"
+            >
+              <ChevronsUpDown className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setAllExpanded(false)}
+              title="بستن همه"
+            >
+              <ChevronsDownUp className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant={showCriticalPath ? "default" : "outline"}
+              onClick={() => setShowCriticalPath((value) => !value)}
+              className="gap-2"
+              title="نمایش تسک‌هایی که تاریخ پایان پروژه را تعیین می‌کنند"
+            >
+              <Route className="w-4 h-4" />
+              مسیر بحرانی
+            </Button>
+
+            {baselines.length > 0 && (
+              <Select value={baselineId} onValueChange={setBaselineId}>
+                <SelectTrigger
+                  className="w-40"
+                  title="مقایسه برنامه فعلی با خط مبنا"
+                >
+                  <div className="flex items-center gap-2">
+                    <Flag className="w-4 h-4" />
+                    <SelectValue />
+                  </div>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">بدون خط مبنا</SelectItem>
+                  {baselines.map((baseline) => (
+                    <SelectItem key={baseline.id} value={baseline.id}>
+                      {baseline.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {resources.length > 0 && (
+              <Button
+                variant={showWorkload ? "default" : "outline"}
+                onClick={() => setShowWorkload((value) => !value)}
+                className="gap-2"
+                title="بار کاری هر منبع در برابر ظرفیت آن"
+              >
+                <BarChart3 className="w-4 h-4" />
+                بار کاری
+              </Button>
+            )}
+
+            {resources.length > 0 && (
+              <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                <SelectTrigger className="w-40" title="فیلتر بر اساس مسئول">
+                  <div className="flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    <SelectValue />
+                  </div>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">همه مسئولان</SelectItem>
+                  {resources.map((resource) => (
+                    <SelectItem key={resource.id} value={resource.id}>
+                      {resource.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={UNASSIGNED_FILTER}>بدون مسئول</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <Columns3 className="w-4 h-4" />
+                  ستون‌ها
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" style={{ direction: "rtl" }}>
+                <DropdownMenuLabel>ستون‌های فهرست وظایف</DropdownMenuLabel>
+                {getAvailableColumns(customFields)
+                  .filter((column) => column.id !== "title")
+                  .map((column) => (
+                    <DropdownMenuCheckboxItem
+                      key={column.id}
+                      checked={columns.some((c) => c.id === column.id)}
+                      onCheckedChange={() => toggleColumn(column)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {getColumnLabel(column.id, customFields)}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Select
+              value={colorMode}
+              onValueChange={(value: TaskColorMode) => setColorMode(value)}
+            >
+              <SelectTrigger className="w-36" title="رنگ نوار تسک‌ها بر اساس">
+                <div className="flex items-center gap-2">
+                  <Palette className="w-4 h-4" />
+                  <SelectValue />
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TASK_COLOR_MODE_LABELS) as TaskColorMode[]).map(
+                  (mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {TASK_COLOR_MODE_LABELS[mode]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={renderer}
+              onValueChange={(value: GanttRenderer) => setRenderer(value)}
+            >
+              <SelectTrigger
+                className="w-36"
+                title="روش رسم نمودار؛ بوم برای برنامه‌های پرتراکم سریع‌تر است"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dom">
+                  <div className="flex items-center gap-2">
+                    <Layers className="w-4 h-4" />
+                    رسم با DOM
+                  </div>
+                </SelectItem>
+                <SelectItem value="canvas">
+                  <div className="flex items-center gap-2">
+                    <Paintbrush className="w-4 h-4" />
+                    رسم با بوم
+                  </div>
+                </SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={fitProject}
+              title="نمایش کل پروژه"
+            >
+              <Expand className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={fitSelection}
+              disabled={!selectedTask}
+              title="نمایش تسک انتخاب‌شده"
+            >
+              <Focus className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={scrollToToday}
+              disabled={todayOffset === null}
+              title="رفتن به امروز"
+            >
+              <LocateFixed className="w-4 h-4" />
+            </Button>
+
             <Select value={view} onValueChange={handleViewChange}>
               <SelectTrigger className="w-32">
                 <SelectValue />
@@ -270,120 +1387,124 @@ const Gantt = React.memo(function Gantt({
                     هفتگی
                   </div>
                 </SelectItem>
+                <SelectItem value="monthly">
+                  <div className="flex items-center gap-2">
+                    <CalendarRange className="w-4 h-4" />
+                    ماهانه
+                  </div>
+                </SelectItem>
+                <SelectItem value="quarterly">
+                  <div className="flex items-center gap-2">
+                    <CalendarRange className="w-4 h-4" />
+                    فصلی
+                  </div>
+                </SelectItem>
+                <SelectItem value="yearly">
+                  <div className="flex items-center gap-2">
+                    <CalendarRange className="w-4 h-4" />
+                    سالانه
+                  </div>
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
         </div>
+
+        {colorLegend.length > 0 && (
+          <div
+            className="flex flex-wrap items-center gap-x-4 gap-y-1 pt-2 text-xs text-gray-600"
+            style={{ direction: "rtl" }}
+          >
+            {colorLegend.map((item) => (
+              <div key={item.id} className="flex items-center gap-1">
+                <div
+                  className="w-3 h-3 rounded-sm"
+                  style={{ backgroundColor: item.color }}
+                />
+                {item.label}
+              </div>
+            ))}
+          </div>
+        )}
       </CardHeader>
 
-      <CardContent className="p-0">
-        <div className="flex border border-gray-200 max-h-[600px] overflow-hidden">
-          {/* Task List */}
-          <div className="flex flex-col">
-            <div
-              className="flex-shrink-0 bg-gray-50 border-b border-gray-200 p-4"
-              style={{ height: "53px" }}
-            >
-              <h3
-                className="font-semibold text-gray-900 text-right"
-                style={{ direction: "rtl" }}
-              >
-                فهرست وظایف
-              </h3>
-            </div>
-            <div
-              ref={taskListScrollRef}
-              className="flex-1 overflow-y-auto overflow-x-hidden"
+      <CardContent
+        className={`p-0 ${isFullscreen ? "flex-1 min-h-0 flex flex-col" : ""}`}
+      >
+        <div
+          className={`flex border border-gray-200 overflow-hidden ${
+            isFullscreen ? "flex-1 min-h-0" : "max-h-[600px]"
+          }`}
+        >
+          {/* Task List, kept mounted while collapsed so it stays scrolled
+              along with the chart */}
+          <div
+            className={`flex-shrink-0 overflow-y-hidden ${
+              isListCollapsed ? "overflow-x-hidden" : "overflow-x-auto"
+            }`}
+            style={{ width: `${listPaneWidth}px` }}
+          >
+            <GanttTaskList
+              rows={organizedRows}
+              renderedRows={renderedRows}
+              rowHeight={config.rowHeight}
+              // Match the timeline header, which has a band above its cells in
+              // every view except yearly
+              headerHeight={
+                53 + (config.view === "yearly" ? 0 : TIMELINE_BAND_HEIGHT)
+              }
+              columns={columns}
+              customFields={customFields}
+              statuses={statuses}
+              sort={sort}
+              scrollRef={taskListScrollRef}
               onScroll={handleTaskListScroll}
-              style={{ width: "300px" }}
-            >
-              <div className="divide-y divide-gray-100">
-                {organizedRows.map((row) => {
-                  if (row.type === "group") {
-                    const group = row.data as TaskGroup;
-                    return (
-                      <div
-                        key={`group-${group.id}`}
-                        className="bg-gray-100 border-b border-gray-300 cursor-pointer hover:bg-gray-200 transition-colors"
-                        style={{ height: `${config.rowHeight}px` }}
-                        onClick={() => onGroupClick?.(group)}
-                      >
-                        <div
-                          className="flex items-center h-full px-4"
-                          style={{ direction: "rtl" }}
-                        >
-                          <div className="flex items-center gap-2">
-                            <div
-                              className="w-4 h-4 rounded-full"
-                              style={{
-                                backgroundColor: group.color || "#6b7280",
-                              }}
-                            />
-                            <span className="font-semibold text-gray-800">
-                              {group.title}
-                            </span>
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  } else {
-                    const task = row.data as GanttTask;
-                    return (
-                      <div
-                        key={`task-${task.id}`}
-                        className="p-4 hover:bg-gray-50 transition-colors cursor-pointer"
-                        style={{ height: `${config.rowHeight}px` }}
-                        onClick={() => onTaskClick?.(task)}
-                        onDoubleClick={() => onTaskDoubleClick?.(task)}
-                      >
-                        <div
-                          className="flex items-center justify-between h-full"
-                          style={{ direction: "rtl" }}
-                        >
-                          <div className="flex-1 min-w-0">
-                            <h4 className="text-sm font-medium text-gray-900 truncate text-right hover:text-blue-600 transition-colors">
-                              {task.title}
-                            </h4>
-                            <div className="mt-1 flex items-center gap-2 text-xs text-gray-500 justify-end">
-                              <span>
-                                {formatJalaliDate(task.startDate, "jMM/jDD")}
-                              </span>
-                              <span>تا</span>
-                              <span>
-                                {formatJalaliDate(task.endDate, "jMM/jDD")}
-                              </span>
-                            </div>
-                          </div>
-
-                          <div className="flex items-center gap-2 mr-3">
-                            {task.progress !== undefined && (
-                              <Badge variant="outline" className="text-xs">
-                                {toPersianNumbers(task.progress.toString())}%
-                              </Badge>
-                            )}
-
-                            <div
-                              className="w-3 h-3 rounded-full border border-white shadow-sm"
-                              style={{
-                                backgroundColor: task.color || "#3b82f6",
-                              }}
-                            />
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  }
-                })}
-              </div>
-            </div>
+              onColumnsChange={setColumns}
+              onSortChange={setSort}
+              onRowDragEnd={handleRowDragEnd}
+              wbsNumbers={wbsNumbers}
+              taskDurations={taskDurations}
+              assigneesByTaskId={assigneesByTaskId}
+              scheduleInfo={scheduleInfo}
+              overallocatedTasks={workload.overallocatedTasks}
+              baselineTasksById={baselineTasksById}
+              colorsByTaskId={colorsByTaskId}
+              collapsedTaskIds={collapsedTaskIds}
+              groupSummaries={collapsedGroupSummaries}
+              onTaskClick={onTaskClick}
+              onTaskDoubleClick={onTaskDoubleClick}
+              onGroupClick={onGroupClick}
+              onToggleTask={toggleTaskCollapsed}
+              onToggleGroup={toggleGroupExpanded}
+              onCellEdit={handleCellEdit}
+              onCreateTask={handleCreateTask}
+              onPasteTasks={handlePasteTasks}
+              onActiveTaskChange={setSelectedTaskId}
+            />
           </div>
 
+          <GanttSplitter
+            width={listPaneWidth}
+            minWidth={Math.min(MIN_TASK_LIST_WIDTH, columnsWidth)}
+            maxWidth={columnsWidth}
+            isCollapsed={isListCollapsed}
+            onResize={setDraggedListWidth}
+            onResizeEnd={handleListResizeEnd}
+            onToggleCollapsed={toggleListCollapsed}
+          />
+
           {/* Chart Area */}
           <div className="flex-1 flex flex-col overflow-hidden">
             {/* Timeline Header - Fixed */}
-            <div className="flex-shrink-0 overflow-x-auto">
+            <div
+              ref={timelineScrollRef}
+              className="flex-shrink-0 overflow-x-hidden"
+            >
               <div style={{ width: `${chartWidth}px` }}>
-                <GanttTimeline config={config} />
+                <GanttTimeline
+                  config={config}
+                  visibleColumns={visibleColumns}
+                />
               </div>
             </div>
 
@@ -396,28 +1517,87 @@ const Gantt = React.memo(function Gantt({
               <div className="relative" style={{ width: `${chartWidth}px` }}>
                 {/* Task Chart */}
                 <div
+                  ref={chartBodyRef}
                   className="relative bg-white"
                   style={{
-                    height: `${organizedRows.length * config.rowHeight}px`,
+                    // One more row lines up with the task list's new task row
+                    height: `${
+                      (organizedRows.length + 1) * config.rowHeight
+                    }px`,
                     minHeight: "200px",
                   }}
                 >
-                  {/* Background Grid */}
-                  <div className="absolute inset-0">
-                    {verticalGridLines}
-                    {horizontalGridLines}
-                  </div>
+                  {config.renderer === "canvas" ? (
+                    <GanttCanvas
+                      rows={organizedRows}
+                      config={config}
+                      chartWidth={chartWidth}
+                      height={organizedRows.length * config.rowHeight}
+                      scrollRef={chartScrollRef}
+                      dependencies={dependencies}
+                      tasksById={tasksById}
+                      rowIndexByTaskId={rowIndexByTaskId}
+                      groupSummaries={collapsedGroupSummaries}
+                      nonWorkingRanges={nonWorkingRanges}
+                      criticalTaskIds={criticalTaskIds}
+                      assigneesByTaskId={assigneesByTaskId}
+                      baselineTasksById={baselineTasksById}
+                      colorsByTaskId={colorsByTaskId}
+                      todayOffset={todayOffset}
+                      onTaskUpdate={handleTaskUpdate}
+                      onTaskDoubleClick={onTaskDoubleClick}
+                      onGroupClick={onGroupClick}
+                      onGroupToggle={toggleGroupExpanded}
+                      onDependencyClick={handleDependencyClick}
+                      onLinkCreate={handleLinkCreate}
+                    />
+                  ) : (
+                    <>
+                      {/* Background Grid */}
+                      <div className="absolute inset-0">
+                        {nonWorkingShading}
+                        {verticalGridLines}
+                        {horizontalGridLines}
+                      </div>
 
-                  {/* Task Bars and Group Headers */}
-                  {rowElements}
+                      {/* Task Bars and Group Headers */}
+                      {rowElements}
 
-                  {/* Today Indicator */}
-                  <TodayIndicator config={config} />
+                      {/* Dependency Arrows */}
+                      <GanttDependencyArrows
+                        dependencies={dependencies}
+                        tasksById={tasksById}
+                        rowIndexByTaskId={rowIndexByTaskId}
+                        config={config}
+                        chartWidth={chartWidth}
+                        height={organizedRows.length * config.rowHeight}
+                        visibleRows={visibleRows}
+                        linkDraft={linkDraft}
+                        criticalTaskIds={criticalTaskIds}
+                        onDependencyClick={handleDependencyClick}
+                      />
+
+                      {/* Today Indicator */}
+                      <TodayIndicator offset={todayOffset} />
+                    </>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         </div>
+
+        {showWorkload && resources.length > 0 && (
+          <GanttWorkload
+            config={config}
+            chartWidth={chartWidth}
+            resources={resources}
+            cells={workload.cells}
+            visibleColumns={visibleColumns}
+            scrollRef={workloadScrollRef}
+            listWidth={listPaneWidth + SPLITTER_WIDTH}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -425,55 +1605,16 @@ const Gantt = React.memo(function Gantt({
 
 // Today indicator component - memoized
 const TodayIndicator = React.memo(function TodayIndicator({
-  config,
+  offset,
 }: {
-  config: GanttConfig;
+  offset: number | null;
 }) {
-  const todayPosition = useMemo(() => {
-    const timelineDates = generateTimelineDates(
-      config.startDate,
-      config.endDate,
-      config.view
-    );
-    const today = new Date();
-
-    if (config.view === "daily") {
-      // Find today's position in daily view
-      const todayIndex = timelineDates.findIndex((date) =>
-        jMoment(date).isSame(jMoment(today), "day")
-      );
-
-      if (todayIndex === -1) return null;
-
-      return {
-        right: `${todayIndex * config.cellWidth + config.cellWidth / 2}px`,
-      };
-    } else {
-      // Weekly view - find which week contains today and position within that week
-      const todayMoment = jMoment(today);
-      const weekIndex = timelineDates.findIndex((date) =>
-        todayMoment.isSame(jMoment(date), "week")
-      );
-
-      if (weekIndex === -1) return null;
-
-      // Calculate day within the week (0 = start of week, 6 = end of week)
-      const weekStart = jMoment(timelineDates[weekIndex]).startOf("week");
-      const dayInWeek = todayMoment.diff(weekStart, "days");
-      const dayPosition = (dayInWeek / 7) * config.cellWidth;
-
-      return {
-        right: `${weekIndex * config.cellWidth + dayPosition}px`,
-      };
-    }
-  }, [config]);
-
-  if (!todayPosition) return null;
+  if (offset === null) return null;
 
   return (
     <div
       className="absolute top-0 bottom-0 z-10 pointer-events-none"
-      style={todayPosition}
+      style={{ right: `${offset}px` }}
     >
       <div className="relative h-full">
         <div className="absolute top-0 w-2 h-2 bg-red-500 rounded-full transform -translate-x-1/2" />
@@ -0,0 +1,1041 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef } from "react";
+import {
+  BaselineTask,
+  GanttTask,
+  GanttConfig,
+  GanttRow,
+  Resource,
+  TaskGroup,
+  TaskDependency,
+} from "@/lib/types";
+import {
+  BarDragMode,
+  BarDragPreview,
+  calculateTaskPosition,
+  formatJalaliDate,
+  getBarDragPreview,
+  getDependencyPath,
+  getMilestoneSize,
+  getTaskColor,
+  getTaskDurations,
+  getTaskEdgeX,
+  isMilestone,
+  isSameDragDates,
+  toPersianNumbers,
+} from "@/lib/gantt-utils";
+import { DEPENDENCY_TYPE_LABELS, DependencyEdge } from "@/lib/dependencies";
+import { getInitials } from "@/lib/resources";
+
+// Width of the grab area at each end of a bar for resizing
+const RESIZE_HANDLE_WIDTH = 8;
+// Vertical gap between a bar and its row edges, as in the DOM bars
+const BAR_INSET = 8;
+// Assignee circles, as in the DOM avatars
+const AVATAR_SIZE = 20;
+const AVATAR_OVERLAP = 4;
+const MAX_AVATARS = 3;
+// Link handles sit just outside each end of a bar, as in the DOM bars
+const LINK_HANDLE_OFFSET = 10;
+const LINK_HANDLE_RADIUS = 6;
+// Centers of the chevron and color dot of a group header, from the chart's
+// right edge, and where its title starts
+const GROUP_TOGGLE_CENTER = 26;
+const GROUP_DOT_CENTER = 52;
+const GROUP_TITLE_START = 68;
+
+interface GanttCanvasProps {
+  rows: GanttRow[];
+  config: GanttConfig;
+  chartWidth: number;
+  height: number;
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  dependencies: TaskDependency[];
+  tasksById: Map<string, GanttTask>;
+  rowIndexByTaskId: Map<string, number>;
+  groupSummaries: Map<
+    string,
+    { startDate: Date; endDate: Date; progress: number } | null
+  >;
+  nonWorkingRanges: { left: number; width: number; reason: string }[];
+  criticalTaskIds?: Set<string> | null;
+  assigneesByTaskId?: Map<string, { resource: Resource; allocation: number }[]>;
+  baselineTasksById?: Map<string, BaselineTask>;
+  colorsByTaskId?: Map<string, string> | null;
+  todayOffset: number | null; // Null when today is outside the timeline
+  onTaskUpdate?: (taskId: string, updates: Partial<GanttTask>) => void;
+  onTaskDoubleClick?: (task: GanttTask) => void;
+  onGroupClick?: (group: TaskGroup) => void;
+  onGroupToggle?: (group: TaskGroup) => void;
+  onDependencyClick?: (dependency: TaskDependency) => void;
+  onLinkCreate?: (
+    task: GanttTask,
+    targetId: string,
+    edge: DependencyEdge,
+    targetEdge: DependencyEdge
+  ) => void;
+}
+
+// The part of the chart the canvas covers, in chart coordinates: x from the
+// chart's left side (as in the dependency paths), y from its top
+interface CanvasViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface BarDrag {
+  task: GanttTask;
+  mode: BarDragMode;
+  preview: BarDragPreview | null;
+}
+
+// A link being dragged from a bar's handle, in chart coordinates
+interface LinkDrag {
+  task: GanttTask;
+  edge: DependencyEdge;
+  toX: number;
+  toY: number;
+}
+
+type CanvasHit =
+  | { type: "task"; task: GanttTask; mode: BarDragMode | null }
+  | { type: "link"; task: GanttTask; edge: DependencyEdge }
+  | { type: "group"; group: TaskGroup }
+  | { type: "group-toggle"; group: TaskGroup }
+  | { type: "dependency"; dependency: TaskDependency; title: string };
+
+// Shorten a label with an ellipsis until it fits
+const fitText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number
+): string => {
+  if (maxWidth <= 0) return "";
+  if (ctx.measureText(text).width <= maxWidth) return text;
+
+  let end = text.length;
+  while (
+    end > 0 &&
+    ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth
+  ) {
+    end--;
+  }
+  return end > 0 ? `${text.slice(0, end)}…` : "";
+};
+
+// The center of a bar's link handle on the given edge
+const getLinkHandleX = (
+  task: GanttTask,
+  config: GanttConfig,
+  chartWidth: number,
+  edge: DependencyEdge
+) =>
+  getTaskEdgeX(task, config, chartWidth, edge) +
+  (edge === "start" ? LINK_HANDLE_OFFSET : -LINK_HANDLE_OFFSET);
+
+// Assignee initials circles running leftwards from `right`, with the
+// assignees beyond MAX_AVATARS collapsed into a "+n" circle
+const drawAvatars = (
+  ctx: CanvasRenderingContext2D,
+  assignees: { resource: Resource }[],
+  right: number,
+  centerY: number,
+  fontFamily: string
+) => {
+  const shown = assignees.slice(0, MAX_AVATARS);
+  const hiddenCount = assignees.length - shown.length;
+  const circles = shown.map(({ resource }) => ({
+    color: resource.color,
+    label: getInitials(resource.name),
+  }));
+  if (hiddenCount > 0) {
+    circles.push({
+      color: "#9ca3af",
+      label: `+${toPersianNumbers(hiddenCount.toString())}`,
+    });
+  }
+
+  ctx.font = `600 9px ${fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  circles.forEach((circle, index) => {
+    const centerX =
+      right - AVATAR_SIZE / 2 - index * (AVATAR_SIZE - AVATAR_OVERLAP);
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, AVATAR_SIZE / 2, 0, Math.PI * 2);
+    ctx.fillStyle = circle.color;
+    ctx.fill();
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(circle.label, centerX, centerY);
+  });
+};
+
+// Direction and end point of the last horizontal segment of a dependency
+// path, where the arrowhead goes
+const getPathEnd = (path: string) => {
+  const values = path.split(" ");
+  let x = 0;
+  let y = 0;
+  let previousX = 0;
+  for (let i = 0; i < values.length; i++) {
+    const command = values[i];
+    if (command === "M") {
+      x = Number(values[++i]);
+      y = Number(values[++i]);
+    } else if (command === "H") {
+      previousX = x;
+      x = Number(values[++i]);
+    } else if (command === "V") {
+      y = Number(values[++i]);
+    }
+  }
+  return { x, y, direction: x >= previousX ? 1 : -1 };
+};
+
+/**
+ * Draws the chart body (grid, bars, progress, milestones, today line and
+ * dependency arrows) on a canvas the size of the scroll viewport, and
+ * hit-tests the pointer so bars can still be clicked and dragged
+ */
+const GanttCanvas = React.memo(function GanttCanvas(props: GanttCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const propsRef = useRef(props);
+  const viewportRef = useRef<CanvasViewport>({
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+  });
+  const arrowsRef = useRef<
+    { dependency: TaskDependency; path: Path2D; title: string }[]
+  >([]);
+  const dragRef = useRef<BarDrag | null>(null);
+  const linkRef = useRef<LinkDrag | null>(null);
+  // The bar under the mouse, whose link handles are shown
+  const hoveredTaskIdRef = useRef<string | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const cancelDragRef = useRef<(() => void) | null>(null);
+
+  propsRef.current = props;
+
+  const draw = useCallback(() => {
+    frameRef.current = null;
+    const canvas = canvasRef.current;
+    const scroller = propsRef.current.scrollRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !scroller || !ctx) return;
+
+    const {
+      rows,
+      config,
+      chartWidth,
+      height,
+      dependencies,
+      tasksById,
+      rowIndexByTaskId,
+      groupSummaries,
+      nonWorkingRanges,
+      criticalTaskIds,
+      assigneesByTaskId,
+      baselineTasksById,
+      colorsByTaskId,
+      todayOffset,
+    } = propsRef.current;
+
+    // Cover the visible part of the chart. scrollLeft runs from 0 to
+    // negative values in the RTL scroll container.
+    const scrollStart = Math.abs(scroller.scrollLeft);
+    const width = Math.min(scroller.clientWidth, chartWidth);
+    const viewHeight = Math.min(scroller.clientHeight, height);
+    const viewport: CanvasViewport = {
+      x: chartWidth - scrollStart - width,
+      y: scroller.scrollTop,
+      width,
+      height: viewHeight,
+    };
+    viewportRef.current = viewport;
+
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * ratio)) {
+      canvas.width = Math.round(width * ratio);
+    }
+    if (canvas.height !== Math.round(viewHeight * ratio)) {
+      canvas.height = Math.round(viewHeight * ratio);
+    }
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${viewHeight}px`;
+    canvas.style.top = `${viewport.y}px`;
+    canvas.style.right = `${scrollStart}px`;
+
+    const fontFamily = getComputedStyle(canvas).fontFamily;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, viewHeight);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, viewHeight);
+    ctx.translate(-viewport.x, -viewport.y);
+    ctx.direction = "rtl";
+
+    // Bars are placed by their offset from the right edge
+    const toX = (left: number) => chartWidth - left;
+    const firstRow = Math.max(0, Math.floor(viewport.y / config.rowHeight));
+    const lastRow = Math.min(
+      rows.length,
+      Math.ceil((viewport.y + viewHeight) / config.rowHeight)
+    );
+
+    // Weekends and holidays of the work calendar
+    ctx.fillStyle = "#f3f4f6";
+    nonWorkingRanges.forEach((range) => {
+      const x = toX(range.left + range.width);
+      if (x > viewport.x + width || x + range.width < viewport.x) return;
+      ctx.fillRect(x, viewport.y, range.width, viewHeight);
+    });
+
+    // Grid: a line on the left edge of each column and below each row
+    ctx.fillStyle = "#f3f4f6";
+    const firstColumn = Math.floor(
+      (chartWidth - viewport.x - width) / config.cellWidth
+    );
+    const lastColumn = Math.ceil((chartWidth - viewport.x) / config.cellWidth);
+    for (let column = firstColumn; column < lastColumn; column++) {
+      ctx.fillRect(
+        toX((column + 1) * config.cellWidth),
+        viewport.y,
+        1,
+        viewHeight
+      );
+    }
+    for (let index = firstRow; index < lastRow; index++) {
+      ctx.fillRect(viewport.x, index * config.rowHeight, width, 1);
+    }
+
+    const drag = dragRef.current;
+
+    for (let index = firstRow; index < lastRow; index++) {
+      const row = rows[index];
+      const top = row.index * config.rowHeight;
+
+      if (row.type === "group") {
+        const group = row.data as TaskGroup;
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = "#f3f4f6";
+        ctx.fillRect(viewport.x, top, width, config.rowHeight);
+        ctx.fillStyle = "#d1d5db";
+        ctx.fillRect(viewport.x, top + config.rowHeight - 1, width, 1);
+
+        // Collapsed groups get one bar spanning all of their tasks
+        const summary = groupSummaries.get(group.id);
+        if (summary) {
+          const position = calculateTaskPosition(
+            {
+              id: group.id,
+              title: group.title,
+              projectId: group.projectId,
+              ...summary,
+            },
+            config
+          );
+          const x = toX(position.left + position.width);
+          const barHeight = config.rowHeight - 24;
+          ctx.globalAlpha = 0.8;
+          ctx.fillStyle = "#9ca3af";
+          ctx.beginPath();
+          ctx.roundRect(x, top + 12, position.width, barHeight, 6);
+          ctx.fill();
+          ctx.fillStyle = group.color || "#6b7280";
+          const progressWidth = (position.width * summary.progress) / 100;
+          ctx.fillRect(
+            x + position.width - progressWidth,
+            top + 12,
+            progressWidth,
+            barHeight
+          );
+          ctx.globalAlpha = 1;
+        }
+
+        // Chevron, color and title at the start (right) of the chart
+        const centerY = top + config.rowHeight / 2;
+        const chevronX = chartWidth - GROUP_TOGGLE_CENTER;
+        ctx.strokeStyle = "#6b7280";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        if (group.isExpanded === false) {
+          ctx.moveTo(chevronX + 2, centerY - 4);
+          ctx.lineTo(chevronX - 2, centerY);
+          ctx.lineTo(chevronX + 2, centerY + 4);
+        } else {
+          ctx.moveTo(chevronX - 4, centerY - 2);
+          ctx.lineTo(chevronX, centerY + 2);
+          ctx.lineTo(chevronX + 4, centerY - 2);
+        }
+        ctx.stroke();
+        ctx.fillStyle = group.color || "#6b7280";
+        ctx.beginPath();
+        ctx.arc(chartWidth - GROUP_DOT_CENTER, centerY, 8, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.font = `600 16px ${fontFamily}`;
+        ctx.fillStyle = "#1f2937";
+        ctx.textAlign = "right";
+        ctx.textBaseline = "middle";
+        ctx.fillText(group.title, chartWidth - GROUP_TITLE_START, centerY);
+        continue;
+      }
+
+      const task = row.data as GanttTask;
+      const position = calculateTaskPosition(task, config);
+      const x = toX(position.left + position.width);
+      const barTop = top + BAR_INSET;
+      const barHeight = config.rowHeight - BAR_INSET * 2;
+      const color = colorsByTaskId?.get(task.id) || getTaskColor(task);
+      const isCritical = !!criticalTaskIds && criticalTaskIds.has(task.id);
+      const isDragged = drag?.task.id === task.id && !!drag.preview;
+
+      // Baseline dates, in the gap between the bar and the row's bottom
+      const baseline = baselineTasksById?.get(task.id);
+      if (baseline) {
+        const baselinePosition = calculateTaskPosition(
+          { ...task, startDate: baseline.startDate, endDate: baseline.endDate },
+          config
+        );
+        ctx.globalAlpha = 0.7;
+        ctx.fillStyle = "#9ca3af";
+        ctx.beginPath();
+        ctx.roundRect(
+          toX(baselinePosition.left + baselinePosition.width),
+          top + config.rowHeight - 7,
+          Math.max(baselinePosition.width, 4),
+          4,
+          2
+        );
+        ctx.fill();
+      }
+
+      if (
+        x > viewport.x + width + 200 ||
+        x + position.width < viewport.x - 200
+      ) {
+        continue;
+      }
+
+      ctx.globalAlpha = (criticalTaskIds && !isCritical) || isDragged ? 0.4 : 1;
+      ctx.textBaseline = "middle";
+
+      if (row.hasChildren) {
+        // Summary bar: a thin bracket spanning all subtasks
+        const bracketHeight = barHeight / 2;
+        ctx.fillStyle = "#374151";
+        ctx.fillRect(x, barTop, position.width, bracketHeight);
+        ctx.fillStyle = color;
+        const progressWidth = (position.width * (task.progress || 0)) / 100;
+        ctx.fillRect(
+          x + position.width - progressWidth,
+          barTop,
+          progressWidth,
+          bracketHeight
+        );
+        ctx.fillStyle = "#374151";
+        ctx.beginPath();
+        ctx.moveTo(x + position.width, barTop + bracketHeight);
+        ctx.lineTo(x + position.width - 6, barTop + bracketHeight);
+        ctx.lineTo(x + position.width, barTop + bracketHeight + 8);
+        ctx.moveTo(x, barTop + bracketHeight);
+        ctx.lineTo(x + 6, barTop + bracketHeight);
+        ctx.lineTo(x, barTop + bracketHeight + 8);
+        ctx.fill();
+        if (isCritical) {
+          ctx.strokeStyle = "#ef4444";
+          ctx.lineWidth = 2;
+          ctx.strokeRect(
+            x - 1,
+            barTop - 1,
+            position.width + 2,
+            bracketHeight + 2
+          );
+        }
+        ctx.font = `600 12px ${fontFamily}`;
+        ctx.fillStyle = "#1f2937";
+        ctx.textAlign = "center";
+        ctx.fillText(
+          fitText(ctx, task.title, position.width - 24),
+          x + position.width / 2,
+          barTop + barHeight - 6
+        );
+      } else if (isMilestone(task)) {
+        // Diamond whose diagonal fills the milestone box
+        const size = getMilestoneSize(config);
+        const centerX = x + position.width / 2;
+        const centerY = top + config.rowHeight / 2;
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY - size / 2);
+        ctx.lineTo(centerX + size / 2, centerY);
+        ctx.lineTo(centerX, centerY + size / 2);
+        ctx.lineTo(centerX - size / 2, centerY);
+        ctx.closePath();
+        ctx.fill();
+        if (isCritical) {
+          ctx.strokeStyle = "#ef4444";
+          ctx.lineWidth = 2;
+          ctx.stroke();
+        }
+        // Milestone title sits after the diamond (to its left)
+        ctx.font = `500 14px ${fontFamily}`;
+        ctx.fillStyle = "#1f2937";
+        ctx.textAlign = "right";
+        ctx.fillText(task.title, x - 8, centerY);
+        const assignees = assigneesByTaskId?.get(task.id);
+        if (assignees?.length) {
+          drawAvatars(
+            ctx,
+            assignees,
+            x - 12 - ctx.measureText(task.title).width,
+            centerY,
+            fontFamily
+          );
+        }
+      } else {
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.roundRect(x, barTop, position.width, barHeight, 8);
+        ctx.fill();
+        if (task.progress !== undefined) {
+          // Progress fills the bar from its start (right) edge
+          ctx.save();
+          ctx.clip();
+          ctx.fillStyle = "rgba(255, 255, 255, 0.2)";
+          const progressWidth = (position.width * task.progress) / 100;
+          ctx.fillRect(
+            x + position.width - progressWidth,
+            barTop,
+            progressWidth,
+            barHeight
+          );
+          ctx.restore();
+        }
+        if (isCritical) {
+          ctx.strokeStyle = "#ef4444";
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.roundRect(
+            x - 2,
+            barTop - 2,
+            position.width + 4,
+            barHeight + 4,
+            9
+          );
+          ctx.stroke();
+        }
+        ctx.font = `500 14px ${fontFamily}`;
+        ctx.fillStyle = "#ffffff";
+        ctx.textAlign = "center";
+        ctx.fillText(
+          fitText(ctx, task.title, position.width - 16),
+          x + position.width / 2,
+          barTop + barHeight / 2
+        );
+        // Assignees sit after the bar, clear of the finish link handle
+        const assignees = assigneesByTaskId?.get(task.id);
+        if (assignees?.length) {
+          drawAvatars(
+            ctx,
+            assignees,
+            x - 20,
+            barTop + barHeight / 2,
+            fontFamily
+          );
+        }
+      }
+    }
+    ctx.globalAlpha = 1;
+
+    // Dependency arrows whose rows overlap the viewport
+    arrowsRef.current = [];
+    dependencies.forEach((dependency) => {
+      const predecessor = tasksById.get(dependency.predecessorId);
+      const successor = tasksById.get(dependency.successorId);
+      const predecessorRow = rowIndexByTaskId.get(dependency.predecessorId);
+      const successorRow = rowIndexByTaskId.get(dependency.successorId);
+      if (
+        !predecessor ||
+        !successor ||
+        predecessorRow === undefined ||
+        successorRow === undefined ||
+        Math.max(predecessorRow, successorRow) < firstRow ||
+        Math.min(predecessorRow, successorRow) >= lastRow
+      ) {
+        return;
+      }
+
+      const pathData = getDependencyPath(
+        predecessor,
+        successor,
+        predecessorRow,
+        successorRow,
+        dependency.type,
+        config,
+        chartWidth
+      );
+      const path = new Path2D(pathData);
+      arrowsRef.current.push({
+        dependency,
+        path,
+        title: `${predecessor.title} ← ${successor.title} (${
+          DEPENDENCY_TYPE_LABELS[dependency.type]
+        })`,
+      });
+
+      // A link is on the critical path when both of its tasks are
+      const isCritical =
+        !!criticalTaskIds &&
+        criticalTaskIds.has(dependency.predecessorId) &&
+        criticalTaskIds.has(dependency.successorId);
+      const color = isCritical ? "#ef4444" : "#64748b";
+      ctx.globalAlpha = criticalTaskIds && !isCritical ? 0.3 : 1;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = isCritical ? 2 : 1.5;
+      ctx.stroke(path);
+
+      const end = getPathEnd(pathData);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(end.x, end.y);
+      ctx.lineTo(end.x - end.direction * 6, end.y - 3.5);
+      ctx.lineTo(end.x - end.direction * 6, end.y + 3.5);
+      ctx.closePath();
+      ctx.fill();
+    });
+    ctx.globalAlpha = 1;
+
+    // Link handles of the bar under the mouse, and the link being dragged
+    const hoveredTask =
+      !drag && hoveredTaskIdRef.current
+        ? tasksById.get(hoveredTaskIdRef.current)
+        : undefined;
+    const hoveredRow = hoveredTask && rowIndexByTaskId.get(hoveredTask.id);
+    if (hoveredTask && hoveredRow !== undefined) {
+      (["start", "finish"] as DependencyEdge[]).forEach((edge) => {
+        ctx.beginPath();
+        ctx.arc(
+          getLinkHandleX(hoveredTask, config, chartWidth, edge),
+          hoveredRow * config.rowHeight + config.rowHeight / 2,
+          LINK_HANDLE_RADIUS,
+          0,
+          Math.PI * 2
+        );
+        ctx.fillStyle = "#64748b";
+        ctx.fill();
+        ctx.strokeStyle = "#ffffff";
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      });
+    }
+    const link = linkRef.current;
+    const linkRow = link ? rowIndexByTaskId.get(link.task.id) : undefined;
+    if (link && linkRow !== undefined) {
+      ctx.strokeStyle = "#3b82f6";
+      ctx.lineWidth = 2;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(
+        getTaskEdgeX(link.task, config, chartWidth, link.edge),
+        linkRow * config.rowHeight + config.rowHeight / 2
+      );
+      ctx.lineTo(link.toX, link.toY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Today indicator
+    if (todayOffset !== null) {
+      const x = toX(todayOffset);
+      ctx.globalAlpha = 0.7;
+      ctx.fillStyle = "#ef4444";
+      ctx.fillRect(x, viewport.y, 1, viewHeight);
+      ctx.globalAlpha = 1;
+      ctx.beginPath();
+      ctx.arc(x, 4, 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Where the dragged bar will land when the mouse is released
+    if (drag?.preview) {
+      const index = rowIndexByTaskId.get(drag.task.id);
+      if (index !== undefined) {
+        const position = calculateTaskPosition(
+          { ...drag.task, ...drag.preview },
+          config
+        );
+        const x = toX(position.left + position.width);
+        const barTop = index * config.rowHeight + BAR_INSET;
+        const barHeight = config.rowHeight - BAR_INSET * 2;
+        ctx.fillStyle = "rgba(219, 234, 254, 0.6)";
+        ctx.strokeStyle = "#3b82f6";
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        ctx.roundRect(x, barTop, position.width, barHeight, 8);
+        ctx.fill();
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.font = `500 12px ${fontFamily}`;
+        ctx.fillStyle = "#1e3a8a";
+        ctx.textAlign = "center";
+        ctx.fillText(
+          isMilestone(drag.task)
+            ? formatJalaliDate(drag.preview.startDate, "jMM/jDD")
+            : `${formatJalaliDate(
+                drag.preview.startDate,
+                "jMM/jDD"
+              )} تا ${formatJalaliDate(drag.preview.endDate, "jMM/jDD")}`,
+          x + position.width / 2,
+          barTop + barHeight / 2
+        );
+      }
+    }
+  }, []);
+
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(draw);
+    }
+  }, [draw]);
+
+  // Redraw when the chart data changes
+  useEffect(() => {
+    scheduleDraw();
+  }, [props, scheduleDraw]);
+
+  // ...and when the viewport scrolls or changes size
+  useEffect(() => {
+    const scroller = props.scrollRef.current;
+    if (!scroller) return;
+
+    scroller.addEventListener("scroll", scheduleDraw, { passive: true });
+    const observer =
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver(scheduleDraw);
+    observer?.observe(scroller);
+
+    return () => {
+      scroller.removeEventListener("scroll", scheduleDraw);
+      observer?.disconnect();
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [props.scrollRef, scheduleDraw]);
+
+  // Drop the document listeners if the canvas goes away mid-drag
+  useEffect(() => () => cancelDragRef.current?.(), []);
+
+  // Chart coordinates of a mouse event
+  const getPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: e.clientX - rect.left + viewportRef.current.x,
+      y: e.clientY - rect.top + viewportRef.current.y,
+    };
+  };
+
+  const hitTest = (x: number, y: number): CanvasHit | null => {
+    const { rows, config, chartWidth } = propsRef.current;
+    const ctx = canvasRef.current?.getContext("2d");
+    const row = rows[Math.floor(y / config.rowHeight)];
+
+    // Link handles sit over the ends of the arrows
+    if (row?.type === "task" && propsRef.current.onLinkCreate) {
+      const task = row.data as GanttTask;
+      const centerY = row.index * config.rowHeight + config.rowHeight / 2;
+      const edge = (["start", "finish"] as DependencyEdge[]).find(
+        (edge) =>
+          Math.hypot(
+            x - getLinkHandleX(task, config, chartWidth, edge),
+            y - centerY
+          ) <=
+          LINK_HANDLE_RADIUS + 2
+      );
+      if (edge) return { type: "link", task, edge };
+    }
+
+    // Arrows are drawn over the bars, so they are tested first
+    if (ctx) {
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.lineWidth = 10;
+      const arrow = arrowsRef.current.find(({ path }) =>
+        ctx.isPointInStroke(path, x, y)
+      );
+      ctx.restore();
+      if (arrow) {
+        return {
+          type: "dependency",
+          dependency: arrow.dependency,
+          title: arrow.title,
+        };
+      }
+    }
+
+    if (!row) return null;
+    if (row.type === "group") {
+      const group = row.data as TaskGroup;
+      return Math.abs(chartWidth - x - GROUP_TOGGLE_CENTER) <= 12
+        ? { type: "group-toggle", group }
+        : { type: "group", group };
+    }
+
+    const task = row.data as GanttTask;
+    const top = row.index * config.rowHeight;
+    if (y < top + BAR_INSET || y > top + config.rowHeight - BAR_INSET) {
+      return null;
+    }
+
+    // Offsets are measured from the right edge, where bars start
+    const offset = chartWidth - x;
+    const position = calculateTaskPosition(task, config);
+    if (offset < position.left || offset > position.left + position.width) {
+      return null;
+    }
+
+    // Summary bars follow their subtasks and cannot be dragged
+    if (row.hasChildren) return { type: "task", task, mode: null };
+    if (isMilestone(task)) return { type: "task", task, mode: "drag" };
+    if (offset - position.left <= RESIZE_HANDLE_WIDTH) {
+      return { type: "task", task, mode: "resize-start" };
+    }
+    if (position.left + position.width - offset <= RESIZE_HANDLE_WIDTH) {
+      return { type: "task", task, mode: "resize-end" };
+    }
+    return { type: "task", task, mode: "drag" };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (dragRef.current || linkRef.current) return;
+
+    const { x, y } = getPoint(e);
+    const hit = hitTest(x, y);
+    const canvas = e.currentTarget;
+
+    const hoveredTaskId =
+      hit?.type === "task" || hit?.type === "link" ? hit.task.id : null;
+    if (hoveredTaskId !== hoveredTaskIdRef.current) {
+      hoveredTaskIdRef.current = hoveredTaskId;
+      scheduleDraw();
+    }
+
+    if (hit?.type === "link") {
+      canvas.style.cursor = "crosshair";
+      canvas.title =
+        hit.edge === "start"
+          ? "ایجاد وابستگی از شروع"
+          : "ایجاد وابستگی از پایان";
+    } else if (hit?.type === "group-toggle") {
+      canvas.style.cursor = "pointer";
+      canvas.title = hit.group.isExpanded === false ? "باز کردن" : "بستن";
+    } else if (hit?.type === "task") {
+      const durations = getTaskDurations(
+        hit.task,
+        propsRef.current.config.calendar
+      );
+      canvas.style.cursor =
+        hit.mode === "resize-start"
+          ? "e-resize"
+          : hit.mode === "resize-end"
+          ? "w-resize"
+          : hit.mode === "drag"
+          ? "move"
+          : "pointer";
+      canvas.title = isMilestone(hit.task)
+        ? `${hit.task.title}\nنقطه عطف: ${formatJalaliDate(hit.task.startDate)}`
+        : `${hit.task.title}\n${toPersianNumbers(
+            `${durations.workingDays}`
+          )} روز کاری، ${toPersianNumbers(
+            `${durations.calendarDays}`
+          )} روز تقویمی`;
+    } else if (hit) {
+      canvas.style.cursor = "pointer";
+      canvas.title = hit.type === "group" ? hit.group.title : hit.title;
+    } else {
+      canvas.style.cursor = "default";
+      canvas.title = "";
+    }
+  };
+
+  // The drag is previewed on the canvas and saved once on mouse up; Esc
+  // cancels it
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+
+    const { x, y } = getPoint(e);
+    const hit = hitTest(x, y);
+    if (hit?.type === "link") {
+      e.preventDefault();
+      startLinkDrag(hit.task, hit.edge, x, y);
+      return;
+    }
+    if (hit?.type !== "task" || !hit.mode) return;
+    e.preventDefault();
+
+    const { task, mode } = hit;
+    const startX = e.clientX;
+    const origin = calculateTaskPosition(task, propsRef.current.config);
+    dragRef.current = { task, mode, preview: null };
+
+    const handleDocumentMouseMove = (event: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      const next = getBarDragPreview(
+        task,
+        mode,
+        origin,
+        event.clientX - startX,
+        propsRef.current.config
+      );
+      if (!next || (drag.preview && isSameDragDates(drag.preview, next))) {
+        return;
+      }
+      drag.preview = next;
+      scheduleDraw();
+    };
+
+    const stopDrag = () => {
+      document.removeEventListener("mousemove", handleDocumentMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      document.removeEventListener("keydown", handleKeyDown);
+      cancelDragRef.current = null;
+      dragRef.current = null;
+      scheduleDraw();
+    };
+
+    const handleMouseUp = () => {
+      const latest = dragRef.current?.preview;
+      const { onTaskUpdate } = propsRef.current;
+      stopDrag();
+      if (!latest || !onTaskUpdate || isSameDragDates(latest, task)) return;
+
+      // A moved task only sends its start, the store works out the end
+      onTaskUpdate(
+        task.id,
+        mode === "drag" ? { startDate: latest.startDate } : latest
+      );
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") stopDrag();
+    };
+
+    cancelDragRef.current = stopDrag;
+    document.addEventListener("mousemove", handleDocumentMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    document.addEventListener("keydown", handleKeyDown);
+  };
+
+  // Drag from a link handle and drop on another bar to add a dependency;
+  // Esc cancels
+  const startLinkDrag = (
+    task: GanttTask,
+    edge: DependencyEdge,
+    x: number,
+    y: number
+  ) => {
+    linkRef.current = { task, edge, toX: x, toY: y };
+    scheduleDraw();
+
+    const handleDocumentMouseMove = (event: MouseEvent) => {
+      if (!linkRef.current) return;
+      const point = getPoint(event);
+      linkRef.current = { ...linkRef.current, toX: point.x, toY: point.y };
+      scheduleDraw();
+    };
+
+    const stopLinkDrag = () => {
+      document.removeEventListener("mousemove", handleDocumentMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      document.removeEventListener("keydown", handleKeyDown);
+      cancelDragRef.current = null;
+      linkRef.current = null;
+      scheduleDraw();
+    };
+
+    const handleMouseUp = (event: MouseEvent) => {
+      stopLinkDrag();
+      const point = getPoint(event);
+      const hit = hitTest(point.x, point.y);
+      if (hit?.type !== "task" && hit?.type !== "link") return;
+      if (hit.task.id === task.id) return;
+
+      // The start edge of the target bar is its right half in RTL
+      const { config, chartWidth } = propsRef.current;
+      const startX = getTaskEdgeX(hit.task, config, chartWidth, "start");
+      const finishX = getTaskEdgeX(hit.task, config, chartWidth, "finish");
+      const targetEdge: DependencyEdge =
+        hit.type === "link"
+          ? hit.edge
+          : point.x >= (startX + finishX) / 2
+          ? "start"
+          : "finish";
+      propsRef.current.onLinkCreate?.(task, hit.task.id, edge, targetEdge);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") stopLinkDrag();
+    };
+
+    cancelDragRef.current = stopLinkDrag;
+    document.addEventListener("mousemove", handleDocumentMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    document.addEventListener("keydown", handleKeyDown);
+  };
+
+  const handleMouseLeave = () => {
+    if (hoveredTaskIdRef.current) {
+      hoveredTaskIdRef.current = null;
+      scheduleDraw();
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = getPoint(e);
+    const hit = hitTest(x, y);
+    if (hit?.type === "dependency") {
+      propsRef.current.onDependencyClick?.(hit.dependency);
+    } else if (hit?.type === "group-toggle") {
+      propsRef.current.onGroupToggle?.(hit.group);
+    } else if (hit?.type === "group") {
+      propsRef.current.onGroupClick?.(hit.group);
+    }
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = getPoint(e);
+    const hit = hitTest(x, y);
+    if (hit?.type === "task") {
+      e.preventDefault();
+      propsRef.current.onTaskDoubleClick?.(hit.task);
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute"
+      style={{ zIndex: 10 }}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={handleMouseLeave}
+      onMouseDown={handleMouseDown}
+      onClick={handleClick}
+      onDoubleClick={handleDoubleClick}
+    />
+  );
+});
+
+export default GanttCanvas;
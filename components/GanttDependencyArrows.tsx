@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { GanttTask, GanttConfig, TaskDependency } from "@/lib/types";
+import { getDependencyPath } from "@/lib/gantt-utils";
+import { DEPENDENCY_TYPE_LABELS } from "@/lib/dependencies";
+import { VirtualRange } from "@/hooks/use-virtual-grid";
+
+export interface DependencyLinkDraft {
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+}
+
+interface GanttDependencyArrowsProps {
+  dependencies: TaskDependency[];
+  tasksById: Map<string, GanttTask>;
+  rowIndexByTaskId: Map<string, number>;
+  config: GanttConfig;
+  chartWidth: number;
+  height: number;
+  visibleRows?: VirtualRange; // Links that do not cross it are left out
+  linkDraft?: DependencyLinkDraft | null;
+  criticalTaskIds?: Set<string> | null;
+  onDependencyClick?: (dependency: TaskDependency) => void;
+}
+
+const GanttDependencyArrows = React.memo(function GanttDependencyArrows({
+  dependencies,
+  tasksById,
+  rowIndexByTaskId,
+  config,
+  chartWidth,
+  height,
+  visibleRows,
+  linkDraft,
+  criticalTaskIds,
+  onDependencyClick,
+}: GanttDependencyArrowsProps) {
+  const arrows = useMemo(
+    () =>
+      dependencies.flatMap((dependency) => {
+        const predecessor = tasksById.get(dependency.predecessorId);
+        const successor = tasksById.get(dependency.successorId);
+        const predecessorRow = rowIndexByTaskId.get(dependency.predecessorId);
+        const successorRow = rowIndexByTaskId.get(dependency.successorId);
+
+        // Skip links whose tasks are not currently visible as rows
+        if (
+          !predecessor ||
+          !successor ||
+          predecessorRow === undefined ||
+          successorRow === undefined
+        ) {
+          return [];
+        }
+
+        if (
+          visibleRows &&
+          (Math.max(predecessorRow, successorRow) < visibleRows.start ||
+            Math.min(predecessorRow, successorRow) >= visibleRows.end)
+        ) {
+          return [];
+        }
+
+        return [
+          {
+            dependency,
+            path: getDependencyPath(
+              predecessor,
+              successor,
+              predecessorRow,
+              successorRow,
+              dependency.type,
+              config,
+              chartWidth
+            ),
+            title: `${predecessor.title} ← ${successor.title} (${
+              DEPENDENCY_TYPE_LABELS[dependency.type]
+            })`,
+          },
+        ];
+      }),
+    [dependencies, tasksById, rowIndexByTaskId, config, chartWidth, visibleRows]
+  );
+
+  return (
+    <svg
+      className="absolute top-0 left-0 pointer-events-none"
+      width={chartWidth}
+      height={height}
+      style={{ zIndex: 15 }}
+    >
+      <defs>
+        {[
+          { id: "gantt-dependency-arrowhead", color: "#64748b" },
+          { id: "gantt-dependency-arrowhead-critical", color: "#ef4444" },
+        ].map((marker) => (
+          <marker
+            key={marker.id}
+            id={marker.id}
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={marker.color} />
+          </marker>
+        ))}
+      </defs>
+
+      {arrows.map(({ dependency, path, title }) => {
+        // A link is on the critical path when both of its tasks are
+        const isCritical =
+          !!criticalTaskIds &&
+          criticalTaskIds.has(dependency.predecessorId) &&
+          criticalTaskIds.has(dependency.successorId);
+
+        return (
+          <g
+            key={dependency.id}
+            opacity={criticalTaskIds && !isCritical ? 0.3 : 1}
+          >
+            {/* Wide transparent stroke to make the thin arrow easy to click */}
+            <path
+              d={path}
+              fill="none"
+              stroke="transparent"
+              strokeWidth={10}
+              className="pointer-events-auto cursor-pointer"
+              onClick={() => onDependencyClick?.(dependency)}
+            >
+              <title>{title}</title>
+            </path>
+            <path
+              d={path}
+              fill="none"
+              stroke={isCritical ? "#ef4444" : "#64748b"}
+              strokeWidth={isCritical ? 2 : 1.5}
+              markerEnd={`url(#gantt-dependency-arrowhead${
+                isCritical ? "-critical" : ""
+              })`}
+            />
+          </g>
+        );
+      })}
+
+      {linkDraft && (
+        <line
+          x1={linkDraft.fromX}
+          y1={linkDraft.fromY}
+          x2={linkDraft.toX}
+          y2={linkDraft.toY}
+          stroke="#3b82f6"
+          strokeWidth={2}
+          strokeDasharray="4 4"
+          markerEnd="url(#gantt-dependency-arrowhead)"
+        />
+      )}
+    </svg>
+  );
+});
+
+export default GanttDependencyArrows;
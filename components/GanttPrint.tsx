@@ -1,16 +1,28 @@
 "use client";
 
 import React, { useMemo } from "react";
-import { GanttTask, GanttConfig, TimelineView, TaskGroup } from "@/lib/types";
+import {
+  GanttTask,
+  GanttConfig,
+  TimelineView,
+  TaskGroup,
+  WorkCalendar,
+} from "@/lib/types";
 import {
   calculateGanttDimensions,
   generateTimelineDates,
   calculateTaskPosition,
   getTaskColor,
+  getMilestoneSize,
+  isMilestone,
   formatJalaliDate,
-  formatJalaliDateShort,
-  formatJalaliWeek,
+  formatTimelineColumn,
+  getTimelineBands,
+  getTimelineOffset,
+  getNonWorkingRanges,
+  TIMELINE_VIEW_LABELS,
 } from "@/lib/gantt-utils";
+import { flattenTaskTree, sortByOrder } from "@/lib/task-hierarchy";
 import jMoment from "jalali-moment";
 import "../styles/print.css";
 
@@ -18,6 +30,7 @@ interface GanttPrintProps {
   tasks: GanttTask[];
   groups?: TaskGroup[];
   view: TimelineView;
+  calendar?: WorkCalendar;
 }
 
 // Interface for organized data structure
@@ -26,12 +39,15 @@ interface GanttRow {
   id: string;
   data: TaskGroup | GanttTask;
   index: number; // Position in the visual list
+  depth?: number; // Nesting level of subtasks
+  hasChildren?: boolean; // Task is a summary of its subtasks
 }
 
 const GanttPrint = React.memo(function GanttPrint({
   tasks,
   groups = [],
   view,
+  calendar,
 }: GanttPrintProps) {
   // Organize tasks and groups into rows
   const organizedRows = useMemo((): GanttRow[] => {
@@ -49,7 +65,7 @@ const GanttPrint = React.memo(function GanttPrint({
     }, {} as Record<string, GanttTask[]>);
 
     // First, add grouped tasks
-    groups.forEach((group) => {
+    sortByOrder(groups).forEach((group) => {
       // Add group header
       rows.push({
         type: "group",
@@ -58,26 +74,30 @@ const GanttPrint = React.memo(function GanttPrint({
         index: index++,
       });
 
-      // Add tasks in this group
+      // Add tasks in this group, subtasks nested under their parents
       const groupTasks = tasksByGroup[group.id] || [];
-      groupTasks.forEach((task) => {
+      flattenTaskTree(groupTasks).forEach((node) => {
         rows.push({
           type: "task",
-          id: task.id,
-          data: task,
+          id: node.task.id,
+          data: node.task,
           index: index++,
+          depth: node.depth,
+          hasChildren: node.hasChildren,
         });
       });
     });
 
     // Then add ungrouped tasks
     const ungroupedTasks = tasksByGroup["ungrouped"] || [];
-    ungroupedTasks.forEach((task) => {
+    flattenTaskTree(ungroupedTasks).forEach((node) => {
       rows.push({
         type: "task",
-        id: task.id,
-        data: task,
+        id: node.task.id,
+        data: node.task,
         index: index++,
+        depth: node.depth,
+        hasChildren: node.hasChildren,
       });
     });
 
@@ -98,16 +118,22 @@ const GanttPrint = React.memo(function GanttPrint({
     return {
       view,
       ...dimensions,
-      cellWidth: view === "daily" ? 40 : 80, // Smaller for print
+      cellWidth: dimensions.cellWidth * (2 / 3), // Smaller for print
       rowHeight: 40, // Smaller for print
+      calendar,
     };
-  }, [allTasks, view]);
+  }, [allTasks, view, calendar]);
 
   const timelineDates = useMemo(
     () => generateTimelineDates(config.startDate, config.endDate, config.view),
     [config.startDate, config.endDate, config.view]
   );
 
+  const timelineBands = useMemo(
+    () => getTimelineBands(timelineDates, config.view),
+    [timelineDates, config.view]
+  );
+
   const chartWidth = useMemo(
     () => timelineDates.length * config.cellWidth,
     [timelineDates.length, config.cellWidth]
@@ -147,6 +173,72 @@ const GanttPrint = React.memo(function GanttPrint({
         const position = calculateTaskPosition(task, config);
         const taskColor = getTaskColor(task);
 
+        if (isMilestone(task)) {
+          const diamondSize = getMilestoneSize(config) / Math.SQRT2;
+          return (
+            <div
+              key={`task-${task.id}`}
+              className="absolute flex items-center justify-center z-10"
+              style={{
+                right: `${position.left}px`,
+                width: `${position.width}px`,
+                top: `${row.index * config.rowHeight + 4}px`,
+                height: `${config.rowHeight - 8}px`,
+              }}
+            >
+              <div
+                style={{
+                  width: `${diamondSize}px`,
+                  height: `${diamondSize}px`,
+                  transform: "rotate(45deg)",
+                  backgroundColor: taskColor,
+                }}
+              />
+              <span
+                className="absolute right-full pr-1 text-xs font-medium text-gray-800 whitespace-nowrap"
+                style={{ direction: "rtl" }}
+              >
+                {task.title}
+              </span>
+            </div>
+          );
+        }
+
+        if (row.hasChildren) {
+          return (
+            <div
+              key={`task-${task.id}`}
+              className="absolute z-10"
+              style={{
+                right: `${position.left}px`,
+                width: `${position.width}px`,
+                top: `${row.index * config.rowHeight + 4}px`,
+                height: `${config.rowHeight - 8}px`,
+              }}
+            >
+              {/* Summary bar spanning all subtasks */}
+              <div
+                className="absolute inset-x-0 top-0 h-1/2 overflow-hidden"
+                style={{ backgroundColor: "#374151" }}
+              >
+                <div
+                  className="absolute inset-y-0 right-0"
+                  style={{
+                    width: `${task.progress || 0}%`,
+                    backgroundColor: taskColor,
+                  }}
+                />
+              </div>
+              <span
+                className="absolute inset-x-2 bottom-0 text-xs font-semibold text-gray-800 truncate text-center leading-none"
+                style={{ direction: "rtl" }}
+              >
+                {task.title}
+              </span>
+            </div>
+          );
+        }
+
         return (
           <div
             key={`task-${task.id}`}
@@ -207,6 +299,21 @@ const GanttPrint = React.memo(function GanttPrint({
     [timelineDates, config.cellWidth]
   );
 
+  const nonWorkingShading = useMemo(
+    () =>
+      getNonWorkingRanges(config).map((range) => (
+        <div
+          key={range.left}
+          className="absolute top-0 bottom-0 bg-gray-100"
+          style={{
+            right: `${range.left}px`,
+            width: `${range.width}px`,
+          }}
+        />
+      )),
+    [config]
+  );
+
   const horizontalGridLines = useMemo(
     () =>
       organizedRows.map((_, index) => (
@@ -236,6 +343,15 @@ const GanttPrint = React.memo(function GanttPrint({
       if (todayIndex !== -1) {
         position = todayIndex * config.cellWidth + config.cellWidth / 2;
       }
+    } else if (config.view !== "weekly") {
+      const offset = getTimelineOffset(
+        jMoment(today).startOf("day").add(12, "hours").toDate(),
+        config
+      );
+      if (offset >= 0 && offset <= timelineDates.length) {
+        todayIndex = Math.floor(offset);
+        position = offset * config.cellWidth;
+      }
     } else {
       const todayWeekStart = jMoment(today).startOf("week");
 
@@ -293,7 +409,7 @@ const GanttPrint = React.memo(function GanttPrint({
             {/* Timeline Dates Header Spacer */}
             <div
               className="bg-white border-b border-gray-400"
-              style={{ height: "30px" }}
+              style={{ height: timelineBands.length > 0 ? "54px" : "30px" }}
             />
 
             {/* Task List Items */}
@@ -331,25 +447,40 @@ const GanttPrint = React.memo(function GanttPrint({
                     <div
                       key={`task-${task.id}`}
                       className="border-b border-gray-200 p-2"
-                      style={{ height: `${config.rowHeight}px` }}
+                      style={{
+                        height: `${config.rowHeight}px`,
+                        paddingRight: `${8 + (row.depth || 0) * 12}px`,
+                      }}
                     >
                       <div
                         className="flex items-center justify-between h-full"
                         style={{ direction: "rtl" }}
                       >
                         <div className="flex-1 min-w-0">
-                          <h4 className="text-xs font-medium text-gray-900 truncate text-right">
+                          <h4
+                            className={`text-xs text-gray-900 truncate text-right ${
+                              row.hasChildren ? "font-bold" : "font-medium"
+                            }`}
+                          >
                             {task.title}
                           </h4>
                           <div className="mt-1 text-xs text-gray-500 text-right">
-                            {formatJalaliDate(task.startDate, "jMM/jDD")} -{" "}
-                            {formatJalaliDate(task.endDate, "jMM/jDD")}
+                            {isMilestone(task) ? (
+                              formatJalaliDate(task.startDate, "jMM/jDD")
+                            ) : (
+                              <>
+                                {formatJalaliDate(task.startDate, "jMM/jDD")} -{" "}
+                                {formatJalaliDate(task.endDate, "jMM/jDD")}
+                              </>
+                            )}
                           </div>
                         </div>
 
                         <div className="flex items-center gap-1 mr-2">
                           <div
-                            className="w-2 h-2 rounded-full"
+                            className={`w-2 h-2 ${
+                              isMilestone(task) ? "rotate-45" : "rounded-full"
+                            }`}
                             style={{ backgroundColor: task.color || "#3b82f6" }}
                           />
                         </div>
@@ -374,13 +505,31 @@ const GanttPrint = React.memo(function GanttPrint({
                   style={{ direction: "rtl" }}
                 >
                   <div className="text-sm font-semibold text-gray-900">
-                    {config.view === "daily" ? "نمای روزانه" : "نمای هفتگی"} -{" "}
+                    نمای {TIMELINE_VIEW_LABELS[config.view]} -{" "}
                     {formatJalaliDate(config.startDate, "jYYYY/jMM/jDD")} تا{" "}
                     {formatJalaliDate(config.endDate, "jYYYY/jMM/jDD")}
                   </div>
                 </div>
               </div>
 
+              {/* Month/Year Band */}
+              {timelineBands.length > 0 && (
+                <div
+                  className="flex bg-gray-50 border-b border-gray-200"
+                  style={{ direction: "rtl", height: "24px" }}
+                >
+                  {timelineBands.map((band, index) => (
+                    <div
+                      key={index}
+                      className="flex-shrink-0 flex items-center px-1 border-l border-gray-200 text-xs font-semibold text-gray-800 overflow-hidden whitespace-nowrap"
+                      style={{ width: `${band.span * config.cellWidth}px` }}
+                    >
+                      {band.label}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Timeline Dates */}
               <div
                 className="relative bg-white border-b border-gray-400"
@@ -391,14 +540,12 @@ const GanttPrint = React.memo(function GanttPrint({
                     key={index}
                     className="absolute top-0 flex items-center justify-center border-l border-gray-200 text-xs font-medium text-gray-700"
                     style={{
-                      left: `${index * config.cellWidth}px`,
+                      right: `${index * config.cellWidth}px`,
                       width: `${config.cellWidth}px`,
                       height: "30px",
                     }}
                   >
-                    {config.view === "daily"
-                      ? formatJalaliDateShort(date)
-                      : formatJalaliWeek(date)}
+                    {formatTimelineColumn(date, config.view)}
                   </div>
                 ))}
               </div>
@@ -413,6 +560,7 @@ const GanttPrint = React.memo(function GanttPrint({
               >
                 {/* Background Grid */}
                 <div className="absolute inset-0">
+                  {nonWorkingShading}
                   {verticalGridLines}
                   {horizontalGridLines}
                 </div>
@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+// Width of the splitter bar in pixels
+export const SPLITTER_WIDTH = 8;
+
+interface GanttSplitterProps {
+  width: number; // Current width of the task list pane
+  minWidth: number;
+  maxWidth: number;
+  isCollapsed: boolean;
+  onResize: (width: number) => void; // While dragging
+  onResizeEnd: (width: number) => void;
+  onToggleCollapsed: () => void;
+}
+
+/**
+ * The bar between the task list and the chart. Dragging it resizes the
+ * list, which sits on its right in RTL, and its button collapses or
+ * restores the list.
+ */
+const GanttSplitter = React.memo(function GanttSplitter({
+  width,
+  minWidth,
+  maxWidth,
+  isCollapsed,
+  onResize,
+  onResizeEnd,
+  onToggleCollapsed,
+}: GanttSplitterProps) {
+  const cancelDragRef = useRef<(() => void) | null>(null);
+
+  // Drop the document listeners if the chart goes away mid-drag
+  useEffect(() => () => cancelDragRef.current?.(), []);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (isCollapsed || e.button !== 0) return;
+    e.preventDefault();
+    const startX = e.clientX;
+    let newWidth = width;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      newWidth = Math.min(
+        maxWidth,
+        Math.max(minWidth, Math.round(width + startX - event.clientX))
+      );
+      onResize(newWidth);
+    };
+    const cleanup = () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      document.body.style.cursor = "";
+      cancelDragRef.current = null;
+    };
+    const handleMouseUp = () => {
+      cleanup();
+      // A click without a drag leaves the width as it was
+      if (newWidth === width) return;
+      onResizeEnd(newWidth);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    document.body.style.cursor = "col-resize";
+    cancelDragRef.current = cleanup;
+  };
+
+  return (
+    <div
+      className={`relative flex-shrink-0 bg-gray-100 border-x border-gray-200 ${
+        isCollapsed ? "" : "cursor-col-resize hover:bg-blue-100"
+      }`}
+      style={{ width: `${SPLITTER_WIDTH}px` }}
+      onMouseDown={handleMouseDown}
+      title={isCollapsed ? undefined : "تغییر عرض فهرست تسک‌ها"}
+    >
+      <button
+        type="button"
+        className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center justify-center w-5 h-8 rounded border border-gray-300 bg-white text-gray-600 shadow-sm hover:bg-gray-50"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={onToggleCollapsed}
+        title={isCollapsed ? "نمایش فهرست تسک‌ها" : "بستن فهرست تسک‌ها"}
+      >
+        {isCollapsed ? (
+          <ChevronLeft className="w-4 h-4" />
+        ) : (
+          <ChevronRight className="w-4 h-4" />
+        )}
+      </button>
+    </div>
+  );
+});
+
+export default GanttSplitter;
@@ -1,11 +1,20 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
-import { GanttTask, GanttConfig } from "@/lib/types";
+import { useState, useRef, useCallback, useMemo, useEffect } from "react";
+import { GanttTask, GanttConfig, Resource, BaselineTask } from "@/lib/types";
+import { DependencyEdge } from "@/lib/dependencies";
 import {
+  BarDragMode,
+  BarDragPreview,
   calculateTaskPosition,
+  getBarDragPreview,
   getTaskColor,
-  generateTimelineDates,
+  getMilestoneSize,
+  getTaskDurations,
+  isMilestone,
+  isSameDragDates,
+  formatJalaliDate,
+  toPersianNumbers,
 } from "@/lib/gantt-utils";
 import {
   Tooltip,
@@ -13,7 +22,8 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import jMoment from "jalali-moment";
+import { Pin } from "lucide-react";
+import ResourceAvatars from "./ResourceAvatars";
 
 interface GanttTaskBarProps {
   task: GanttTask;
@@ -21,202 +31,387 @@ interface GanttTaskBarProps {
   index: number;
   onTaskUpdate?: (taskId: string, updates: Partial<GanttTask>) => void;
   onTaskDoubleClick?: (task: GanttTask) => void;
+  onLinkStart?: (
+    task: GanttTask,
+    edge: DependencyEdge,
+    e: React.MouseEvent
+  ) => void;
+  highlight?: "critical" | "dimmed";
+  isSummary?: boolean; // Parent task, its dates and progress come from subtasks
+  assignees?: { resource: Resource; allocation: number }[];
+  baseline?: BaselineTask; // Drawn as a thin bar under the task bar
+  color?: string; // Overrides the task's own color, for "color by" modes
 }
 
+const NO_ASSIGNEES: { resource: Resource; allocation: number }[] = [];
+
 export default function GanttTaskBar({
   task,
   config,
   index,
   onTaskUpdate,
   onTaskDoubleClick,
+  onLinkStart,
+  highlight,
+  isSummary = false,
+  assignees = NO_ASSIGNEES,
+  baseline,
+  color,
 }: GanttTaskBarProps) {
-  const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState<"left" | "right" | null>(null);
-  const [dragStart, setDragStart] = useState({
-    x: 0,
-    startDate: task.startDate,
-    endDate: task.endDate,
-  });
+  const [dragMode, setDragMode] = useState<BarDragMode | null>(null);
+  const [preview, setPreview] = useState<BarDragPreview | null>(null);
+  const cancelDragRef = useRef<(() => void) | null>(null);
   const taskBarRef = useRef<HTMLDivElement>(null);
 
   const position = calculateTaskPosition(task, config);
-  const taskColor = getTaskColor(task);
-
-  const getDateFromPosition = useCallback(
-    (x: number) => {
-      const timelineDates = generateTimelineDates(
-        config.startDate,
-        config.endDate,
-        config.view
-      );
-      const cellIndex = Math.round(x / config.cellWidth);
-      const clampedIndex = Math.max(
-        0,
-        Math.min(cellIndex, timelineDates.length - 1)
-      );
-      return timelineDates[clampedIndex];
-    },
-    [config]
+  const taskColor = color || getTaskColor(task);
+  const milestone = isMilestone(task);
+  const durations = useMemo(
+    () => getTaskDurations(task, config.calendar),
+    [task, config.calendar]
   );
+  const isDragging = dragMode === "drag";
+  const isResizing = dragMode === "resize-start" || dragMode === "resize-end";
+
+  // Drop the document listeners if the bar goes away mid-drag
+  useEffect(() => () => cancelDragRef.current?.(), []);
 
+  // The drag is previewed locally and saved once on mouse up; Esc cancels
+  // it. Everything the listeners need is captured when the drag starts.
   const handleMouseDown = useCallback(
-    (e: React.MouseEvent, type: "drag" | "resize-left" | "resize-right") => {
+    (e: React.MouseEvent, mode: BarDragMode) => {
+      if (e.button !== 0) return;
       e.preventDefault();
       e.stopPropagation();
 
       const startX = e.clientX;
+      const origin = calculateTaskPosition(task, config);
+      let latest: BarDragPreview | null = null;
 
-      setDragStart({
-        x: startX,
-        startDate: task.startDate,
-        endDate: task.endDate,
-      });
-
-      if (type === "drag") {
-        setIsDragging(true);
-      } else if (type === "resize-left") {
-        setIsResizing("left");
-      } else if (type === "resize-right") {
-        setIsResizing("right");
-      }
-
-      const handleMouseMove = (e: MouseEvent) => {
-        const deltaX = e.clientX - dragStart.x;
-        const newPosition = position.left - deltaX; // Note: RTL, so we invert
-
-        if (type === "drag") {
-          // Calculate new dates for dragging
-          const newStartDate = getDateFromPosition(newPosition);
-          const taskDuration = jMoment(task.endDate).diff(
-            jMoment(task.startDate),
-            "days"
-          );
-          const newEndDate = jMoment(newStartDate)
-            .add(taskDuration, "days")
-            .toDate();
-
-          if (onTaskUpdate) {
-            onTaskUpdate(task.id, {
-              startDate: newStartDate,
-              endDate: newEndDate,
-            });
-          }
-        } else if (type === "resize-left" && isResizing === "left") {
-          // Resize from left (change start date)
-          const newStartDate = getDateFromPosition(newPosition);
-          if (jMoment(newStartDate).isBefore(jMoment(task.endDate))) {
-            if (onTaskUpdate) {
-              onTaskUpdate(task.id, { startDate: newStartDate });
-            }
-          }
-        } else if (type === "resize-right" && isResizing === "right") {
-          // Resize from right (change end date)
-          const newEndDate = getDateFromPosition(newPosition + position.width);
-          if (jMoment(newEndDate).isAfter(jMoment(task.startDate))) {
-            if (onTaskUpdate) {
-              onTaskUpdate(task.id, { endDate: newEndDate });
-            }
-          }
-        }
+      const handleMouseMove = (event: MouseEvent) => {
+        const next = getBarDragPreview(
+          task,
+          mode,
+          origin,
+          event.clientX - startX,
+          config
+        );
+        if (!next || (latest && isSameDragDates(latest, next))) return;
+        latest = next;
+        setPreview(next);
       };
 
-      const handleMouseUp = () => {
-        setIsDragging(false);
-        setIsResizing(null);
+      const stopDrag = () => {
         document.removeEventListener("mousemove", handleMouseMove);
         document.removeEventListener("mouseup", handleMouseUp);
+        document.removeEventListener("keydown", handleKeyDown);
+        cancelDragRef.current = null;
+        setDragMode(null);
+        setPreview(null);
+      };
+
+      const handleMouseUp = () => {
+        stopDrag();
+        if (!latest || !onTaskUpdate || isSameDragDates(latest, task)) return;
+
+        // A moved task only sends its start, the store works out the end
+        onTaskUpdate(
+          task.id,
+          mode === "drag" ? { startDate: latest.startDate } : latest
+        );
+      };
+
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === "Escape") stopDrag();
       };
 
+      cancelDragRef.current = stopDrag;
+      setDragMode(mode);
       document.addEventListener("mousemove", handleMouseMove);
       document.addEventListener("mouseup", handleMouseUp);
+      document.addEventListener("keydown", handleKeyDown);
     },
-    [task, position, dragStart.x, getDateFromPosition, onTaskUpdate, isResizing]
+    [task, config, onTaskUpdate]
   );
 
+  const previewPosition = preview
+    ? calculateTaskPosition({ ...task, ...preview }, config)
+    : null;
+  const baselinePosition = baseline
+    ? calculateTaskPosition(
+        { ...task, startDate: baseline.startDate, endDate: baseline.endDate },
+        config
+      )
+    : null;
+
   return (
-    <div
-      ref={taskBarRef}
-      className={`absolute flex items-center ${
-        isDragging || isResizing ? "z-20" : "z-10"
-      }`}
-      style={{
-        right: `${position.left}px`,
-        width: `${position.width}px`,
-        top: `${index * config.rowHeight + 8}px`,
-        height: `${config.rowHeight - 16}px`,
-      }}
-    >
-      <TooltipProvider>
-        <Tooltip>
-          <TooltipTrigger asChild>
-            <div
-              className={`relative w-full h-full rounded-lg shadow-md border border-opacity-30 hover:shadow-lg transition-all duration-200 overflow-hidden group ${
-                isDragging || isResizing
-                  ? "shadow-xl ring-2 ring-blue-500"
-                  : "cursor-move"
-              }`}
-              style={{
-                backgroundColor: taskColor,
-                borderColor: taskColor,
-              }}
-              onMouseDown={(e) => handleMouseDown(e, "drag")}
-              onDoubleClick={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                onTaskDoubleClick?.(task);
-              }}
-            >
-              {/* Task Progress Bar */}
-              {task.progress !== undefined && (
+    <>
+      <div
+        ref={taskBarRef}
+        data-task-id={task.id}
+        className={`absolute flex items-center group transition-opacity ${
+          isDragging || isResizing ? "z-20" : "z-10"
+        } ${highlight === "dimmed" || preview ? "opacity-40" : ""}`}
+        style={{
+          right: `${position.left}px`,
+          width: `${position.width}px`,
+          top: `${index * config.rowHeight + 8}px`,
+          height: `${config.rowHeight - 16}px`,
+        }}
+      >
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              {isSummary ? (
                 <div
-                  className="absolute inset-0 bg-white bg-opacity-20 rounded-lg"
-                  style={{
-                    width: `${task.progress}%`,
+                  className="relative w-full h-full cursor-pointer"
+                  onDoubleClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onTaskDoubleClick?.(task);
                   }}
-                />
-              )}
+                >
+                  {/* Summary bar: a thin bracket spanning all subtasks */}
+                  <div
+                    className={`absolute inset-x-0 top-0 h-1/2 rounded-t-sm shadow-sm overflow-hidden ${
+                      highlight === "critical"
+                        ? "ring-2 ring-red-500 ring-offset-1"
+                        : ""
+                    }`}
+                    style={{ backgroundColor: "#374151" }}
+                  >
+                    <div
+                      className="absolute inset-y-0 right-0"
+                      style={{
+                        width: `${task.progress || 0}%`,
+                        backgroundColor: taskColor,
+                      }}
+                    />
+                  </div>
+                  <div
+                    className="absolute right-0 top-1/2 w-0 h-0 border-t-[8px] border-l-[6px] border-t-gray-700 border-l-transparent"
+                    style={{ marginTop: "-1px" }}
+                  />
+                  <div
+                    className="absolute left-0 top-1/2 w-0 h-0 border-t-[8px] border-r-[6px] border-t-gray-700 border-r-transparent"
+                    style={{ marginTop: "-1px" }}
+                  />
 
-              {/* Task Title */}
-              <div className="absolute inset-0 flex items-center justify-center px-2">
-                <span
-                  className="text-white text-sm font-medium truncate text-center"
-                  style={{ direction: "rtl" }}
+                  <span
+                    className="absolute inset-x-3 bottom-0 text-xs font-semibold text-gray-800 truncate text-center leading-none"
+                    style={{ direction: "rtl" }}
+                  >
+                    {task.title}
+                  </span>
+                </div>
+              ) : milestone ? (
+                <div
+                  className="relative w-full h-full flex items-center justify-center cursor-move"
+                  onMouseDown={(e) => handleMouseDown(e, "drag")}
+                  onDoubleClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onTaskDoubleClick?.(task);
+                  }}
                 >
-                  {task.title}
-                </span>
-              </div>
+                  {/* Diamond: a rotated square whose diagonal fills the box */}
+                  <div
+                    className={`shadow-md transition-all duration-200 ${
+                      isDragging ? "ring-2 ring-blue-500" : ""
+                    } ${highlight === "critical" ? "ring-2 ring-red-500" : ""}`}
+                    style={{
+                      width: `${getMilestoneSize(config) / Math.SQRT2}px`,
+                      height: `${getMilestoneSize(config) / Math.SQRT2}px`,
+                      transform: "rotate(45deg)",
+                      backgroundColor: taskColor,
+                    }}
+                  />
 
-              {/* Resize handles */}
-              <div
-                className="absolute right-0 top-0 w-2 h-full cursor-e-resize opacity-0 group-hover:opacity-100 bg-white bg-opacity-30 transition-opacity"
-                onMouseDown={(e) => handleMouseDown(e, "resize-left")}
-                title="تغییر تاریخ شروع"
-              />
-              <div
-                className="absolute left-0 top-0 w-2 h-full cursor-w-resize opacity-0 group-hover:opacity-100 bg-white bg-opacity-30 transition-opacity"
-                onMouseDown={(e) => handleMouseDown(e, "resize-right")}
-                title="تغییر تاریخ پایان"
-              />
-
-              {/* Corner indicators for start and end */}
-              <div className="absolute right-0 top-0 w-2 h-2 bg-white bg-opacity-40 rounded-bl-lg" />
-              <div className="absolute left-0 bottom-0 w-2 h-2 bg-white bg-opacity-40 rounded-tr-lg" />
-            </div>
-          </TooltipTrigger>
-
-          <TooltipContent side="top" className="max-w-xs">
-            <div className="text-center" style={{ direction: "rtl" }}>
-              <p className="font-semibold mb-1">{task.title}</p>
-              {/* <p className="text-sm text-muted-foreground">
+                  {/* Milestone title and assignees sit after the diamond (to its left) */}
+                  <div
+                    className="absolute right-full pr-2 flex items-center gap-1 pointer-events-none"
+                    style={{ direction: "rtl" }}
+                  >
+                    <span className="text-sm font-medium text-gray-800 whitespace-nowrap">
+                      {task.title}
+                    </span>
+                    <ResourceAvatars assignees={assignees} />
+                  </div>
+                </div>
+              ) : (
+                <div
+                  className={`relative w-full h-full rounded-lg shadow-md border border-opacity-30 hover:shadow-lg transition-all duration-200 overflow-hidden group ${
+                    isDragging || isResizing
+                      ? "shadow-xl ring-2 ring-blue-500"
+                      : "cursor-move"
+                  } ${
+                    highlight === "critical"
+                      ? "ring-2 ring-red-500 ring-offset-1"
+                      : ""
+                  }`}
+                  style={{
+                    backgroundColor: taskColor,
+                    borderColor: taskColor,
+                  }}
+                  onMouseDown={(e) => handleMouseDown(e, "drag")}
+                  onDoubleClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onTaskDoubleClick?.(task);
+                  }}
+                >
+                  {/* Task Progress Bar */}
+                  {task.progress !== undefined && (
+                    <div
+                      className="absolute inset-0 bg-white bg-opacity-20 rounded-lg"
+                      style={{
+                        width: `${task.progress}%`,
+                      }}
+                    />
+                  )}
+
+                  {/* Task Title */}
+                  <div className="absolute inset-0 flex items-center justify-center gap-1 px-2">
+                    {task.isPinned && (
+                      <Pin className="w-3 h-3 flex-shrink-0 text-white" />
+                    )}
+                    <span
+                      className="text-white text-sm font-medium truncate text-center"
+                      style={{ direction: "rtl" }}
+                    >
+                      {task.title}
+                    </span>
+                  </div>
+
+                  {/* Resize handles */}
+                  <div
+                    className="absolute right-0 top-0 w-2 h-full cursor-e-resize opacity-0 group-hover:opacity-100 bg-white bg-opacity-30 transition-opacity"
+                    onMouseDown={(e) => handleMouseDown(e, "resize-start")}
+                    title="تغییر تاریخ شروع"
+                  />
+                  <div
+                    className="absolute left-0 top-0 w-2 h-full cursor-w-resize opacity-0 group-hover:opacity-100 bg-white bg-opacity-30 transition-opacity"
+                    onMouseDown={(e) => handleMouseDown(e, "resize-end")}
+                    title="تغییر تاریخ پایان"
+                  />
+
+                  {/* Corner indicators for start and end */}
+                  <div className="absolute right-0 top-0 w-2 h-2 bg-white bg-opacity-40 rounded-bl-lg" />
+                  <div className="absolute left-0 bottom-0 w-2 h-2 bg-white bg-opacity-40 rounded-tr-lg" />
+                </div>
+              )}
+            </TooltipTrigger>
+
+            <TooltipContent side="top" className="max-w-xs">
+              <div className="text-center" style={{ direction: "rtl" }}>
+                <p className="font-semibold mb-1">{task.title}</p>
+                {milestone && (
+                  <p className="text-sm text-muted-foreground">
+                    نقطه عطف: {formatJalaliDate(task.startDate)}
+                  </p>
+                )}
+                {isSummary && (
+                  <p className="text-sm text-muted-foreground">
+                    تسک خلاصه، پیشرفت{" "}
+                    {toPersianNumbers(`${task.progress || 0}`)}%
+                  </p>
+                )}
+                {!milestone && (
+                  <p className="text-sm text-muted-foreground">
+                    {toPersianNumbers(`${durations.workingDays}`)} روز کاری،{" "}
+                    {toPersianNumbers(`${durations.calendarDays}`)} روز تقویمی
+                  </p>
+                )}
+                {assignees.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    مسئولان:{" "}
+                    {assignees.map(({ resource }) => resource.name).join("، ")}
+                  </p>
+                )}
+                {/* <p className="text-sm text-muted-foreground">
                 شروع: {formatJalaliDate(task.startDate)}
               </p>
               <p className="text-sm text-muted-foreground">
                 پایان: {formatJalaliDate(task.endDate)}
               </p> */}
-            </div>
-          </TooltipContent>
-        </Tooltip>
-      </TooltipProvider>
-    </div>
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        {/* Assignees sit after the bar, clear of the finish link handle */}
+        {!isSummary && !milestone && (
+          <ResourceAvatars
+            assignees={assignees}
+            className="absolute right-full top-1/2 -translate-y-1/2 mr-5 pointer-events-none"
+          />
+        )}
+
+        {/* Dependency link handles (start is on the right in RTL) */}
+        {onLinkStart && (
+          <>
+            <div
+              className="absolute -right-4 top-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-white bg-slate-500 cursor-crosshair opacity-0 group-hover:opacity-100 transition-opacity"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onLinkStart(task, "start", e);
+              }}
+              title="ایجاد وابستگی از شروع"
+            />
+            <div
+              className="absolute -left-4 top-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-white bg-slate-500 cursor-crosshair opacity-0 group-hover:opacity-100 transition-opacity"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onLinkStart(task, "finish", e);
+              }}
+              title="ایجاد وابستگی از پایان"
+            />
+          </>
+        )}
+      </div>
+
+      {/* Baseline dates, in the gap between the bar and the row's bottom */}
+      {baseline && baselinePosition && (
+        <div
+          className="absolute z-0 rounded-sm bg-gray-400 opacity-70"
+          style={{
+            right: `${baselinePosition.left}px`,
+            width: `${Math.max(baselinePosition.width, 4)}px`,
+            top: `${(index + 1) * config.rowHeight - 7}px`,
+            height: "4px",
+          }}
+          title={`خط مبنا: ${formatJalaliDate(
+            baseline.startDate
+          )} تا ${formatJalaliDate(baseline.endDate)}`}
+        />
+      )}
+
+      {/* Where the bar will land when the mouse is released */}
+      {preview && previewPosition && (
+        <div
+          className="absolute z-30 flex items-center justify-center rounded-lg border-2 border-dashed border-blue-500 bg-blue-100 bg-opacity-60 pointer-events-none"
+          style={{
+            right: `${previewPosition.left}px`,
+            width: `${previewPosition.width}px`,
+            top: `${index * config.rowHeight + 8}px`,
+            height: `${config.rowHeight - 16}px`,
+          }}
+        >
+          <span
+            className="px-1 text-xs font-medium text-blue-900 whitespace-nowrap"
+            style={{ direction: "rtl" }}
+          >
+            {milestone
+              ? formatJalaliDate(preview.startDate, "jMM/jDD")
+              : `${formatJalaliDate(
+                  preview.startDate,
+                  "jMM/jDD"
+                )} تا ${formatJalaliDate(preview.endDate, "jMM/jDD")}`}
+          </span>
+        </div>
+      )}
+    </>
   );
 }
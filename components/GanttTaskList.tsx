@@ -1,112 +1,885 @@
 "use client";
 
-import { GanttTask, GanttConfig, TaskGroup } from "@/lib/types";
-import { formatJalaliDate, toPersianNumbers } from "@/lib/gantt-utils";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  BaselineTask,
+  CustomFieldDefinition,
+  GanttRow,
+  GanttTask,
+  Resource,
+  TaskGroup,
+  TaskListColumn,
+  TaskListSort,
+  TaskStatusDefinition,
+} from "@/lib/types";
+import {
+  formatJalaliDate,
+  isMilestone,
+  toPersianNumbers,
+} from "@/lib/gantt-utils";
+import { TaskScheduleInfo } from "@/lib/scheduling";
+import { getTaskStatus } from "@/lib/status";
+import {
+  formatCustomFieldValue,
+  getCustomFieldValue,
+} from "@/lib/custom-fields";
+import { formatVariance, getBaselineVariance } from "@/lib/baselines";
+import {
+  BuiltInColumnId,
+  MIN_COLUMN_WIDTH,
+  getColumnField,
+  getColumnLabel,
+} from "@/lib/task-list-columns";
+import {
+  getCellEditText,
+  isCellEditable,
+  isEditableColumn,
+} from "@/lib/task-entry";
+import ResourceAvatars from "./ResourceAvatars";
 import { Badge } from "@/components/ui/badge";
-
-interface GanttRow {
-  type: "group" | "task";
-  id: string;
-  data: TaskGroup | GanttTask;
-  index: number;
-}
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronLeft,
+  Plus,
+} from "lucide-react";
+import {
+  DragDropContext,
+  Draggable,
+  DraggableProvided,
+  DraggableStateSnapshot,
+  Droppable,
+  DropResult,
+} from "@hello-pangea/dnd";
 
 interface GanttTaskListProps {
-  organizedRows: GanttRow[];
-  config: GanttConfig;
+  rows: GanttRow[];
+  renderedRows: GanttRow[]; // The rows in view, the only ones mounted
+  rowHeight: number;
+  headerHeight: number;
+  columns: TaskListColumn[]; // Title first
+  customFields: CustomFieldDefinition[];
+  statuses: TaskStatusDefinition[];
+  sort: TaskListSort | null;
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  onScroll: (e: React.UIEvent<HTMLDivElement>) => void;
+  onColumnsChange: (columns: TaskListColumn[]) => void;
+  onSortChange: (sort: TaskListSort | null) => void;
+  onRowDragEnd: (result: DropResult) => void;
+  wbsNumbers: Map<string, string>;
+  taskDurations: Map<string, { workingDays: number; calendarDays: number }>;
+  assigneesByTaskId: Map<string, { resource: Resource; allocation: number }[]>;
+  scheduleInfo: Map<string, TaskScheduleInfo>;
+  overallocatedTasks: Map<string, Resource[]>;
+  baselineTasksById: Map<string, BaselineTask>;
+  colorsByTaskId: Map<string, string> | null;
+  collapsedTaskIds: Set<string>;
+  groupSummaries: Map<
+    string,
+    { startDate: Date; endDate: Date; progress: number } | null
+  >;
   onTaskClick?: (task: GanttTask) => void;
   onTaskDoubleClick?: (task: GanttTask) => void;
+  onGroupClick?: (group: TaskGroup) => void;
+  onToggleTask: (taskId: string) => void;
+  onToggleGroup: (group: TaskGroup) => void;
+  onCellEdit: (task: GanttTask, columnId: string, text: string) => void;
+  onCreateTask: (title: string) => void; // Typed on the new task row
+  onPasteTasks: (
+    text: string,
+    columnIds: BuiltInColumnId[], // The editable columns, in shown order
+    groupId?: string
+  ) => void;
+  onActiveTaskChange?: (taskId: string | null) => void;
+}
+
+export const getRowKey = (row: GanttRow) => `${row.type}-${row.id}`;
+
+// Column being resized and its width so far
+interface ColumnResize {
+  columnId: string;
+  width: number;
 }
 
+// Row id of the empty row after the last task
+const NEW_TASK_ROW_ID = "new-task";
+
+// The selected cell, which keys move and typing edits
+interface ActiveCell {
+  rowId: string; // A task id or NEW_TASK_ROW_ID
+  columnId: string;
+}
+
+/**
+ * The grid next to the chart: one row per group header or task, with the
+ * title column first and the project's chosen columns after it. Headers
+ * sort the rows when clicked, move when dragged onto another header and
+ * resize from their left edge. Rows can be dragged to reorder them unless
+ * the list is sorted.
+ *
+ * Title, date, duration and progress cells are edited in place, as in a
+ * spreadsheet: a click selects a cell, typing replaces its value and F2
+ * edits it. Enter moves down a row and Tab across the columns. Typing on
+ * the empty row after the last task creates a task, and pasted lines or
+ * spreadsheet rows create one task each.
+ */
 export default function GanttTaskList({
-  organizedRows,
-  config,
+  rows,
+  renderedRows,
+  rowHeight,
+  headerHeight,
+  columns,
+  customFields,
+  statuses,
+  sort,
+  scrollRef,
+  onScroll,
+  onColumnsChange,
+  onSortChange,
+  onRowDragEnd,
+  wbsNumbers,
+  taskDurations,
+  assigneesByTaskId,
+  scheduleInfo,
+  overallocatedTasks,
+  baselineTasksById,
+  colorsByTaskId,
+  collapsedTaskIds,
+  groupSummaries,
   onTaskClick,
   onTaskDoubleClick,
+  onGroupClick,
+  onToggleTask,
+  onToggleGroup,
+  onCellEdit,
+  onCreateTask,
+  onPasteTasks,
+  onActiveTaskChange,
 }: GanttTaskListProps) {
+  const [resize, setResize] = useState<ColumnResize | null>(null);
+  const [activeCell, setActiveCell] = useState<ActiveCell | null>(null);
+  // Text of the open cell editor, null when no cell is being edited. The
+  // ref lets a save that blurs the editor see that it was already saved.
+  const [editText, setEditText] = useState<string | null>(null);
+  const editTextRef = useRef<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const draggedColumnIdRef = useRef<string | null>(null);
+  const cancelResizeRef = useRef<(() => void) | null>(null);
+
+  // Drop the document listeners if the list goes away mid-resize
+  useEffect(() => () => cancelResizeRef.current?.(), []);
+
+  const activeRowId = activeCell?.rowId;
+  useEffect(() => {
+    onActiveTaskChange?.(
+      activeRowId && activeRowId !== NEW_TASK_ROW_ID ? activeRowId : null
+    );
+  }, [activeRowId, onActiveTaskChange]);
+
+  const getWidth = (column: TaskListColumn) =>
+    resize?.columnId === column.id ? resize.width : column.width;
+  const totalWidth = columns.reduce(
+    (total, column) => total + getWidth(column),
+    0
+  );
+
+  // Ascending, then descending, then back to row order
+  const handleSortClick = (columnId: string) => {
+    if (sort?.columnId !== columnId) {
+      onSortChange({ columnId, direction: "asc" });
+    } else if (sort.direction === "asc") {
+      onSortChange({ columnId, direction: "desc" });
+    } else {
+      onSortChange(null);
+    }
+  };
+
+  // Columns grow to the left, the far side in RTL
+  const handleResizeStart = (e: React.MouseEvent, column: TaskListColumn) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    let width = column.width;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      width = Math.max(
+        MIN_COLUMN_WIDTH,
+        Math.round(column.width + startX - event.clientX)
+      );
+      setResize({ columnId: column.id, width });
+    };
+    const cleanup = () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      cancelResizeRef.current = null;
+    };
+    const handleMouseUp = () => {
+      cleanup();
+      setResize(null);
+      if (width !== column.width) {
+        onColumnsChange(
+          columns.map((c) => (c.id === column.id ? { ...c, width } : c))
+        );
+      }
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    cancelResizeRef.current = cleanup;
+  };
+
+  // A header dropped on another takes its place; the title stays first
+  const handleColumnDrop = (targetId: string) => {
+    const draggedId = draggedColumnIdRef.current;
+    draggedColumnIdRef.current = null;
+    if (!draggedId || draggedId === targetId) return;
+
+    const dragged = columns.find((column) => column.id === draggedId)!;
+    const reordered = columns.filter((column) => column.id !== draggedId);
+    const targetIndex = Math.max(
+      1,
+      reordered.findIndex((column) => column.id === targetId)
+    );
+    const movesRight =
+      columns.findIndex((column) => column.id === targetId) <
+      columns.findIndex((column) => column.id === draggedId);
+    reordered.splice(movesRight ? targetIndex : targetIndex + 1, 0, dragged);
+    onColumnsChange(reordered);
+  };
+
+  const taskRowsById = useMemo(
+    () =>
+      new Map(
+        rows.filter((row) => row.type === "task").map((row) => [row.id, row])
+      ),
+    [rows]
+  );
+  // Rows the active cell moves through, and the columns it moves across
+  const rowIds = [...taskRowsById.keys(), NEW_TASK_ROW_ID];
+  const editableColumnIds = columns
+    .map((column) => column.id)
+    .filter(isEditableColumn) as BuiltInColumnId[];
+
+  const isEditable = (cell: ActiveCell) => {
+    if (cell.rowId === NEW_TASK_ROW_ID) return cell.columnId === "title";
+    const row = taskRowsById.get(cell.rowId);
+    return (
+      !!row &&
+      isCellEditable(row.data as GanttTask, cell.columnId, !!row.hasChildren)
+    );
+  };
+
+  const setEditor = (text: string | null) => {
+    editTextRef.current = text;
+    setEditText(text);
+  };
+
+  // Rows out of view are not mounted, so the list scrolls to the active one
+  const scrollToRow = (rowId: string) => {
+    const scroller = scrollRef.current;
+    const index =
+      rowId === NEW_TASK_ROW_ID ? rows.length : taskRowsById.get(rowId)?.index;
+    if (!scroller || index === undefined) return;
+
+    const top = index * rowHeight;
+    if (top < scroller.scrollTop) {
+      scroller.scrollTop = top;
+    } else if (top + rowHeight > scroller.scrollTop + scroller.clientHeight) {
+      scroller.scrollTop = top + rowHeight - scroller.clientHeight;
+    }
+  };
+
+  const selectCell = (cell: ActiveCell | null) => {
+    setEditor(null);
+    setActiveCell(cell);
+    if (cell) scrollToRow(cell.rowId);
+    gridRef.current?.focus({ preventScroll: true });
+  };
+
+  // Tab past the last column goes on to the next row; the new task row only
+  // has a title
+  const moveActiveCell = (
+    cell: ActiveCell,
+    rowStep: number,
+    columnStep: number
+  ) => {
+    let rowIndex = Math.max(0, rowIds.indexOf(cell.rowId));
+    let columnIndex =
+      Math.max(0, editableColumnIds.indexOf(cell.columnId as BuiltInColumnId)) +
+      columnStep;
+    if (columnIndex >= editableColumnIds.length) {
+      columnIndex = 0;
+      rowIndex++;
+    } else if (columnIndex < 0) {
+      columnIndex = editableColumnIds.length - 1;
+      rowIndex--;
+    }
+    rowIndex = Math.min(rowIds.length - 1, Math.max(0, rowIndex + rowStep));
+
+    const rowId = rowIds[rowIndex];
+    selectCell({
+      rowId,
+      columnId:
+        rowId === NEW_TASK_ROW_ID ? "title" : editableColumnIds[columnIndex],
+    });
+  };
+
+  const saveCellValue = (cell: ActiveCell, text: string) => {
+    if (!isEditable(cell)) return;
+    if (cell.rowId === NEW_TASK_ROW_ID) {
+      if (text.trim()) onCreateTask(text);
+    } else {
+      onCellEdit(
+        taskRowsById.get(cell.rowId)!.data as GanttTask,
+        cell.columnId,
+        text
+      );
+    }
+  };
+
+  const startEditing = (cell: ActiveCell, text?: string) => {
+    if (!isEditable(cell)) return;
+    if (text === undefined) {
+      const row = taskRowsById.get(cell.rowId);
+      text = row
+        ? getCellEditText(
+            row.data as GanttTask,
+            cell.columnId,
+            taskDurations.get(row.id)?.workingDays ?? 0
+          )
+        : "";
+    }
+    setEditor(text);
+  };
+
+  const commitEdit = () => {
+    const text = editTextRef.current;
+    setEditor(null);
+    if (text !== null && activeCell) saveCellValue(activeCell, text);
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (!activeCell || editText !== null) return;
+    // Header buttons keep their own keys
+    if ((e.target as HTMLElement).closest("button")) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        moveActiveCell(activeCell, 1, 0);
+        break;
+      case "ArrowUp":
+        moveActiveCell(activeCell, -1, 0);
+        break;
+      // Columns run right to left
+      case "ArrowLeft":
+        moveActiveCell(activeCell, 0, 1);
+        break;
+      case "ArrowRight":
+        moveActiveCell(activeCell, 0, -1);
+        break;
+      case "Enter":
+        moveActiveCell(activeCell, e.shiftKey ? -1 : 1, 0);
+        break;
+      case "Tab":
+        moveActiveCell(activeCell, 0, e.shiftKey ? -1 : 1);
+        break;
+      case "F2":
+        startEditing(activeCell);
+        break;
+      case "Escape":
+        selectCell(null);
+        break;
+      default:
+        // Typing replaces the value, as in a spreadsheet
+        if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return;
+        startEditing(activeCell, e.key);
+    }
+    e.preventDefault();
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (!activeCell) return;
+
+    if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      commitEdit();
+      const step = e.shiftKey ? -1 : 1;
+      moveActiveCell(
+        activeCell,
+        e.key === "Enter" ? step : 0,
+        e.key === "Tab" ? step : 0
+      );
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      selectCell(activeCell);
+    }
+  };
+
+  // Several lines or tab-separated values create tasks in the active row's
+  // group; a single value goes into the active cell
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (!activeCell) return;
+    const text = e.clipboardData.getData("text/plain").replace(/\r?\n$/, "");
+
+    if (!/[\t\n]/.test(text)) {
+      if (editText !== null) return;
+      e.preventDefault();
+      saveCellValue(activeCell, text);
+      return;
+    }
+
+    e.preventDefault();
+    const row = taskRowsById.get(activeCell.rowId);
+    onPasteTasks(
+      text,
+      editableColumnIds,
+      row ? (row.data as GanttTask).groupId : undefined
+    );
+    selectCell({ rowId: NEW_TASK_ROW_ID, columnId: "title" });
+  };
+
+  const renderEditor = (isTitle: boolean) => (
+    <input
+      autoFocus
+      value={editText ?? ""}
+      onChange={(e) => setEditor(e.target.value)}
+      onKeyDown={handleEditorKeyDown}
+      onBlur={commitEdit}
+      // The caret starts after the typed or current value
+      onFocus={(e) =>
+        e.target.setSelectionRange(e.target.value.length, e.target.value.length)
+      }
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      dir={isTitle ? "rtl" : "ltr"}
+      className="w-full min-w-0 h-7 px-1 text-sm text-gray-900 bg-white border border-blue-400 rounded-sm outline-none"
+    />
+  );
+
+  const isActive = (rowId: string, columnId: string) =>
+    activeCell?.rowId === rowId && activeCell.columnId === columnId;
+
+  const renderCell = (task: GanttTask, column: TaskListColumn) => {
+    const field = getColumnField(column.id, customFields);
+    if (field) {
+      return formatCustomFieldValue(field, getCustomFieldValue(task, field));
+    }
+
+    switch (column.id as BuiltInColumnId) {
+      case "wbs":
+        return toPersianNumbers(wbsNumbers.get(task.id) || "");
+      case "start":
+        return formatJalaliDate(task.startDate, "jYY/jMM/jDD");
+      case "end":
+        return formatJalaliDate(task.endDate, "jYY/jMM/jDD");
+      case "duration":
+        return (
+          <span title="روز کاری / روز تقویمی">
+            {toPersianNumbers(
+              `${taskDurations.get(task.id)?.workingDays ?? 0}/${
+                taskDurations.get(task.id)?.calendarDays ?? 0
+              }`
+            )}
+          </span>
+        );
+      case "progress":
+        if (isMilestone(task)) return "—";
+        return (
+          <div className="flex items-center gap-1 w-full">
+            <div className="flex-1 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className="h-full bg-blue-500"
+                style={{ width: `${task.progress || 0}%` }}
+              />
+            </div>
+            <span>{toPersianNumbers(`${task.progress || 0}`)}%</span>
+          </div>
+        );
+      case "assignee":
+        return (
+          <ResourceAvatars assignees={assigneesByTaskId.get(task.id) || []} />
+        );
+      case "status": {
+        const status = getTaskStatus(task, statuses);
+        return (
+          <div className="flex items-center gap-1 min-w-0">
+            <div
+              className="w-2.5 h-2.5 flex-shrink-0 rounded-full"
+              style={{ backgroundColor: status.color }}
+            />
+            <span className="truncate">{status.label}</span>
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  const renderTitleCell = (task: GanttTask, row: GanttRow) => {
+    const isEditing = editText !== null && isActive(task.id, "title");
+    const isCollapsed = collapsedTaskIds.has(task.id);
+    const info = scheduleInfo.get(task.id);
+    const color = colorsByTaskId?.get(task.id) || task.color || "#3b82f6";
+
+    return (
+      <div
+        className="flex items-center gap-1 h-full min-w-0"
+        style={{ paddingRight: `${(row.depth || 0) * 16}px` }}
+      >
+        {row.hasChildren ? (
+          <button
+            type="button"
+            className="p-0.5 rounded text-gray-500 hover:bg-gray-200"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleTask(task.id);
+            }}
+            onDoubleClick={(e) => e.stopPropagation()}
+            title={isCollapsed ? "باز کردن" : "بستن"}
+          >
+            {isCollapsed ? (
+              <ChevronLeft className="w-4 h-4" />
+            ) : (
+              <ChevronDown className="w-4 h-4" />
+            )}
+          </button>
+        ) : (
+          (row.depth || 0) > 0 && <span className="w-5 flex-shrink-0" />
+        )}
+        {isMilestone(task) ? (
+          <div
+            className="w-3 h-3 flex-shrink-0 rotate-45 shadow-sm"
+            style={{ backgroundColor: color }}
+            title={`نقطه عطف، ${getTaskStatus(task, statuses).label}`}
+          />
+        ) : (
+          <div
+            className="w-3 h-3 flex-shrink-0 rounded-full border border-white shadow-sm"
+            style={{ backgroundColor: color }}
+            title={getTaskStatus(task, statuses).label}
+          />
+        )}
+        {isEditing ? (
+          <div className="flex-1 min-w-0 mr-1">{renderEditor(true)}</div>
+        ) : (
+          <div className="flex-1 min-w-0 mr-1">
+            <h4
+              className={`text-sm text-gray-900 truncate text-right hover:text-blue-600 transition-colors ${
+                row.hasChildren ? "font-bold" : "font-medium"
+              }`}
+            >
+              {task.title}
+            </h4>
+            {(info || baselineTasksById.has(task.id)) && (
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                {info && (
+                  <span
+                    className={
+                      info.isCritical ? "text-red-600 font-semibold" : undefined
+                    }
+                    title="شناوری کل"
+                  >
+                    {toPersianNumbers(info.totalFloat.toString())} روز کاری
+                  </span>
+                )}
+                {baselineTasksById.has(task.id) && (
+                  <BaselineVarianceLabel
+                    task={task}
+                    baselineTask={baselineTasksById.get(task.id)!}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        {overallocatedTasks.has(task.id) && (
+          <span
+            title={`تخصیص بیش از ظرفیت: ${overallocatedTasks
+              .get(task.id)!
+              .map((resource) => resource.name)
+              .join("، ")}`}
+          >
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  // One row of the list. Rows are placed absolutely so that only those in
+  // view are mounted; the clone that follows the pointer while a row is
+  // dragged gets its fixed position from the drag style instead.
+  const renderRow = (
+    row: GanttRow,
+    provided: DraggableProvided,
+    snapshot: DraggableStateSnapshot
+  ) => {
+    const style: React.CSSProperties = {
+      position: "absolute",
+      top: `${row.index * rowHeight}px`,
+      left: 0,
+      width: "100%",
+      ...provided.draggableProps.style,
+      height: `${rowHeight}px`,
+    };
+
+    if (row.type === "group") {
+      const group = row.data as TaskGroup;
+      return (
+        <div
+          ref={provided.innerRef}
+          {...provided.draggableProps}
+          {...provided.dragHandleProps}
+          className={`border-b border-gray-300 cursor-pointer hover:bg-gray-200 transition-colors ${
+            snapshot.combineTargetFor
+              ? "bg-blue-100 ring-2 ring-inset ring-blue-400"
+              : "bg-gray-100"
+          }`}
+          style={style}
+          onClick={() => onGroupClick?.(group)}
+        >
+          <div
+            className="flex items-center justify-between h-full px-4"
+            style={{ direction: "rtl" }}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                className="p-0.5 rounded text-gray-500 hover:bg-gray-300"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleGroup(group);
+                }}
+                title={group.isExpanded === false ? "باز کردن" : "بستن"}
+              >
+                {group.isExpanded === false ? (
+                  <ChevronLeft className="w-4 h-4" />
+                ) : (
+                  <ChevronDown className="w-4 h-4" />
+                )}
+              </button>
+              <div
+                className="w-4 h-4 rounded-full"
+                style={{
+                  backgroundColor: group.color || "#6b7280",
+                }}
+              />
+              <span className="font-semibold text-gray-800">{group.title}</span>
+            </div>
+
+            {groupSummaries.get(group.id) && (
+              <Badge variant="outline" className="text-xs">
+                {toPersianNumbers(
+                  groupSummaries.get(group.id)!.progress.toString()
+                )}
+                %
+              </Badge>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    const task = row.data as GanttTask;
+    return (
+      <div
+        ref={provided.innerRef}
+        {...provided.draggableProps}
+        {...provided.dragHandleProps}
+        className={`hover:bg-gray-50 transition-colors cursor-pointer ${
+          snapshot.isDragging ? "bg-white shadow-lg" : ""
+        }`}
+        style={style}
+        onClick={() => onTaskClick?.(task)}
+        onDoubleClick={() => onTaskDoubleClick?.(task)}
+      >
+        <div className="flex h-full" style={{ direction: "rtl" }}>
+          {columns.map((column) => (
+            <div
+              key={column.id}
+              className={`flex-shrink-0 flex items-center h-full min-w-0 text-xs text-gray-700 ${
+                column.id === "title" ? "px-3" : "px-2 justify-center"
+              } ${
+                isActive(task.id, column.id)
+                  ? "ring-2 ring-inset ring-blue-500"
+                  : ""
+              }`}
+              style={{ width: `${getWidth(column)}px` }}
+              onClick={() => {
+                if (isEditableColumn(column.id)) {
+                  selectCell({ rowId: task.id, columnId: column.id });
+                }
+              }}
+            >
+              {column.id === "title" ? (
+                renderTitleCell(task, row)
+              ) : editText !== null && isActive(task.id, column.id) ? (
+                renderEditor(false)
+              ) : (
+                <span className="truncate">{renderCell(task, column)}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div
-      className="flex-shrink-0 bg-white border-l border-gray-200 flex flex-col"
-      style={{ width: "300px" }}
+      ref={gridRef}
+      tabIndex={-1}
+      className="flex flex-col flex-shrink-0 h-full outline-none"
+      style={{ width: `${totalWidth}px` }}
+      onKeyDown={handleGridKeyDown}
+      onPaste={handlePaste}
     >
-      <div className="flex-shrink-0 bg-gray-50 border-b border-gray-200 p-4">
-        <h3
-          className="font-semibold text-gray-900 text-right"
-          style={{ direction: "rtl" }}
-        >
-          فهرست وظایف
-        </h3>
+      <div
+        className="flex-shrink-0 flex bg-gray-50 border-b border-gray-200"
+        style={{ height: `${headerHeight}px`, direction: "rtl" }}
+      >
+        {columns.map((column) => (
+          <div
+            key={column.id}
+            draggable={column.id !== "title"}
+            onDragStart={(e) => {
+              draggedColumnIdRef.current = column.id;
+              e.dataTransfer.effectAllowed = "move";
+            }}
+            onDragOver={(e) => {
+              if (draggedColumnIdRef.current) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleColumnDrop(column.id);
+            }}
+            onDragEnd={() => (draggedColumnIdRef.current = null)}
+            className="relative flex-shrink-0 flex items-center h-full px-2 border-l border-gray-200 select-none"
+            style={{ width: `${getWidth(column)}px` }}
+          >
+            <button
+              type="button"
+              className={`flex-1 min-w-0 flex items-center gap-1 text-xs font-semibold text-gray-700 hover:text-blue-600 ${
+                column.id === "title" ? "justify-start" : "justify-center"
+              }`}
+              onClick={() => handleSortClick(column.id)}
+              title="مرتب‌سازی"
+            >
+              <span className="truncate">
+                {getColumnLabel(column.id, customFields)}
+              </span>
+              {sort?.columnId === column.id &&
+                (sort.direction === "asc" ? (
+                  <ArrowUp className="w-3 h-3 flex-shrink-0" />
+                ) : (
+                  <ArrowDown className="w-3 h-3 flex-shrink-0" />
+                ))}
+            </button>
+            <div
+              className={`absolute left-0 top-0 h-full w-1.5 -ml-0.5 cursor-col-resize hover:bg-blue-300 ${
+                resize?.columnId === column.id ? "bg-blue-400" : ""
+              }`}
+              onMouseDown={(e) => handleResizeStart(e, column)}
+              title="تغییر عرض ستون"
+            />
+          </div>
+        ))}
       </div>
-
-      <div className="divide-y divide-gray-100 flex-1">
-        {organizedRows.map((row) => {
-          if (row.type === "group") {
-            const group = row.data as TaskGroup;
-            return (
-              <div
-                key={`group-${group.id}`}
-                className="bg-gray-100 border-b border-gray-300"
-                style={{ height: `${config.rowHeight}px` }}
-              >
-                <div
-                  className="flex items-center h-full px-4"
-                  style={{ direction: "rtl" }}
-                >
-                  <div className="flex items-center gap-2">
-                    <div
-                      className="w-4 h-4 rounded-full"
-                      style={{ backgroundColor: group.color || "#6b7280" }}
-                    />
-                    <span className="font-semibold text-gray-800">
-                      {group.title}
-                    </span>
-                  </div>
-                </div>
-              </div>
-            );
-          } else {
-            const task = row.data as GanttTask;
-            return (
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-y-auto overflow-x-hidden"
+        onScroll={onScroll}
+      >
+        <DragDropContext onDragEnd={onRowDragEnd}>
+          <Droppable
+            droppableId="task-list"
+            mode="virtual"
+            isCombineEnabled
+            renderClone={(provided, snapshot, rubric) =>
+              renderRow(rows[rubric.source.index], provided, snapshot)
+            }
+          >
+            {(droppableProvided) => (
               <div
-                key={`task-${task.id}`}
-                className="p-4 hover:bg-gray-50 transition-colors cursor-pointer"
-                style={{ height: `${config.rowHeight}px` }}
-                onClick={() => onTaskClick?.(task)}
-                onDoubleClick={() => onTaskDoubleClick?.(task)}
+                ref={droppableProvided.innerRef}
+                {...droppableProvided.droppableProps}
+                className="relative divide-y divide-gray-100"
+                style={{
+                  height: `${rows.length * rowHeight}px`,
+                }}
               >
-                <div
-                  className="flex items-center justify-between h-full"
-                  style={{ direction: "rtl" }}
-                >
-                  <div className="flex-1 min-w-0">
-                    <h4 className="text-sm font-medium text-gray-900 truncate text-right hover:text-blue-600 transition-colors">
-                      {task.title}
-                    </h4>
-                    <div className="mt-1 flex items-center gap-2 text-xs text-gray-500 justify-end">
-                      <span>{formatJalaliDate(task.startDate, "jMM/jDD")}</span>
-                      <span>تا</span>
-                      <span>{formatJalaliDate(task.endDate, "jMM/jDD")}</span>
-                    </div>
-                  </div>
-
-                  <div className="flex items-center gap-2 mr-3">
-                    {task.progress !== undefined && (
-                      <Badge variant="outline" className="text-xs">
-                        {toPersianNumbers(task.progress.toString())}%
-                      </Badge>
-                    )}
-
-                    <div
-                      className="w-3 h-3 rounded-full border border-white shadow-sm"
-                      style={{ backgroundColor: task.color || "#3b82f6" }}
-                    />
-                  </div>
-                </div>
+                {renderedRows.map((row) => (
+                  <Draggable
+                    key={getRowKey(row)}
+                    draggableId={getRowKey(row)}
+                    index={row.index}
+                    isDragDisabled={!!sort}
+                  >
+                    {(provided, snapshot) => renderRow(row, provided, snapshot)}
+                  </Draggable>
+                ))}
               </div>
-            );
-          }
-        })}
+            )}
+          </Droppable>
+        </DragDropContext>
+        <div className="flex" style={{ height: `${rowHeight}px` }}>
+          <div
+            className={`flex items-center px-3 text-sm cursor-text ${
+              isActive(NEW_TASK_ROW_ID, "title")
+                ? "ring-2 ring-inset ring-blue-500"
+                : ""
+            }`}
+            style={{ width: `${getWidth(columns[0])}px`, direction: "rtl" }}
+            onClick={() =>
+              selectCell({ rowId: NEW_TASK_ROW_ID, columnId: "title" })
+            }
+            title="برای افزودن تسک تایپ کنید؛ چند سطر یا ردیف‌های اکسل را هم می‌توان چسباند"
+          >
+            {editText !== null && isActive(NEW_TASK_ROW_ID, "title") ? (
+              renderEditor(true)
+            ) : (
+              <span className="flex items-center gap-1 text-gray-400">
+                <Plus className="w-4 h-4" />
+                تسک جدید
+              </span>
+            )}
+          </div>
+        </div>
       </div>
     </div>
   );
 }
+
+// Start and finish variance from the baseline, in days; late is red
+const BaselineVarianceLabel = ({
+  task,
+  baselineTask,
+}: {
+  task: GanttTask;
+  baselineTask: BaselineTask;
+}) => {
+  const { startDays, finishDays } = getBaselineVariance(task, baselineTask);
+  return (
+    <span
+      className={
+        finishDays > 0
+          ? "text-red-600"
+          : finishDays < 0
+          ? "text-green-600"
+          : "text-gray-500"
+      }
+      title={`انحراف از خط مبنا: شروع ${toPersianNumbers(
+        formatVariance(startDays)
+      )} روز، پایان ${toPersianNumbers(formatVariance(finishDays))} روز`}
+    >
+      Δ
+      {toPersianNumbers(
+        `${formatVariance(startDays)}/${formatVariance(finishDays)}`
+      )}
+    </span>
+  );
+};
@@ -4,55 +4,107 @@ import { GanttConfig } from "@/lib/types";
 import {
   generateTimelineDates,
   formatJalaliDateShort,
-  formatJalaliWeek,
+  formatTimelineColumn,
   getDayName,
   getCompleteDateInfo,
+  getTimelineBands,
 } from "@/lib/gantt-utils";
+import {
+  DEFAULT_WORK_CALENDAR,
+  getNonWorkingReason,
+} from "@/lib/work-calendar";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { VirtualRange } from "@/hooks/use-virtual-grid";
+
+// Height of the upper month/year band in pixels
+export const TIMELINE_BAND_HEIGHT = 24;
 
 interface GanttTimelineProps {
   config: GanttConfig;
+  visibleColumns?: VirtualRange; // Cells outside it are left out
 }
 
-export default function GanttTimeline({ config }: GanttTimelineProps) {
+export default function GanttTimeline({
+  config,
+  visibleColumns,
+}: GanttTimelineProps) {
   const timelineDates = generateTimelineDates(
     config.startDate,
     config.endDate,
     config.view
   );
+  const bands = getTimelineBands(timelineDates, config.view);
+  const firstColumn = visibleColumns?.start ?? 0;
+  const lastColumn = visibleColumns?.end ?? timelineDates.length;
 
   return (
     <div className="sticky top-0 z-10 bg-white border-b border-gray-200 shadow-sm">
+      {/* Upper band: month (or year) spanning the cells below it */}
+      {bands.length > 0 && (
+        <div className="flex" style={{ direction: "rtl" }}>
+          {bands.map((band, index) => (
+            <div
+              key={index}
+              className="flex-shrink-0 border-l border-b border-gray-200 bg-gray-100 px-2 text-xs font-semibold text-gray-800 truncate text-right leading-[23px]"
+              style={{
+                width: `${band.span * config.cellWidth}px`,
+                height: `${TIMELINE_BAND_HEIGHT}px`,
+              }}
+              title={band.label}
+            >
+              {band.label}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="flex" style={{ direction: "rtl" }}>
+        {/* Holds the place of the cells scrolled out on the right */}
+        <div
+          className="flex-shrink-0"
+          style={{ width: `${firstColumn * config.cellWidth}px` }}
+        />
         <TooltipProvider>
-          {timelineDates.map((date, index) => {
+          {timelineDates.slice(firstColumn, lastColumn).map((date, index) => {
             const dateInfo = getCompleteDateInfo(date);
+            // Day columns of weekends and holidays are shaded
+            const nonWorkingReason =
+              config.view === "daily"
+                ? getNonWorkingReason(
+                    date,
+                    config.calendar || DEFAULT_WORK_CALENDAR
+                  )
+                : null;
             return (
-              <Tooltip key={index}>
+              <Tooltip key={firstColumn + index}>
                 <TooltipTrigger asChild>
                   <div
-                    className="flex-shrink-0 border-l border-gray-200 bg-gray-50 hover:bg-gray-100 transition-colors cursor-pointer"
+                    className={`flex-shrink-0 overflow-hidden border-l border-gray-200 transition-colors cursor-pointer ${
+                      nonWorkingReason
+                        ? "bg-gray-200 hover:bg-gray-300"
+                        : "bg-gray-50 hover:bg-gray-100"
+                    }`}
                     style={{ width: `${config.cellWidth}px` }}
                   >
                     <div className="p-2 text-center">
                       {config.view === "daily" ? (
                         <div className="text-xs">
-                          <div className="font-semibold text-gray-900 mb-1">
+                          <div className="font-semibold text-gray-900 mb-1 truncate">
                             {formatJalaliDateShort(date)}
                           </div>
-                          <div className="text-gray-600">
+                          <div className="text-gray-600 truncate">
                             {getDayName(date)}
                           </div>
                         </div>
                       ) : (
                         <div className="text-xs">
-                          <div className="font-semibold text-gray-900">
-                            {formatJalaliWeek(date)}
+                          <div className="font-semibold text-gray-900 truncate">
+                            {formatTimelineColumn(date, config.view)}
                           </div>
                         </div>
                       )}
@@ -68,6 +120,11 @@ export default function GanttTimeline({ config }: GanttTimelineProps) {
                     <div className="font-semibold text-sm mb-2">
                       {dateInfo.jalaliLong}
                     </div>
+                    {nonWorkingReason && (
+                      <div className="text-xs text-red-600">
+                        {nonWorkingReason}
+                      </div>
+                    )}
 
                     <div className="space-y-1 text-xs">
                       <div className="flex justify-between items-center">
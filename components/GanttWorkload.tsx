@@ -0,0 +1,131 @@
+"use client";
+
+import React from "react";
+import { GanttConfig, Resource } from "@/lib/types";
+import { WorkloadCell, getInitials } from "@/lib/resources";
+import { toPersianNumbers } from "@/lib/gantt-utils";
+import { VirtualRange } from "@/hooks/use-virtual-grid";
+
+// Height of one resource row in pixels
+const WORKLOAD_ROW_HEIGHT = 36;
+
+interface GanttWorkloadProps {
+  config: GanttConfig;
+  chartWidth: number;
+  resources: Resource[];
+  cells: Map<string, WorkloadCell[]>;
+  visibleColumns: VirtualRange;
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  listWidth?: number; // Width of the task list the names column sits under
+}
+
+const formatHours = (hours: number) =>
+  toPersianNumbers((Math.round(hours * 10) / 10).toString());
+
+/**
+ * Workload of each resource per timeline column, drawn under the chart. A
+ * cell's bar is the assigned hours against the hours available on the
+ * column's working days; cells with an overloaded day are red. The cells
+ * area is scrolled along with the chart body through `scrollRef`.
+ */
+const GanttWorkload = React.memo(function GanttWorkload({
+  config,
+  chartWidth,
+  resources,
+  cells,
+  visibleColumns,
+  scrollRef,
+  listWidth = 300,
+}: GanttWorkloadProps) {
+  const height = resources.length * WORKLOAD_ROW_HEIGHT;
+
+  return (
+    <div className="flex border border-t-0 border-gray-200 max-h-[240px] overflow-y-auto overflow-x-hidden">
+      {/* Resource names, under the task list */}
+      <div
+        className="flex-shrink-0 bg-gray-50 border-l border-gray-200"
+        style={{ width: `${listWidth}px`, height: `${height}px` }}
+      >
+        {resources.map((resource) => (
+          <div
+            key={resource.id}
+            className="flex items-center gap-2 px-4 border-b border-gray-100"
+            style={{ height: `${WORKLOAD_ROW_HEIGHT}px`, direction: "rtl" }}
+          >
+            <div
+              className="w-5 h-5 flex-shrink-0 rounded-full flex items-center justify-center text-[9px] font-semibold text-white"
+              style={{ backgroundColor: resource.color }}
+            >
+              {getInitials(resource.name)}
+            </div>
+            <span className="flex-1 min-w-0 truncate text-sm text-gray-800">
+              {resource.name}
+            </span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {formatHours(resource.capacity)} ساعت
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Load per timeline column */}
+      <div ref={scrollRef} className="flex-1 overflow-hidden">
+        <div
+          className="relative bg-white"
+          style={{ width: `${chartWidth}px`, height: `${height}px` }}
+        >
+          {resources.map((resource, row) =>
+            (cells.get(resource.id) || [])
+              .slice(visibleColumns.start, visibleColumns.end)
+              .map((cell, index) => {
+                const column = visibleColumns.start + index;
+                if (cell.hours === 0) return null;
+                // Work on a resource without capacity fills the whole cell
+                const ratio =
+                  cell.capacity > 0 ? cell.hours / cell.capacity : Infinity;
+                return (
+                  <div
+                    key={`${resource.id}-${column}`}
+                    className={`absolute border-b border-l border-gray-100 ${
+                      cell.isOverallocated ? "bg-red-50" : ""
+                    }`}
+                    style={{
+                      right: `${column * config.cellWidth}px`,
+                      top: `${row * WORKLOAD_ROW_HEIGHT}px`,
+                      width: `${config.cellWidth}px`,
+                      height: `${WORKLOAD_ROW_HEIGHT}px`,
+                    }}
+                    title={`${resource.name}: ${formatHours(
+                      cell.hours
+                    )} از ${formatHours(cell.capacity)} ساعت${
+                      cell.isOverallocated ? " (بیش از ظرفیت)" : ""
+                    }`}
+                  >
+                    <div
+                      className={`absolute inset-x-1 bottom-0 rounded-t-sm ${
+                        cell.isOverallocated ? "bg-red-500" : "bg-blue-400"
+                      }`}
+                      style={{ height: `${Math.min(ratio, 1) * 100}%` }}
+                    />
+                    <span
+                      className={`relative flex h-full items-center justify-center text-[10px] font-medium ${
+                        cell.isOverallocated ? "text-red-900" : "text-gray-700"
+                      }`}
+                    >
+                      {cell.capacity > 0
+                        ? `${toPersianNumbers(
+                            Math.round(ratio * 100).toString()
+                          )}%`
+                        : formatHours(cell.hours)}
+                    </span>
+                  </div>
+                );
+              })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default GanttWorkload;
@@ -0,0 +1,54 @@
+"use client";
+
+import React from "react";
+import { Resource } from "@/lib/types";
+import { getInitials } from "@/lib/resources";
+import { toPersianNumbers } from "@/lib/gantt-utils";
+
+interface ResourceAvatarsProps {
+  assignees: { resource: Resource; allocation: number }[];
+  max?: number;
+  className?: string;
+}
+
+// Overlapping initials circles for a task's assignees; assignees beyond
+// `max` are collapsed into a "+n" circle
+const ResourceAvatars = React.memo(function ResourceAvatars({
+  assignees,
+  max = 3,
+  className = "",
+}: ResourceAvatarsProps) {
+  if (assignees.length === 0) return null;
+
+  const shown = assignees.slice(0, max);
+  const hiddenCount = assignees.length - shown.length;
+
+  return (
+    <div
+      className={`flex items-center -space-x-1 space-x-reverse ${className}`}
+      title={assignees
+        .map(
+          ({ resource, allocation }) =>
+            `${resource.name} (${toPersianNumbers(allocation.toString())}%)`
+        )
+        .join("، ")}
+    >
+      {shown.map(({ resource }) => (
+        <div
+          key={resource.id}
+          className="w-5 h-5 rounded-full border border-white flex items-center justify-center text-[9px] font-semibold text-white"
+          style={{ backgroundColor: resource.color }}
+        >
+          {getInitials(resource.name)}
+        </div>
+      ))}
+      {hiddenCount > 0 && (
+        <div className="w-5 h-5 rounded-full border border-white bg-gray-400 flex items-center justify-center text-[9px] font-semibold text-white">
+          +{toPersianNumbers(hiddenCount.toString())}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ResourceAvatars;
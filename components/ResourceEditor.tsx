@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { Resource } from "@/lib/types";
+import { generateRandomColor } from "@/lib/indexeddb";
+import { DEFAULT_CAPACITY, getInitials } from "@/lib/resources";
+import { ColorPicker } from "@/components/ColorPicker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+
+interface ResourceEditorProps {
+  projectId: string;
+  resources: Resource[];
+}
+
+export function ResourceEditor({ projectId, resources }: ResourceEditorProps) {
+  const { createResource, updateResource, deleteResource } = useAppStore();
+  const [newName, setNewName] = useState("");
+  const [newRole, setNewRole] = useState("");
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+
+    try {
+      await createResource(projectId, {
+        name: newName.trim(),
+        role: newRole.trim() || undefined,
+        color: generateRandomColor(),
+        capacity: DEFAULT_CAPACITY,
+      });
+      setNewName("");
+      setNewRole("");
+    } catch (error) {
+      console.error("Failed to create resource:", error);
+    }
+  };
+
+  const saveResource = async (id: string, updates: Partial<Resource>) => {
+    try {
+      await updateResource(id, updates);
+    } catch (error) {
+      console.error("Failed to update resource:", error);
+    }
+  };
+
+  // Number fields are saved on blur; empty or invalid values are ignored
+  const handleNumberChange = (
+    resource: Resource,
+    field: "capacity" | "costRate",
+    value: string
+  ) => {
+    if (field === "costRate" && value.trim() === "") {
+      saveResource(resource.id, { costRate: undefined });
+      return;
+    }
+    const number = parseFloat(value);
+    if (isNaN(number) || number < 0) return;
+    saveResource(resource.id, { [field]: number });
+  };
+
+  const handleDelete = async (resource: Resource) => {
+    if (!confirm(`آیا از حذف «${resource.name}» اطمینان دارید؟`)) return;
+
+    try {
+      await deleteResource(resource.id);
+    } catch (error) {
+      console.error("Failed to delete resource:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {resources.length === 0 && (
+        <p className="text-sm text-gray-500">منبعی تعریف نشده است</p>
+      )}
+
+      <div className="max-h-96 overflow-y-auto space-y-2">
+        {resources.map((resource) => (
+          <div key={resource.id} className="rounded-md border p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <div
+                className="w-8 h-8 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-semibold text-white"
+                style={{ backgroundColor: resource.color }}
+              >
+                {getInitials(resource.name)}
+              </div>
+              <Input
+                defaultValue={resource.name}
+                onBlur={(e) =>
+                  e.target.value.trim() &&
+                  e.target.value.trim() !== resource.name &&
+                  saveResource(resource.id, { name: e.target.value.trim() })
+                }
+                placeholder="نام"
+                className="flex-1"
+              />
+              <Input
+                defaultValue={resource.role || ""}
+                onBlur={(e) =>
+                  e.target.value.trim() !== (resource.role || "") &&
+                  saveResource(resource.id, {
+                    role: e.target.value.trim() || undefined,
+                  })
+                }
+                placeholder="نقش"
+                className="flex-1"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(resource)}
+                title="حذف منبع"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-gray-600 whitespace-nowrap">
+                ظرفیت (ساعت در روز)
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                defaultValue={resource.capacity}
+                onBlur={(e) =>
+                  handleNumberChange(resource, "capacity", e.target.value)
+                }
+                className="w-20"
+              />
+              <Label className="text-xs text-gray-600 whitespace-nowrap">
+                نرخ هزینه (ساعتی)
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                defaultValue={resource.costRate ?? ""}
+                onBlur={(e) =>
+                  handleNumberChange(resource, "costRate", e.target.value)
+                }
+                className="w-24"
+              />
+              <ColorPicker
+                selectedColor={resource.color}
+                onColorChange={(color) => saveResource(resource.id, { color })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="نام منبع"
+          className="flex-1"
+        />
+        <Input
+          value={newRole}
+          onChange={(e) => setNewRole(e.target.value)}
+          placeholder="نقش (اختیاری)"
+          className="flex-1"
+        />
+        <Button
+          variant="outline"
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          افزودن
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { GanttTask, Resource, TaskDependency, WorkCalendar } from "@/lib/types";
+import { planResourceLeveling } from "@/lib/leveling";
+import { TASK_PRIORITY_LABELS, DEFAULT_TASK_PRIORITY } from "@/lib/priority";
+import { formatJalaliDate, toPersianNumbers } from "@/lib/gantt-utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+interface ResourceLevelingPreviewProps {
+  tasks: GanttTask[];
+  dependencies: TaskDependency[];
+  resources: Resource[];
+  calendar?: WorkCalendar;
+  onApplied?: () => void;
+}
+
+/**
+ * The tasks that leveling would move and by how much, with a button that
+ * applies the plan through the store as one undo step
+ */
+export function ResourceLevelingPreview({
+  tasks,
+  dependencies,
+  resources,
+  calendar,
+  onApplied,
+}: ResourceLevelingPreviewProps) {
+  const { levelResources } = useAppStore();
+  const [isApplying, setIsApplying] = useState(false);
+
+  const { moves } = useMemo(
+    () => planResourceLeveling(tasks, dependencies, resources, calendar),
+    [tasks, dependencies, resources, calendar]
+  );
+  const tasksById = useMemo(
+    () => new Map(tasks.map((task) => [task.id, task])),
+    [tasks]
+  );
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await levelResources();
+      onApplied?.();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        تسک‌های کم‌اهمیت‌تر تا جایی عقب می‌روند که هیچ منبعی بیش از ظرفیت
+        روزانه‌اش کار نداشته باشد. روزهای تعطیل تقویم کاری رعایت می‌شوند و
+        تسک‌های با زمان‌بندی دستی جابجا نمی‌شوند.
+      </p>
+
+      {moves.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          هیچ منبعی بیش از ظرفیت تخصیص نیافته است
+        </p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="p-2 text-right font-medium">تسک</th>
+                <th className="p-2 text-right font-medium">اولویت</th>
+                <th className="p-2 text-right font-medium">از</th>
+                <th className="p-2 text-right font-medium">به</th>
+                <th className="p-2 text-right font-medium">تأخیر</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {moves.map((move) => {
+                const task = tasksById.get(move.taskId)!;
+                return (
+                  <tr key={move.taskId}>
+                    <td className="p-2 max-w-[12rem] truncate">{task.title}</td>
+                    <td className="p-2">
+                      <Badge variant="outline" className="text-xs">
+                        {
+                          TASK_PRIORITY_LABELS[
+                            task.priority || DEFAULT_TASK_PRIORITY
+                          ]
+                        }
+                      </Badge>
+                    </td>
+                    <td className="p-2 whitespace-nowrap text-gray-500">
+                      {formatJalaliDate(move.fromStart, "jMM/jDD")} تا{" "}
+                      {formatJalaliDate(move.fromEnd, "jMM/jDD")}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {formatJalaliDate(move.toStart, "jMM/jDD")} تا{" "}
+                      {formatJalaliDate(move.toEnd, "jMM/jDD")}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {move.delayDays > 0
+                        ? `${toPersianNumbers(move.delayDays.toString())} روز`
+                        : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleApply}
+          disabled={moves.length === 0 || isApplying}
+        >
+          اعمال تسطیح
+        </Button>
+      </div>
+    </div>
+  );
+}
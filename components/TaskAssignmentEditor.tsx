@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { GanttTask, Resource, ResourceAssignment } from "@/lib/types";
+import { DEFAULT_ALLOCATION, getInitials } from "@/lib/resources";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+interface TaskAssignmentEditorProps {
+  taskId: string;
+  tasks: GanttTask[];
+  resources: Resource[];
+}
+
+export function TaskAssignmentEditor({
+  taskId,
+  tasks,
+  resources,
+}: TaskAssignmentEditorProps) {
+  const { updateTask } = useAppStore();
+  const [newResourceId, setNewResourceId] = useState<string>("");
+
+  // Read the task from the store's list, so the editor shows saved changes
+  const task = tasks.find((t) => t.id === taskId);
+  const assignments = task?.assignments || [];
+  const candidateResources = resources.filter(
+    (resource) => !assignments.some((a) => a.resourceId === resource.id)
+  );
+
+  const saveAssignments = async (next: ResourceAssignment[]) => {
+    try {
+      await updateTask(taskId, { assignments: next });
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newResourceId) return;
+
+    await saveAssignments([
+      ...assignments,
+      { resourceId: newResourceId, allocation: DEFAULT_ALLOCATION },
+    ]);
+    setNewResourceId("");
+  };
+
+  const handleAllocationChange = (resourceId: string, value: string) => {
+    const allocation = parseInt(value, 10);
+    if (isNaN(allocation) || allocation <= 0) return;
+
+    saveAssignments(
+      assignments.map((assignment) =>
+        assignment.resourceId === resourceId
+          ? { ...assignment, allocation }
+          : assignment
+      )
+    );
+  };
+
+  if (!task) return null;
+
+  return (
+    <div className="space-y-2">
+      {resources.length === 0 && (
+        <p className="text-sm text-gray-500">
+          ابتدا منابع پروژه را از بخش «منابع» تعریف کنید
+        </p>
+      )}
+      {resources.length > 0 && assignments.length === 0 && (
+        <p className="text-sm text-gray-500">مسئولی تعیین نشده است</p>
+      )}
+
+      {assignments.map((assignment) => {
+        const resource = resources.find((r) => r.id === assignment.resourceId);
+        if (!resource) return null;
+        return (
+          <div
+            key={assignment.resourceId}
+            className="flex items-center gap-2 rounded-md border p-2"
+          >
+            <div
+              className="w-6 h-6 flex-shrink-0 rounded-full flex items-center justify-center text-[10px] font-semibold text-white"
+              style={{ backgroundColor: resource.color }}
+            >
+              {getInitials(resource.name)}
+            </div>
+            <span className="flex-1 min-w-0 truncate text-sm">
+              {resource.name}
+            </span>
+            <Input
+              type="number"
+              min={1}
+              defaultValue={assignment.allocation}
+              onBlur={(e) =>
+                handleAllocationChange(assignment.resourceId, e.target.value)
+              }
+              className="w-20"
+              title="درصد تخصیص از ظرفیت روزانه"
+            />
+            <span className="text-sm text-gray-500">%</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                saveAssignments(
+                  assignments.filter(
+                    (a) => a.resourceId !== assignment.resourceId
+                  )
+                )
+              }
+              title="حذف مسئول"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      {resources.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={newResourceId} onValueChange={setNewResourceId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="انتخاب مسئول" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidateResources.map((resource) => (
+                <SelectItem key={resource.id} value={resource.id}>
+                  {resource.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!newResourceId}
+            className="gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            افزودن
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { GanttTask, TaskDependency, DependencyType } from "@/lib/types";
+import { DEPENDENCY_TYPES, DEPENDENCY_TYPE_LABELS } from "@/lib/dependencies";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+interface TaskDependencyEditorProps {
+  task: GanttTask;
+  tasks: GanttTask[];
+  dependencies: TaskDependency[];
+}
+
+export function TaskDependencyEditor({
+  task,
+  tasks,
+  dependencies,
+}: TaskDependencyEditorProps) {
+  const { createDependency, updateDependency, deleteDependency } =
+    useAppStore();
+  const [newPredecessorId, setNewPredecessorId] = useState<string>("");
+
+  const predecessorLinks = dependencies.filter(
+    (dependency) => dependency.successorId === task.id
+  );
+  const candidateTasks = tasks.filter(
+    (t) =>
+      t.id !== task.id &&
+      !predecessorLinks.some((d) => d.predecessorId === t.id)
+  );
+
+  const handleAdd = async () => {
+    if (!newPredecessorId) return;
+
+    try {
+      await createDependency(task.projectId, newPredecessorId, task.id);
+      setNewPredecessorId("");
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleLagChange = async (dependency: TaskDependency, value: string) => {
+    const lag = parseInt(value, 10);
+    if (isNaN(lag)) return;
+
+    try {
+      await updateDependency(dependency.id, { lag });
+    } catch (error) {
+      console.error("Failed to update dependency:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {predecessorLinks.length === 0 && (
+        <p className="text-sm text-gray-500">پیش‌نیازی تعریف نشده است</p>
+      )}
+
+      {predecessorLinks.map((dependency) => {
+        const predecessor = tasks.find(
+          (t) => t.id === dependency.predecessorId
+        );
+        return (
+          <div
+            key={dependency.id}
+            className="flex items-center gap-2 rounded-md border p-2"
+          >
+            <span className="flex-1 min-w-0 truncate text-sm">
+              {predecessor?.title}
+            </span>
+            <Select
+              value={dependency.type}
+              onValueChange={(value) =>
+                updateDependency(dependency.id, {
+                  type: value as DependencyType,
+                })
+              }
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPENDENCY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {DEPENDENCY_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              defaultValue={dependency.lag}
+              onBlur={(e) => handleLagChange(dependency, e.target.value)}
+              className="w-16"
+              title="تأخیر (روز کاری)، مقدار منفی یعنی پیش‌افت"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteDependency(dependency.id)}
+              title="حذف وابستگی"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <Select value={newPredecessorId} onValueChange={setNewPredecessorId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="انتخاب پیش‌نیاز" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidateTasks.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={handleAdd}
+          disabled={!newPredecessorId}
+          className="gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          افزودن
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  GanttTask,
+} from "@/lib/types";
+import { parseList } from "@/lib/custom-fields";
+import { DateTimePicker } from "@/components/DateTimePicker";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+import jMoment from "jalali-moment";
+
+// Select value for a custom field that is not filled in
+const EMPTY_OPTION = "__empty__";
+
+interface TaskDetailsPanelProps {
+  taskId: string;
+  tasks: GanttTask[];
+  customFields: CustomFieldDefinition[];
+  isSummary?: boolean; // Summary progress comes from the subtasks
+}
+
+/**
+ * Progress, description, tags and custom fields of a task. Each field is
+ * saved as soon as it is changed or left.
+ */
+export function TaskDetailsPanel({
+  taskId,
+  tasks,
+  customFields,
+  isSummary = false,
+}: TaskDetailsPanelProps) {
+  const { updateTask } = useAppStore();
+  const [newTags, setNewTags] = useState("");
+
+  // Read the task from the store's list, so the panel shows saved changes
+  const task = tasks.find((t) => t.id === taskId);
+
+  const saveTask = async (updates: Partial<GanttTask>) => {
+    try {
+      await updateTask(taskId, updates);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  if (!task) return null;
+
+  const tags = task.tags || [];
+  const isMilestone = task.type === "milestone";
+
+  const handleProgressChange = (value: string) => {
+    const progress = parseInt(value, 10);
+    if (isNaN(progress) || progress === task.progress) return;
+    saveTask({ progress: Math.min(100, Math.max(0, progress)) });
+  };
+
+  const handleDescriptionChange = (value: string) => {
+    const description = value.trim() ? value : undefined;
+    if (description === task.description) return;
+    saveTask({ description });
+  };
+
+  const handleAddTags = () => {
+    const added = parseList(newTags).filter((tag) => !tags.includes(tag));
+    setNewTags("");
+    if (added.length > 0) {
+      saveTask({ tags: [...tags, ...added] });
+    }
+  };
+
+  const saveCustomField = (
+    field: CustomFieldDefinition,
+    value: CustomFieldValue | undefined
+  ) => {
+    const customFields = { ...task.customFields };
+    if (value === undefined || value === "") {
+      delete customFields[field.id];
+    } else {
+      customFields[field.id] = value;
+    }
+    saveTask({ customFields });
+  };
+
+  const renderCustomFieldInput = (field: CustomFieldDefinition) => {
+    const value = task.customFields?.[field.id];
+
+    switch (field.type) {
+      case "number":
+        return (
+          <Input
+            key={`${field.id}-${value ?? ""}`}
+            type="number"
+            defaultValue={value ?? ""}
+            onBlur={(e) => {
+              const number = parseFloat(e.target.value);
+              if ((isNaN(number) ? undefined : number) === value) return;
+              saveCustomField(field, isNaN(number) ? undefined : number);
+            }}
+            className="w-full"
+          />
+        );
+      case "date":
+        return (
+          <DateTimePicker
+            value={
+              value
+                ? jMoment(value.toString(), "jYYYY/jMM/jDD").format(
+                    "YYYY-MM-DD"
+                  )
+                : ""
+            }
+            onChange={(date) =>
+              saveCustomField(
+                field,
+                jMoment(date, "YYYY-MM-DD").format("jYYYY/jMM/jDD")
+              )
+            }
+            placeholder="انتخاب تاریخ"
+            className="w-full"
+          />
+        );
+      case "select":
+        return (
+          <Select
+            value={value?.toString() || EMPTY_OPTION}
+            onValueChange={(option) =>
+              saveCustomField(
+                field,
+                option === EMPTY_OPTION ? undefined : option
+              )
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={EMPTY_OPTION}>—</SelectItem>
+              {(field.options || []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            key={`${field.id}-${value ?? ""}`}
+            defaultValue={value ?? ""}
+            onBlur={(e) => {
+              const text = e.target.value.trim();
+              if (text === (value ?? "")) return;
+              saveCustomField(field, text);
+            }}
+            className="w-full"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!isMilestone && (
+        <div>
+          <Label className="block text-sm font-medium mb-2">پیشرفت</Label>
+          <div className="flex items-center gap-3">
+            <Progress value={task.progress || 0} className="flex-1" />
+            <Input
+              key={task.progress}
+              type="number"
+              min={0}
+              max={100}
+              defaultValue={task.progress ?? 0}
+              onBlur={(e) => handleProgressChange(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              disabled={isSummary}
+              className="w-20"
+            />
+            <span className="text-sm text-gray-500">%</span>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label className="block text-sm font-medium mb-2">توضیحات</Label>
+        <Textarea
+          key={task.description}
+          defaultValue={task.description || ""}
+          onBlur={(e) => handleDescriptionChange(e.target.value)}
+          placeholder="شرح کار، یادداشت‌ها و پیوندها (Markdown)"
+          className="min-h-24"
+        />
+      </div>
+
+      <div>
+        <Label className="block text-sm font-medium mb-2">برچسب‌ها</Label>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  onClick={() =>
+                    saveTask({ tags: tags.filter((t) => t !== tag) })
+                  }
+                  title="حذف برچسب"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <Input
+          value={newTags}
+          onChange={(e) => setNewTags(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAddTags();
+            }
+          }}
+          onBlur={handleAddTags}
+          placeholder="برچسب جدید (چند برچسب را با ویرگول جدا کنید)"
+          className="w-full"
+        />
+      </div>
+
+      {customFields.map((field) => (
+        <div key={field.id}>
+          <Label className="block text-sm font-medium mb-2">{field.name}</Label>
+          {renderCustomFieldInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+}
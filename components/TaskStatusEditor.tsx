@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { Project, TaskStatusCategory, TaskStatusDefinition } from "@/lib/types";
+import { generateId } from "@/lib/indexeddb";
+import {
+  DEFAULT_TASK_STATUSES,
+  TASK_STATUS_CATEGORIES,
+  TASK_STATUS_CATEGORY_LABELS,
+} from "@/lib/status";
+import { ColorPicker } from "@/components/ColorPicker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Edit3, Plus, RotateCcw, Trash2 } from "lucide-react";
+
+interface TaskStatusEditorProps {
+  project: Project;
+}
+
+export function TaskStatusEditor({ project }: TaskStatusEditorProps) {
+  const { updateProject } = useAppStore();
+  const [newLabel, setNewLabel] = useState("");
+  const [newCategory, setNewCategory] =
+    useState<TaskStatusCategory>("in-progress");
+
+  const isCustom = !!project.statuses?.length;
+  const statuses = project.statuses?.length
+    ? project.statuses
+    : DEFAULT_TASK_STATUSES;
+
+  const saveStatuses = async (statuses: TaskStatusDefinition[] | undefined) => {
+    try {
+      await updateProject(project.id, { statuses });
+    } catch (error) {
+      console.error("Failed to update task statuses:", error);
+    }
+  };
+
+  const saveStatus = (id: string, updates: Partial<TaskStatusDefinition>) => {
+    saveStatuses(
+      statuses.map((status) =>
+        status.id === id ? { ...status, ...updates } : status
+      )
+    );
+  };
+
+  const handleRename = (status: TaskStatusDefinition, value: string) => {
+    const label = value.trim();
+    if (!label || label === status.label) return;
+    saveStatus(status.id, { label });
+  };
+
+  const handleDelete = (status: TaskStatusDefinition) => {
+    if (!confirm(`آیا از حذف وضعیت «${status.label}» اطمینان دارید؟`)) return;
+    saveStatuses(statuses.filter((s) => s.id !== status.id));
+  };
+
+  const handleAdd = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+
+    saveStatuses([
+      ...statuses,
+      {
+        id: generateId(),
+        label,
+        color: DEFAULT_TASK_STATUSES.find((s) => s.category === newCategory)!
+          .color,
+        category: newCategory,
+      },
+    ]);
+    setNewLabel("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        هر وضعیت مانند یکی از وضعیت‌های پایه رفتار می‌کند. تسکی که به وضعیتی از
+        نوع «انجام شده» برود پیشرفت ۱۰۰٪ می‌گیرد و تاریخ پایان واقعی آن ثبت
+        می‌شود. تسک‌های بدون وضعیت، یا با وضعیت حذف‌شده، در وضعیت اول فهرست
+        هستند.
+      </p>
+
+      <div className="max-h-80 overflow-y-auto space-y-2">
+        {statuses.map((status) => (
+          <div
+            key={status.id}
+            className="flex items-center gap-2 rounded-md border p-2"
+          >
+            <Input
+              key={status.label}
+              defaultValue={status.label}
+              onBlur={(e) => handleRename(status, e.target.value)}
+              className="flex-1"
+              disabled={!isCustom}
+            />
+            <Select
+              value={status.category}
+              onValueChange={(value) =>
+                saveStatus(status.id, {
+                  category: value as TaskStatusCategory,
+                })
+              }
+              disabled={!isCustom}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TASK_STATUS_CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {TASK_STATUS_CATEGORY_LABELS[category]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isCustom ? (
+              <>
+                <ColorPicker
+                  selectedColor={status.color}
+                  onColorChange={(color) => saveStatus(status.id, { color })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(status)}
+                  disabled={statuses.length === 1}
+                  title="حذف وضعیت"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </>
+            ) : (
+              <div
+                className="w-4 h-4 rounded-full flex-shrink-0"
+                style={{ backgroundColor: status.color }}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isCustom ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="نام وضعیت"
+              className="flex-1"
+            />
+            <Select
+              value={newCategory}
+              onValueChange={(value) =>
+                setNewCategory(value as TaskStatusCategory)
+              }
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TASK_STATUS_CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {TASK_STATUS_CATEGORY_LABELS[category]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleAdd}
+              disabled={!newLabel.trim()}
+              className="gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              افزودن
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            onClick={() => saveStatuses(undefined)}
+            className="gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            بازگشت به فهرست پیش‌فرض
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          onClick={() => saveStatuses(DEFAULT_TASK_STATUSES)}
+          className="gap-2"
+        >
+          <Edit3 className="w-4 h-4" />
+          فهرست سفارشی
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { Project, WorkCalendar } from "@/lib/types";
+import {
+  DEFAULT_WORK_CALENDAR,
+  getOfficialHolidays,
+} from "@/lib/work-calendar";
+import { PERSIAN_WEEKDAYS } from "@/lib/persian-calendar";
+import { formatJalaliDate, toPersianNumbers } from "@/lib/gantt-utils";
+import { DateTimePicker } from "@/components/DateTimePicker";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import jMoment from "jalali-moment";
+
+interface WorkCalendarEditorProps {
+  project: Project;
+}
+
+export function WorkCalendarEditor({ project }: WorkCalendarEditorProps) {
+  const { updateProject } = useAppStore();
+  const [newHolidayDate, setNewHolidayDate] = useState("");
+
+  const calendar = project.calendar || DEFAULT_WORK_CALENDAR;
+  const currentYear = jMoment().jYear();
+  const officialHolidays = getOfficialHolidays(currentYear);
+
+  const saveCalendar = async (updates: Partial<WorkCalendar>) => {
+    try {
+      await updateProject(project.id, {
+        calendar: { ...calendar, ...updates },
+      });
+    } catch (error) {
+      console.error("Failed to update work calendar:", error);
+    }
+  };
+
+  // PERSIAN_WEEKDAYS starts on Saturday, moment's day() on Sunday
+  const toggleWeekendDay = (weekdayIndex: number) => {
+    const day = (weekdayIndex + 6) % 7;
+    const weekendDays = calendar.weekendDays.includes(day)
+      ? calendar.weekendDays.filter((d) => d !== day)
+      : [...calendar.weekendDays, day].sort();
+    saveCalendar({ weekendDays });
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHolidayDate) return;
+
+    const date = jMoment(newHolidayDate, "YYYY-MM-DD").format("jYYYY/jMM/jDD");
+    if (!calendar.customHolidays.includes(date)) {
+      saveCalendar({
+        customHolidays: [...calendar.customHolidays, date].sort(),
+      });
+    }
+    setNewHolidayDate("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Label className="block text-sm font-medium mb-2">
+          روزهای تعطیل هفته
+        </Label>
+        <div className="grid grid-cols-4 gap-2">
+          {PERSIAN_WEEKDAYS.map((name, index) => (
+            <div key={name} className="flex items-center gap-2">
+              <input
+                id={`weekend-${index}`}
+                type="checkbox"
+                checked={calendar.weekendDays.includes((index + 6) % 7)}
+                onChange={() => toggleWeekendDay(index)}
+                className="w-4 h-4"
+              />
+              <Label htmlFor={`weekend-${index}`} className="text-sm">
+                {name}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <input
+            id="official-holidays"
+            type="checkbox"
+            checked={calendar.useOfficialHolidays}
+            onChange={(e) =>
+              saveCalendar({ useOfficialHolidays: e.target.checked })
+            }
+            className="w-4 h-4"
+          />
+          <Label htmlFor="official-holidays" className="text-sm font-medium">
+            تعطیلات رسمی ایران
+          </Label>
+        </div>
+        {calendar.useOfficialHolidays && (
+          <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+            {officialHolidays.map((holiday) => (
+              <div
+                key={holiday.date}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span className="truncate">{holiday.title}</span>
+                <span className="text-gray-500 flex-shrink-0">
+                  {toPersianNumbers(holiday.date)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="block text-sm font-medium">تعطیلات شرکت</Label>
+        {calendar.customHolidays.length === 0 && (
+          <p className="text-sm text-gray-500">روز تعطیلی ثبت نشده است</p>
+        )}
+        {calendar.customHolidays.map((date) => (
+          <div
+            key={date}
+            className="flex items-center gap-2 rounded-md border p-2"
+          >
+            <span className="flex-1 text-sm">
+              {formatJalaliDate(jMoment(date, "jYYYY/jMM/jDD").toDate())}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                saveCalendar({
+                  customHolidays: calendar.customHolidays.filter(
+                    (d) => d !== date
+                  ),
+                })
+              }
+              title="حذف روز تعطیل"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <div className="flex-1">
+            <DateTimePicker
+              value={newHolidayDate}
+              onChange={setNewHolidayDate}
+              placeholder="انتخاب تاریخ"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleAddHoliday}
+            disabled={!newHolidayDate}
+            className="gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            افزودن
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
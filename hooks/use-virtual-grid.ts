@@ -0,0 +1,104 @@
+import { RefObject, useCallback, useLayoutEffect, useState } from "react";
+
+// Items rendered beyond each edge of the viewport, so fast scrolling does
+// not show blank space before the next render
+const DEFAULT_OVERSCAN = 8;
+
+export interface VirtualRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+interface VirtualGridOptions {
+  rowCount: number;
+  rowHeight: number;
+  columnCount: number;
+  columnWidth: number;
+  overscan?: number;
+}
+
+/**
+ * The items of a list of same-size items that are inside a viewport, plus
+ * `overscan` items on each side
+ */
+export const getVirtualRange = (
+  offset: number,
+  viewportSize: number,
+  itemSize: number,
+  itemCount: number,
+  overscan: number = DEFAULT_OVERSCAN
+): VirtualRange => {
+  if (itemCount === 0 || itemSize <= 0) return { start: 0, end: 0 };
+
+  const first = Math.floor(offset / itemSize);
+  const last = Math.ceil((offset + viewportSize) / itemSize);
+  return {
+    start: Math.max(0, Math.min(first, itemCount) - overscan),
+    end: Math.min(itemCount, last + overscan),
+  };
+};
+
+const isSameRange = (a: VirtualRange, b: VirtualRange) =>
+  a.start === b.start && a.end === b.end;
+
+/**
+ * Rows and columns of a scroll container that need to be rendered. Columns
+ * are counted from the inline start edge, which is the right edge in RTL.
+ * Call `update` from the container's scroll handler.
+ */
+export function useVirtualGrid(
+  ref: RefObject<HTMLElement | null>,
+  {
+    rowCount,
+    rowHeight,
+    columnCount,
+    columnWidth,
+    overscan = DEFAULT_OVERSCAN,
+  }: VirtualGridOptions
+) {
+  const [ranges, setRanges] = useState(() => ({
+    rows: getVirtualRange(0, 0, rowHeight, rowCount, overscan),
+    columns: getVirtualRange(0, 0, columnWidth, columnCount, overscan),
+  }));
+
+  const update = useCallback(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    // scrollLeft runs from 0 to negative values in RTL containers
+    const rows = getVirtualRange(
+      element.scrollTop,
+      element.clientHeight,
+      rowHeight,
+      rowCount,
+      overscan
+    );
+    const columns = getVirtualRange(
+      Math.abs(element.scrollLeft),
+      element.clientWidth,
+      columnWidth,
+      columnCount,
+      overscan
+    );
+
+    setRanges((current) =>
+      isSameRange(current.rows, rows) && isSameRange(current.columns, columns)
+        ? current
+        : { rows, columns }
+    );
+  }, [ref, rowCount, rowHeight, columnCount, columnWidth, overscan]);
+
+  // Measure before paint, and again whenever the container is resized
+  useLayoutEffect(() => {
+    update();
+
+    const element = ref.current;
+    if (!element || typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, update]);
+
+  return { ...ranges, update };
+}
@@ -0,0 +1,93 @@
+import { RefObject, useEffect, useRef } from "react";
+
+// Zoom factor per pixel of wheel movement
+const WHEEL_ZOOM_SPEED = 0.002;
+// Pixels a wheel line counts as, for mice that scroll by lines
+const WHEEL_LINE_HEIGHT = 16;
+
+// Safari's trackpad pinch event, which is not in the DOM typings
+interface GestureEvent extends UIEvent {
+  scale: number;
+  clientX: number;
+}
+
+/**
+ * Calls `onZoom` with a factor to scale by and the clientX to center on,
+ * for Ctrl+wheel and pinch gestures over the element. Trackpad pinches
+ * arrive as Ctrl+wheel in most browsers, as gesture events in Safari and as
+ * two-finger touches on touch screens. The browser's own page zoom is
+ * prevented for these gestures.
+ */
+export function useZoomGestures(
+  ref: RefObject<HTMLElement | null>,
+  onZoom: (factor: number, clientX: number) => void
+) {
+  // The listeners are added once and call the latest callback
+  const onZoomRef = useRef(onZoom);
+  onZoomRef.current = onZoom;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      const delta =
+        event.deltaMode === WheelEvent.DOM_DELTA_LINE
+          ? event.deltaY * WHEEL_LINE_HEIGHT
+          : event.deltaY;
+      onZoomRef.current(Math.exp(-delta * WHEEL_ZOOM_SPEED), event.clientX);
+    };
+
+    let lastScale = 1;
+    const handleGestureStart = (event: Event) => {
+      event.preventDefault();
+      lastScale = 1;
+    };
+    const handleGestureChange = (event: Event) => {
+      event.preventDefault();
+      const { scale, clientX } = event as GestureEvent;
+      onZoomRef.current(scale / lastScale, clientX);
+      lastScale = scale;
+    };
+
+    let lastDistance: number | null = null;
+    const getDistance = (touches: TouchList) =>
+      Math.abs(touches[0].clientX - touches[1].clientX);
+    const handleTouchStart = (event: TouchEvent) => {
+      lastDistance =
+        event.touches.length === 2 ? getDistance(event.touches) : null;
+    };
+    const handleTouchMove = (event: TouchEvent) => {
+      if (lastDistance === null || event.touches.length !== 2) return;
+      event.preventDefault();
+      const distance = getDistance(event.touches);
+      if (lastDistance > 0 && distance > 0) {
+        onZoomRef.current(
+          distance / lastDistance,
+          (event.touches[0].clientX + event.touches[1].clientX) / 2
+        );
+      }
+      lastDistance = distance;
+    };
+    const handleTouchEnd = () => {
+      lastDistance = null;
+    };
+
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    element.addEventListener("gesturestart", handleGestureStart);
+    element.addEventListener("gesturechange", handleGestureChange);
+    element.addEventListener("touchstart", handleTouchStart, { passive: true });
+    element.addEventListener("touchmove", handleTouchMove, { passive: false });
+    element.addEventListener("touchend", handleTouchEnd);
+    return () => {
+      element.removeEventListener("wheel", handleWheel);
+      element.removeEventListener("gesturestart", handleGestureStart);
+      element.removeEventListener("gesturechange", handleGestureChange);
+      element.removeEventListener("touchstart", handleTouchStart);
+      element.removeEventListener("touchmove", handleTouchMove);
+      element.removeEventListener("touchend", handleTouchEnd);
+    };
+  }, [ref]);
+}
@@ -0,0 +1,43 @@
+import jMoment from "jalali-moment";
+import { Baseline, BaselineTask, GanttTask } from "./types";
+
+// How far a task's current dates are from its baseline dates, in calendar
+// days; positive values are later than planned
+export interface BaselineVariance {
+  startDays: number;
+  finishDays: number;
+}
+
+const diffDays = (from: Date, to: Date) =>
+  jMoment(to).startOf("day").diff(jMoment(from).startOf("day"), "days");
+
+/**
+ * A baseline's task snapshots by task id
+ */
+export const getBaselineTasksById = (
+  baseline: Baseline | null | undefined
+): Map<string, BaselineTask> => {
+  return new Map(
+    (baseline?.tasks || []).map((baselineTask) => [
+      baselineTask.taskId,
+      baselineTask,
+    ])
+  );
+};
+
+export const getBaselineVariance = (
+  task: GanttTask,
+  baselineTask: BaselineTask
+): BaselineVariance => {
+  return {
+    startDays: diffDays(baselineTask.startDate, task.startDate),
+    finishDays: diffDays(baselineTask.endDate, task.endDate),
+  };
+};
+
+/**
+ * A variance in days with its sign, e.g. "+3" or "-2"
+ */
+export const formatVariance = (days: number): string => {
+  return days > 0 ? `+${days}` : `${days}`;
+};
@@ -0,0 +1,60 @@
+import {
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValue,
+  GanttTask,
+} from "./types";
+import { toPersianNumbers } from "./gantt-utils";
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  "text",
+  "number",
+  "date",
+  "select",
+];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "متن",
+  number: "عدد",
+  date: "تاریخ",
+  select: "انتخابی",
+};
+
+/**
+ * A task's value of a custom field, undefined when it is not filled in
+ */
+export const getCustomFieldValue = (
+  task: GanttTask,
+  field: CustomFieldDefinition
+): CustomFieldValue | undefined => {
+  const value = task.customFields?.[field.id];
+  return value === "" ? undefined : value;
+};
+
+/**
+ * A custom field value as shown in the task list and exports
+ */
+export const formatCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined
+): string => {
+  if (value === undefined) return "";
+  return field.type === "number" || field.type === "date"
+    ? toPersianNumbers(value.toString())
+    : value.toString();
+};
+
+/**
+ * The items of a comma separated list (tags, select options), trimmed and
+ * without duplicates
+ */
+export const parseList = (value: string): string[] => {
+  return Array.from(
+    new Set(
+      value
+        .split(/[,،]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+  );
+};
@@ -0,0 +1,95 @@
+import { DependencyType, TaskDependency } from "./types";
+
+export const DEPENDENCY_TYPES: DependencyType[] = ["FS", "SS", "FF", "SF"];
+
+export const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  FS: "پایان به شروع",
+  SS: "شروع به شروع",
+  FF: "پایان به پایان",
+  SF: "شروع به پایان",
+};
+
+export type DependencyEdge = "start" | "finish";
+
+/**
+ * Build the dependency type from the dragged edge of the predecessor and
+ * the edge of the successor it was dropped on
+ */
+export const getDependencyType = (
+  fromEdge: DependencyEdge,
+  toEdge: DependencyEdge
+): DependencyType => {
+  const from = fromEdge === "finish" ? "F" : "S";
+  const to = toEdge === "finish" ? "F" : "S";
+  return `${from}${to}` as DependencyType;
+};
+
+/**
+ * Get which edges of the predecessor and successor a dependency connects
+ */
+export const getDependencyEdges = (
+  type: DependencyType
+): { from: DependencyEdge; to: DependencyEdge } => {
+  return {
+    from: type[0] === "F" ? "finish" : "start",
+    to: type[1] === "F" ? "finish" : "start",
+  };
+};
+
+/**
+ * Check whether linking predecessorId -> successorId would close a loop
+ */
+export const wouldCreateCycle = (
+  dependencies: TaskDependency[],
+  predecessorId: string,
+  successorId: string
+): boolean => {
+  if (predecessorId === successorId) return true;
+
+  // Walk forward from the successor; reaching the predecessor means a cycle
+  const visited = new Set<string>();
+  const stack = [successorId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === predecessorId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    dependencies
+      .filter((dependency) => dependency.predecessorId === current)
+      .forEach((dependency) => stack.push(dependency.successorId));
+  }
+
+  return false;
+};
+
+/**
+ * Validate a new dependency, returning a user-facing error message or null
+ */
+export const validateDependency = (
+  dependencies: TaskDependency[],
+  predecessorId: string,
+  successorId: string
+): string | null => {
+  if (predecessorId === successorId) {
+    return "یک تسک نمی‌تواند به خودش وابسته باشد";
+  }
+
+  const exists = dependencies.some(
+    (dependency) =>
+      (dependency.predecessorId === predecessorId &&
+        dependency.successorId === successorId) ||
+      (dependency.predecessorId === successorId &&
+        dependency.successorId === predecessorId)
+  );
+  if (exists) {
+    return "بین این دو تسک قبلاً وابستگی تعریف شده است";
+  }
+
+  if (wouldCreateCycle(dependencies, predecessorId, successorId)) {
+    return "این وابستگی باعث ایجاد حلقه می‌شود";
+  }
+
+  return null;
+};
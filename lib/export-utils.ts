@@ -1,23 +1,62 @@
 import jMoment from "jalali-moment";
-import { Project, GanttTask, TaskGroup } from "./types";
+import {
+  Project,
+  GanttTask,
+  TaskGroup,
+  TaskDependency,
+  Resource,
+  Baseline,
+  TaskStatusDefinition,
+  CustomFieldDefinition,
+} from "./types";
+import { DEPENDENCY_TYPE_LABELS } from "./dependencies";
+import { DEFAULT_TASK_PRIORITY, TASK_PRIORITY_LABELS } from "./priority";
+import { flattenTaskTree, sortByOrder } from "./task-hierarchy";
+import { formatVariance, getBaselineVariance } from "./baselines";
+import { getProjectStatuses, getTaskStatus } from "./status";
+import { getCustomFieldValue } from "./custom-fields";
 
 // Configure jalali-moment
 jMoment.locale("fa");
 
 export interface SerializedTask
-  extends Omit<GanttTask, "startDate" | "endDate"> {
+  extends Omit<GanttTask, "startDate" | "endDate" | "actualEndDate"> {
   startDate: string;
   endDate: string;
+  actualEndDate?: string;
 }
 
 export interface SerializedGroup extends Omit<TaskGroup, "createdAt"> {
   createdAt: string;
 }
 
+export interface SerializedDependency
+  extends Omit<TaskDependency, "createdAt"> {
+  createdAt: string;
+}
+
+export interface SerializedResource extends Omit<Resource, "createdAt"> {
+  createdAt: string;
+}
+
+export interface SerializedBaseline
+  extends Omit<Baseline, "tasks" | "createdAt"> {
+  tasks: {
+    taskId: string;
+    startDate: string;
+    endDate: string;
+    progress?: number;
+  }[];
+  createdAt: string;
+}
+
 export interface ProjectExportData {
   project: Project;
   tasks: SerializedTask[];
   groups: SerializedGroup[];
+  dependencies?: SerializedDependency[];
+  resources?: SerializedResource[];
+  baselines?: SerializedBaseline[];
   exportDate: string;
   version: string;
 }
@@ -28,7 +67,10 @@ export interface ProjectExportData {
 export const exportProjectAsJSON = (
   project: Project,
   tasks: GanttTask[],
-  groups: TaskGroup[]
+  groups: TaskGroup[],
+  dependencies: TaskDependency[] = [],
+  resources: Resource[] = [],
+  baselines: Baseline[] = []
 ): string => {
   const exportData: ProjectExportData = {
     project,
@@ -36,13 +78,31 @@ export const exportProjectAsJSON = (
       ...task,
       startDate: task.startDate.toISOString(),
       endDate: task.endDate.toISOString(),
+      actualEndDate: task.actualEndDate?.toISOString(),
     })),
     groups: groups.map((group) => ({
       ...group,
       createdAt: group.createdAt.toISOString(),
     })),
+    dependencies: dependencies.map((dependency) => ({
+      ...dependency,
+      createdAt: dependency.createdAt.toISOString(),
+    })),
+    resources: resources.map((resource) => ({
+      ...resource,
+      createdAt: resource.createdAt.toISOString(),
+    })),
+    baselines: baselines.map((baseline) => ({
+      ...baseline,
+      tasks: baseline.tasks.map((task) => ({
+        ...task,
+        startDate: task.startDate.toISOString(),
+        endDate: task.endDate.toISOString(),
+      })),
+      createdAt: baseline.createdAt.toISOString(),
+    })),
     exportDate: new Date().toISOString(),
-    version: "1.0.0",
+    version: "1.5.0",
   };
 
   return JSON.stringify(exportData, null, 2);
@@ -63,13 +123,78 @@ export const downloadJSON = (jsonData: string, filename: string) => {
   URL.revokeObjectURL(url);
 };
 
+/**
+ * Markdown list of tasks with siblings sorted by start date, subtasks nested
+ * under their parents, with their status, assignees, tags, custom fields and
+ * description
+ */
+const formatTaskTreeAsMarkdown = (
+  tasks: GanttTask[],
+  resourcesById: Map<string, Resource>,
+  statuses: TaskStatusDefinition[],
+  customFields: CustomFieldDefinition[]
+): string => {
+  return flattenTaskTree(
+    tasks,
+    undefined,
+    (a, b) => a.startDate.getTime() - b.startDate.getTime()
+  )
+    .map(({ task, depth }) => {
+      const startDate = jMoment(task.startDate).format("jYYYY/jMM/jDD");
+      const endDate = jMoment(task.endDate).format("jYYYY/jMM/jDD");
+      const assignees = (task.assignments || [])
+        .filter((assignment) => resourcesById.has(assignment.resourceId))
+        .map(
+          (assignment) =>
+            `${resourcesById.get(assignment.resourceId)!.name} ${
+              assignment.allocation
+            }%`
+        );
+      // Only priorities other than the default are worth a mention
+      const priority =
+        task.priority && task.priority !== DEFAULT_TASK_PRIORITY
+          ? ` [اولویت ${TASK_PRIORITY_LABELS[task.priority]}]`
+          : "";
+      const status = getTaskStatus(task, statuses);
+      const actualEnd = task.actualEndDate
+        ? `، پایان واقعی ${jMoment(task.actualEndDate).format("jYYYY/jMM/jDD")}`
+        : "";
+      const tags = (task.tags || []).map((tag) => ` #${tag}`).join("");
+      const indent = "  ".repeat(depth + 1);
+      const fields = customFields
+        .filter((field) => getCustomFieldValue(task, field) !== undefined)
+        .map(
+          (field) =>
+            `${indent}- ${field.name}: ${getCustomFieldValue(task, field)}\n`
+        )
+        .join("");
+      // The description is Markdown already; quoted so it stays in the item
+      const description = task.description
+        ? task.description
+            .trim()
+            .split("\n")
+            .map((line) => `${indent}> ${line}\n`)
+            .join("")
+        : "";
+      return `${"  ".repeat(depth)}- **${
+        task.title
+      }** (${startDate} - ${endDate}) [${status.label}${actualEnd}]${priority}${
+        assignees.length > 0 ? ` — ${assignees.join("، ")}` : ""
+      }${tags}\n${fields}${description}`;
+    })
+    .join("");
+};
+
 /**
  * Export project data as Markdown
  */
 export const exportProjectAsMarkdown = (
   project: Project,
   tasks: GanttTask[],
-  groups: TaskGroup[]
+  groups: TaskGroup[],
+  dependencies: TaskDependency[] = [],
+  resources: Resource[] = [],
+  baselines: Baseline[] = []
 ): string => {
   let markdown = `# ${project.name}\n\n`;
 
@@ -84,8 +209,18 @@ export const exportProjectAsMarkdown = (
     "jYYYY/jMM/jDD"
   )}\n\n`;
 
+  const resourcesById = new Map(
+    resources.map((resource) => [resource.id, resource])
+  );
+  const statuses = getProjectStatuses(project);
+  const customFields = project.customFields || [];
+
+  // Milestones get their own section; everything else is listed by group
+  const milestones = tasks.filter((task) => task.type === "milestone");
+  const regularTasks = tasks.filter((task) => task.type !== "milestone");
+
   // Group tasks by groupId
-  const tasksByGroup = tasks.reduce((acc, task) => {
+  const tasksByGroup = regularTasks.reduce((acc, task) => {
     const groupId = task.groupId || "ungrouped";
     if (!acc[groupId]) {
       acc[groupId] = [];
@@ -95,17 +230,16 @@ export const exportProjectAsMarkdown = (
   }, {} as Record<string, GanttTask[]>);
 
   // Add grouped tasks
-  groups.forEach((group) => {
+  sortByOrder(groups).forEach((group) => {
     const groupTasks = tasksByGroup[group.id] || [];
     if (groupTasks.length > 0) {
       markdown += `## ${group.title}\n\n`;
-      groupTasks
-        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
-        .forEach((task) => {
-          const startDate = jMoment(task.startDate).format("jYYYY/jMM/jDD");
-          const endDate = jMoment(task.endDate).format("jYYYY/jMM/jDD");
-          markdown += `- **${task.title}** (${startDate} - ${endDate})\n`;
-        });
+      markdown += formatTaskTreeAsMarkdown(
+        groupTasks,
+        resourcesById,
+        statuses,
+        customFields
+      );
       markdown += "\n";
     }
   });
@@ -114,16 +248,89 @@ export const exportProjectAsMarkdown = (
   const ungroupedTasks = tasksByGroup["ungrouped"] || [];
   if (ungroupedTasks.length > 0) {
     markdown += `## سایر تسک‌ها\n\n`;
-    ungroupedTasks
+    markdown += formatTaskTreeAsMarkdown(
+      ungroupedTasks,
+      resourcesById,
+      statuses,
+      customFields
+    );
+    markdown += "\n";
+  }
+
+  // Add milestones
+  if (milestones.length > 0) {
+    markdown += `## نقاط عطف\n\n`;
+    milestones
       .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
-      .forEach((task) => {
-        const startDate = jMoment(task.startDate).format("jYYYY/jMM/jDD");
-        const endDate = jMoment(task.endDate).format("jYYYY/jMM/jDD");
-        markdown += `- **${task.title}** (${startDate} - ${endDate})\n`;
+      .forEach((milestone) => {
+        const date = jMoment(milestone.startDate).format("jYYYY/jMM/jDD");
+        markdown += `- ◆ **${milestone.title}** (${date})\n`;
       });
     markdown += "\n";
   }
 
+  // Add dependencies
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const listedDependencies = dependencies.filter(
+    (dependency) =>
+      tasksById.has(dependency.predecessorId) &&
+      tasksById.has(dependency.successorId)
+  );
+  if (listedDependencies.length > 0) {
+    markdown += `## وابستگی‌ها\n\n`;
+    listedDependencies.forEach((dependency) => {
+      const predecessor = tasksById.get(dependency.predecessorId)!;
+      const successor = tasksById.get(dependency.successorId)!;
+      const lag =
+        dependency.lag !== 0
+          ? ` (${dependency.lag > 0 ? "+" : ""}${dependency.lag} روز کاری)`
+          : "";
+      markdown += `- **${predecessor.title}** ← **${successor.title}**: ${
+        DEPENDENCY_TYPE_LABELS[dependency.type]
+      }${lag}\n`;
+    });
+    markdown += "\n";
+  }
+
+  // Add resources
+  if (resources.length > 0) {
+    markdown += `## منابع\n\n`;
+    resources.forEach((resource) => {
+      const details = [
+        resource.role,
+        `${resource.capacity} ساعت در روز`,
+        resource.costRate !== undefined
+          ? `نرخ ${resource.costRate} در ساعت`
+          : undefined,
+      ].filter(Boolean);
+      markdown += `- **${resource.name}** (${details.join("، ")})\n`;
+    });
+    markdown += "\n";
+  }
+
+  // Add baselines, with each task's variance from them
+  if (baselines.length > 0) {
+    markdown += `## خطوط مبنا\n\n`;
+    baselines.forEach((baseline) => {
+      markdown += `### ${baseline.name} (${jMoment(baseline.createdAt).format(
+        "jYYYY/jMM/jDD"
+      )})\n\n`;
+      baseline.tasks.forEach((baselineTask) => {
+        const task = tasksById.get(baselineTask.taskId);
+        if (!task) return;
+        const variance = getBaselineVariance(task, baselineTask);
+        markdown += `- **${task.title}**: برنامه ${jMoment(
+          baselineTask.startDate
+        ).format("jYYYY/jMM/jDD")} - ${jMoment(baselineTask.endDate).format(
+          "jYYYY/jMM/jDD"
+        )}، انحراف شروع ${formatVariance(
+          variance.startDays
+        )} روز، انحراف پایان ${formatVariance(variance.finishDays)} روز\n`;
+      });
+      markdown += "\n";
+    });
+  }
+
   // Summary statistics
   if (tasks.length > 0) {
     const startDates = tasks.map((t) => t.startDate);
@@ -135,7 +342,10 @@ export const exportProjectAsMarkdown = (
 
     markdown += `---\n\n`;
     markdown += `### خلاصه پروژه\n\n`;
-    markdown += `- **تعداد کل تسک‌ها:** ${tasks.length}\n`;
+    markdown += `- **تعداد کل تسک‌ها:** ${regularTasks.length}\n`;
+    if (milestones.length > 0) {
+      markdown += `- **تعداد نقاط عطف:** ${milestones.length}\n`;
+    }
     markdown += `- **تعداد گروه‌ها:** ${groups.length}\n`;
     markdown += `- **تاریخ شروع پروژه:** ${jMoment(projectStart).format(
       "jYYYY/jMM/jDD"
@@ -179,6 +389,9 @@ export const parseImportedJSON = (
   project: Project;
   tasks: GanttTask[];
   groups: TaskGroup[];
+  dependencies: TaskDependency[];
+  resources: Resource[];
+  baselines: Baseline[];
 } => {
   try {
     const data = JSON.parse(jsonString) as ProjectExportData;
@@ -195,11 +408,34 @@ export const parseImportedJSON = (
         ...task,
         startDate: new Date(task.startDate),
         endDate: new Date(task.endDate),
+        actualEndDate: task.actualEndDate
+          ? new Date(task.actualEndDate)
+          : undefined,
       })),
       groups: data.groups.map((group) => ({
         ...group,
         createdAt: new Date(group.createdAt),
       })),
+      // Exports before version 1.1.0 have no dependencies
+      dependencies: (data.dependencies || []).map((dependency) => ({
+        ...dependency,
+        createdAt: new Date(dependency.createdAt),
+      })),
+      // Exports before version 1.2.0 have no resources
+      resources: (data.resources || []).map((resource) => ({
+        ...resource,
+        createdAt: new Date(resource.createdAt),
+      })),
+      // Exports before version 1.3.0 have no baselines
+      baselines: (data.baselines || []).map((baseline) => ({
+        ...baseline,
+        tasks: baseline.tasks.map((task) => ({
+          ...task,
+          startDate: new Date(task.startDate),
+          endDate: new Date(task.endDate),
+        })),
+        createdAt: new Date(baseline.createdAt),
+      })),
     };
 
     return parsedData;
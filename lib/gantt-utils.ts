@@ -1,6 +1,24 @@
 import jMoment from "jalali-moment";
 import moment from "moment-hijri";
-import { GanttTask, GanttConfig, TimelineView } from "./types";
+import {
+  GanttTask,
+  GanttConfig,
+  TimelineView,
+  DependencyType,
+  WorkCalendar,
+} from "./types";
+import { getDependencyEdges, DependencyEdge } from "./dependencies";
+import { moveTaskStart } from "./scheduling";
+import {
+  getQuarterStart,
+  toPersianDate,
+  PERSIAN_MONTHS,
+} from "./persian-calendar";
+import {
+  DEFAULT_WORK_CALENDAR,
+  countWorkingDays,
+  getNonWorkingReason,
+} from "./work-calendar";
 
 // Configure jalali-moment to use Persian locale
 jMoment.locale("fa");
@@ -14,6 +32,13 @@ const toPersianNumbers = (str: string): string => {
 // Export the function
 export { toPersianNumbers };
 
+// Persian and Arabic digits in typed or pasted text, as Latin digits
+export const toLatinNumbers = (str: string): string => {
+  return str
+    .replace(/[۰-۹]/g, (w) => `${w.charCodeAt(0) - 0x06f0}`)
+    .replace(/[٠-٩]/g, (w) => `${w.charCodeAt(0) - 0x0660}`);
+};
+
 export const formatJalaliDate = (
   date: Date,
   format: string = "jYYYY/jMM/jDD"
@@ -33,6 +58,219 @@ export const formatJalaliWeek = (date: Date): string => {
   );
 };
 
+export const TIMELINE_VIEWS: TimelineView[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "quarterly",
+  "yearly",
+];
+
+export const TIMELINE_VIEW_LABELS: Record<TimelineView, string> = {
+  daily: "روزانه",
+  weekly: "هفتگی",
+  monthly: "ماهانه",
+  quarterly: "فصلی",
+  yearly: "سالانه",
+};
+
+// Column width in pixels for each view
+const CELL_WIDTHS: Record<TimelineView, number> = {
+  daily: 60,
+  weekly: 120,
+  monthly: 120,
+  quarterly: 150,
+  yearly: 200,
+};
+
+const MONTHS_PER_COLUMN = { monthly: 1, quarterly: 3, yearly: 12 };
+
+// Average days in a column of each view, to turn a zoom level in pixels per
+// day into a column width
+const DAYS_PER_COLUMN: Record<TimelineView, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 365.25 / 12,
+  quarterly: 365.25 / 4,
+  yearly: 365.25,
+};
+
+// Zoom range in pixels per day
+export const MIN_DAY_WIDTH = 0.15;
+export const MAX_DAY_WIDTH = 200;
+
+/**
+ * Pixels per day of a view at its default column width
+ */
+export const getDefaultDayWidth = (view: TimelineView): number =>
+  CELL_WIDTHS[view] / DAYS_PER_COLUMN[view];
+
+/**
+ * The view a zoom level is shown in: days while a day column is wide
+ * enough for its date, then weeks, months, quarters and years as it zooms
+ * out. Each view's default zoom falls inside its own band.
+ */
+export const getZoomView = (dayWidth: number): TimelineView => {
+  if (dayWidth >= 40) return "daily";
+  if (dayWidth >= 12) return "weekly";
+  if (dayWidth >= 2.5) return "monthly";
+  if (dayWidth >= 0.9) return "quarterly";
+  return "yearly";
+};
+
+/**
+ * Start of the timeline column (day, week, Jalali month, quarter or year)
+ * that contains the given date
+ */
+const getColumnStart = (date: Date, view: TimelineView) => {
+  switch (view) {
+    case "weekly":
+      return jMoment(date).startOf("week");
+    case "monthly":
+      return jMoment(date).startOf("jMonth");
+    case "quarterly":
+      return jMoment(getQuarterStart(toPersianDate(date)), "jYYYY/jMM/jDD");
+    case "yearly":
+      return jMoment(date).startOf("jYear");
+    case "daily":
+    default:
+      return jMoment(date).startOf("day");
+  }
+};
+
+const addColumns = (
+  date: jMoment.Moment,
+  count: number,
+  view: TimelineView
+): jMoment.Moment => {
+  switch (view) {
+    case "daily":
+      return date.clone().add(count, "day");
+    case "weekly":
+      return date.clone().add(count, "week");
+    default:
+      return date.clone().add(count * MONTHS_PER_COLUMN[view], "jMonth");
+  }
+};
+
+/**
+ * Position of a date on the timeline in columns (fractional), counted from
+ * the first column. The fraction is measured in days, so a date halfway
+ * through a 31-day month sits halfway across its month column.
+ */
+export const getTimelineOffset = (date: Date, config: GanttConfig): number => {
+  const firstColumn = getColumnStart(config.startDate, config.view);
+  const column = getColumnStart(date, config.view);
+
+  let index: number;
+  if (config.view === "daily") {
+    index = column.diff(firstColumn, "days");
+  } else if (config.view === "weekly") {
+    index = Math.round(column.diff(firstColumn, "days") / 7);
+  } else {
+    const months =
+      (column.jYear() - firstColumn.jYear()) * 12 +
+      (column.jMonth() - firstColumn.jMonth());
+    index = months / MONTHS_PER_COLUMN[config.view];
+  }
+
+  const columnDays = addColumns(column, 1, config.view).diff(column, "days");
+  const dayInColumn = jMoment(date).diff(column, "days", true);
+  return index + dayInColumn / columnDays;
+};
+
+/**
+ * Inverse of getTimelineOffset: the day at a horizontal position (in pixels
+ * from the timeline start)
+ */
+export const getDateAtPosition = (x: number, config: GanttConfig): Date => {
+  const offset = Math.max(0, x / config.cellWidth);
+  const index = Math.floor(offset);
+  const column = addColumns(
+    getColumnStart(config.startDate, config.view),
+    index,
+    config.view
+  );
+  const columnDays = addColumns(column, 1, config.view).diff(column, "days");
+  return column.add(Math.round((offset - index) * columnDays), "days").toDate();
+};
+
+/**
+ * Like getDateAtPosition, but the exact time rather than the day, so that
+ * a zoom can keep the point under the cursor in place
+ */
+export const getTimeAtPosition = (x: number, config: GanttConfig): Date => {
+  const offset = Math.max(0, x / config.cellWidth);
+  const index = Math.floor(offset);
+  const column = addColumns(
+    getColumnStart(config.startDate, config.view),
+    index,
+    config.view
+  );
+  const columnMs = addColumns(column, 1, config.view).diff(column);
+  return new Date(column.valueOf() + (offset - index) * columnMs);
+};
+
+/**
+ * Header label of a timeline column
+ */
+export const formatTimelineColumn = (
+  date: Date,
+  view: TimelineView
+): string => {
+  switch (view) {
+    case "daily":
+      return formatJalaliDateShort(date);
+    case "weekly":
+      return formatJalaliWeek(date);
+    case "monthly":
+      return toPersianNumbers(jMoment(date).format("jMMMM jYYYY"));
+    case "quarterly":
+      return toPersianNumbers(
+        `فصل ${Math.floor(jMoment(date).jMonth() / 3) + 1} ${jMoment(
+          date
+        ).format("jYYYY")}`
+      );
+    case "yearly":
+      return toPersianNumbers(jMoment(date).format("jYYYY"));
+  }
+};
+
+export interface TimelineBand {
+  label: string;
+  span: number; // Number of timeline columns the band covers
+}
+
+/**
+ * Upper header band grouping consecutive timeline columns: by Jalali month
+ * for day and week columns, by Jalali year for month and quarter columns.
+ * Yearly columns need no band. A week belongs to the month it starts in.
+ */
+export const getTimelineBands = (
+  dates: Date[],
+  view: TimelineView
+): TimelineBand[] => {
+  if (view === "yearly") return [];
+
+  const bands: TimelineBand[] = [];
+  dates.forEach((date) => {
+    const m = jMoment(date);
+    const label =
+      view === "daily" || view === "weekly"
+        ? toPersianNumbers(`${PERSIAN_MONTHS[m.jMonth()]} ${m.jYear()}`)
+        : toPersianNumbers(`${m.jYear()}`);
+
+    const lastBand = bands[bands.length - 1];
+    if (lastBand && lastBand.label === label) {
+      lastBand.span++;
+    } else {
+      bands.push({ label, span: 1 });
+    }
+  });
+
+  return bands;
+};
+
 export const getDayName = (date: Date): string => {
   return jMoment(date).format("dddd");
 };
@@ -86,15 +324,135 @@ export const generateTimelineDates = (
       dates.push(current.toDate());
       current.add(1, "week");
     }
+  } else {
+    // Jalali month, quarter or year columns
+    let current = getColumnStart(startDate, view);
+    while (current.isSameOrBefore(end)) {
+      dates.push(current.toDate());
+      current = addColumns(current, 1, view);
+    }
   }
 
   return dates;
 };
 
+/**
+ * The days each timeline column covers: from its first day up to, but not
+ * including, the first day of the next column
+ */
+export const getTimelineColumnRanges = (
+  config: GanttConfig
+): { start: Date; end: Date }[] => {
+  return generateTimelineDates(
+    config.startDate,
+    config.endDate,
+    config.view
+  ).map((date) => {
+    const start = getColumnStart(date, config.view);
+    return {
+      start: start.toDate(),
+      end: addColumns(start, 1, config.view).toDate(),
+    };
+  });
+};
+
+/**
+ * Non-working days (weekends, official holidays and company closures) of the
+ * work calendar as horizontal ranges, for shading the chart. Only the daily
+ * and weekly views shade days; in coarser views a day is a few pixels wide.
+ */
+export const getNonWorkingRanges = (
+  config: GanttConfig
+): { left: number; width: number; reason: string }[] => {
+  if (config.view !== "daily" && config.view !== "weekly") return [];
+
+  const calendar = config.calendar || DEFAULT_WORK_CALENDAR;
+  const ranges: { left: number; width: number; reason: string }[] = [];
+  const dayWidth =
+    config.view === "daily" ? config.cellWidth : config.cellWidth / 7;
+  const current = getColumnStart(config.startDate, config.view);
+  const end = addColumns(
+    getColumnStart(config.endDate, config.view),
+    1,
+    config.view
+  );
+
+  while (current.isBefore(end)) {
+    const reason = getNonWorkingReason(current.toDate(), calendar);
+    if (reason) {
+      ranges.push({
+        left: getTimelineOffset(current.toDate(), config) * config.cellWidth,
+        width: dayWidth,
+        reason,
+      });
+    }
+    current.add(1, "day");
+  }
+
+  return ranges;
+};
+
+/**
+ * Task length in working days of the calendar and in calendar days, both
+ * counting the start and end days
+ */
+export const getTaskDurations = (
+  task: GanttTask,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): { workingDays: number; calendarDays: number } => {
+  return {
+    workingDays: countWorkingDays(task.startDate, task.endDate, calendar),
+    calendarDays:
+      jMoment(task.endDate)
+        .startOf("day")
+        .diff(jMoment(task.startDate).startOf("day"), "days") + 1,
+  };
+};
+
+export const isMilestone = (task: GanttTask): boolean => {
+  return task.type === "milestone";
+};
+
+// Size of the square box a milestone diamond is drawn in
+export const getMilestoneSize = (config: GanttConfig): number => {
+  return Math.round(config.rowHeight / 2);
+};
+
+// Short tasks in the coarser views would otherwise be too thin to grab
+const MIN_BAR_WIDTH = 6;
+
 export const calculateTaskPosition = (
   task: GanttTask,
   config: GanttConfig
 ): { left: number; width: number } => {
+  if (isMilestone(task)) {
+    // Milestones are a single point centered on their day
+    const size = getMilestoneSize(config);
+    let center: number;
+
+    if (config.view === "daily") {
+      const startDiff = jMoment(task.startDate).diff(
+        jMoment(config.startDate),
+        "days"
+      );
+      center = (startDiff + 0.5) * config.cellWidth;
+    } else if (config.view !== "weekly") {
+      const midday = jMoment(task.startDate)
+        .startOf("day")
+        .add(12, "hours")
+        .toDate();
+      center = getTimelineOffset(midday, config) * config.cellWidth;
+    } else {
+      const configStartWeek = jMoment(config.startDate).startOf("week");
+      const taskWeek = jMoment(task.startDate).startOf("week");
+      const weeksFromStart = taskWeek.diff(configStartWeek, "weeks");
+      const dayInWeek = jMoment(task.startDate).diff(taskWeek, "days");
+      center = (weeksFromStart + (dayInWeek + 0.5) / 7) * config.cellWidth;
+    }
+
+    return { left: center - size / 2, width: size };
+  }
+
   if (config.view === "daily") {
     const startDiff = jMoment(task.startDate).diff(
       jMoment(config.startDate),
@@ -107,6 +465,24 @@ export const calculateTaskPosition = (
       left: startDiff * config.cellWidth,
       width: duration * config.cellWidth - 2, // -2 for border spacing
     };
+  } else if (config.view !== "weekly") {
+    // Month, quarter and year views place bars at day-accurate positions
+    // inside their columns. End dates are inclusive.
+    const left =
+      getTimelineOffset(
+        jMoment(task.startDate).startOf("day").toDate(),
+        config
+      ) * config.cellWidth;
+    const right =
+      getTimelineOffset(
+        jMoment(task.endDate).startOf("day").add(1, "day").toDate(),
+        config
+      ) * config.cellWidth;
+
+    return {
+      left,
+      width: Math.max(right - left - 2, MIN_BAR_WIDTH), // -2 for border spacing
+    };
   } else {
     // Weekly view - calculate based on weeks
     const configStartWeek = jMoment(config.startDate).startOf("week");
@@ -126,6 +502,183 @@ export const calculateTaskPosition = (
   }
 };
 
+/**
+ * Get the horizontal coordinate (from the chart's left side) of a task edge.
+ * The chart is right-to-left, so a bar at `left` is rendered with
+ * `right: left` and time flows towards the left.
+ */
+export const getTaskEdgeX = (
+  task: GanttTask,
+  config: GanttConfig,
+  chartWidth: number,
+  edge: DependencyEdge
+): number => {
+  const position = calculateTaskPosition(task, config);
+  const startX = chartWidth - position.left;
+  return edge === "start" ? startX : startX - position.width;
+};
+
+export type BarDragMode = "drag" | "resize-start" | "resize-end";
+
+export interface BarDragPreview {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * The date a dragged bar edge snaps to at a horizontal position (in pixels
+ * from the timeline start)
+ */
+const getDragDate = (x: number, config: GanttConfig): Date => {
+  // Month, quarter and year columns span many days, so snap to the day
+  if (config.view !== "daily" && config.view !== "weekly") {
+    return getDateAtPosition(x, config);
+  }
+
+  const timelineDates = generateTimelineDates(
+    config.startDate,
+    config.endDate,
+    config.view
+  );
+  const cellIndex = Math.round(x / config.cellWidth);
+  const clampedIndex = Math.max(
+    0,
+    Math.min(cellIndex, timelineDates.length - 1)
+  );
+  return timelineDates[clampedIndex];
+};
+
+/**
+ * Dates of a bar dragged `deltaX` pixels (screen direction) from `origin`,
+ * its position when the drag started, or null when a resize would put the
+ * start after the end. Bars are placed by their offset from the right edge,
+ * so moving the mouse to the right moves them to earlier dates.
+ */
+export const getBarDragPreview = (
+  task: GanttTask,
+  mode: BarDragMode,
+  origin: { left: number; width: number },
+  deltaX: number,
+  config: GanttConfig
+): BarDragPreview | null => {
+  const startEdge = origin.left - deltaX;
+
+  if (mode === "drag") {
+    // The end follows the start, keeping the length in working days
+    return moveTaskStart(task, getDragDate(startEdge, config), config.calendar);
+  }
+  if (mode === "resize-start") {
+    const startDate = getDragDate(startEdge, config);
+    return jMoment(startDate).isAfter(task.endDate, "day")
+      ? null
+      : { startDate, endDate: task.endDate };
+  }
+  // The end edge sits at the start of the day after the end date
+  const endDate = jMoment(getDragDate(startEdge + origin.width, config))
+    .subtract(1, "day")
+    .toDate();
+  return jMoment(endDate).isBefore(task.startDate, "day")
+    ? null
+    : { startDate: task.startDate, endDate };
+};
+
+export const isSameDragDates = (
+  a: BarDragPreview,
+  b: BarDragPreview
+): boolean =>
+  jMoment(a.startDate).isSame(b.startDate, "day") &&
+  jMoment(a.endDate).isSame(b.endDate, "day");
+
+/**
+ * Position of today's line in pixels from the timeline start, or null when
+ * today is outside the timeline
+ */
+export const getTodayOffset = (config: GanttConfig): number | null => {
+  const timelineDates = generateTimelineDates(
+    config.startDate,
+    config.endDate,
+    config.view
+  );
+  const today = new Date();
+
+  if (config.view === "daily") {
+    // Find today's position in daily view
+    const todayIndex = timelineDates.findIndex((date) =>
+      jMoment(date).isSame(jMoment(today), "day")
+    );
+
+    if (todayIndex === -1) return null;
+
+    return todayIndex * config.cellWidth + config.cellWidth / 2;
+  } else if (config.view !== "weekly") {
+    // Month, quarter and year views - position today inside its column
+    const offset = getTimelineOffset(
+      jMoment(today).startOf("day").add(12, "hours").toDate(),
+      config
+    );
+    if (offset < 0 || offset > timelineDates.length) return null;
+
+    return offset * config.cellWidth;
+  } else {
+    // Weekly view - find which week contains today and position within that week
+    const todayMoment = jMoment(today);
+    const weekIndex = timelineDates.findIndex((date) =>
+      todayMoment.isSame(jMoment(date), "week")
+    );
+
+    if (weekIndex === -1) return null;
+
+    // Calculate day within the week (0 = start of week, 6 = end of week)
+    const weekStart = jMoment(timelineDates[weekIndex]).startOf("week");
+    const dayInWeek = todayMoment.diff(weekStart, "days");
+    return weekIndex * config.cellWidth + (dayInWeek / 7) * config.cellWidth;
+  }
+};
+
+/**
+ * Build an SVG path for a dependency arrow between two task bars
+ */
+export const getDependencyPath = (
+  predecessor: GanttTask,
+  successor: GanttTask,
+  predecessorRow: number,
+  successorRow: number,
+  type: DependencyType,
+  config: GanttConfig,
+  chartWidth: number
+): string => {
+  const gap = 12;
+  const edges = getDependencyEdges(type);
+
+  const x1 = getTaskEdgeX(predecessor, config, chartWidth, edges.from);
+  const y1 = predecessorRow * config.rowHeight + config.rowHeight / 2;
+  const x2 = getTaskEdgeX(successor, config, chartWidth, edges.to);
+  const y2 = successorRow * config.rowHeight + config.rowHeight / 2;
+
+  // Forward in time is towards the left (-1) in the RTL chart. The arrow
+  // leaves a finish edge forwards and a start edge backwards, and enters a
+  // start edge travelling forwards and a finish edge travelling backwards.
+  const outDirection = edges.from === "finish" ? -1 : 1;
+  const inDirection = edges.to === "start" ? -1 : 1;
+  const exitX = x1 + outDirection * gap;
+  const entryX = x2 - inDirection * gap;
+
+  if (outDirection !== inDirection) {
+    const elbowX =
+      outDirection > 0 ? Math.max(exitX, entryX) : Math.min(exitX, entryX);
+    return `M ${x1} ${y1} H ${elbowX} V ${y2} H ${x2}`;
+  }
+
+  if ((x2 - exitX) * inDirection >= gap) {
+    return `M ${x1} ${y1} H ${exitX} V ${y2} H ${x2}`;
+  }
+
+  // Not enough room: detour along the row boundary above/below the successor
+  const detourY =
+    y2 >= y1 ? y2 - config.rowHeight / 2 : y2 + config.rowHeight / 2;
+  return `M ${x1} ${y1} H ${exitX} V ${detourY} H ${entryX} V ${y2} H ${x2}`;
+};
+
 export const isDateInRange = (
   date: Date,
   startDate: Date,
@@ -144,13 +697,18 @@ export const getTaskColor = (task: GanttTask): string => {
 
 export const calculateGanttDimensions = (
   tasks: GanttTask[],
-  view: TimelineView
+  view: TimelineView,
+  dayWidth?: number // Zoom level; the view's default column width if unset
 ) => {
+  const cellWidth = dayWidth
+    ? dayWidth * DAYS_PER_COLUMN[view]
+    : CELL_WIDTHS[view];
+
   if (tasks.length === 0) {
     return {
       startDate: new Date(),
       endDate: new Date(),
-      cellWidth: view === "daily" ? 60 : 120,
+      cellWidth,
       rowHeight: 50,
     };
   }
@@ -170,16 +728,26 @@ export const calculateGanttDimensions = (
       .startOf("week")
       .toDate();
     paddedEnd = jMoment(endDate).add(1, "week").endOf("week").toDate();
-  } else {
+  } else if (view === "daily") {
     // For daily view, add some padding
     paddedStart = jMoment(startDate).subtract(1, "week").toDate();
     paddedEnd = jMoment(endDate).add(1, "week").toDate();
+  } else {
+    // For month, quarter and year views, pad by one column on each side
+    paddedStart = addColumns(
+      getColumnStart(startDate, view),
+      -1,
+      view
+    ).toDate();
+    paddedEnd = addColumns(getColumnStart(endDate, view), 2, view)
+      .subtract(1, "day")
+      .toDate();
   }
 
   return {
     startDate: paddedStart,
     endDate: paddedEnd,
-    cellWidth: view === "daily" ? 60 : 120,
+    cellWidth,
     rowHeight: 50,
   };
 };
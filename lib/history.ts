@@ -0,0 +1,255 @@
+import {
+  Project,
+  GanttTask,
+  TaskGroup,
+  TaskDependency,
+  Resource,
+  Baseline,
+} from "./types";
+
+// The IndexedDB object stores, which are also the record lists of the store
+export type HistoryRecordStore =
+  | "projects"
+  | "tasks"
+  | "groups"
+  | "dependencies"
+  | "resources"
+  | "baselines";
+
+export type HistoryRecord =
+  | Project
+  | GanttTask
+  | TaskGroup
+  | TaskDependency
+  | Resource
+  | Baseline;
+
+export interface RecordChange {
+  store: HistoryRecordStore;
+  id: string;
+  before: HistoryRecord | null; // null: the record did not exist yet
+  after: HistoryRecord | null; // null: the record was deleted
+}
+
+export interface HistoryEntry {
+  label: string; // Shown on the undo and redo buttons
+  changes: RecordChange[];
+}
+
+export interface RecordValue {
+  store: HistoryRecordStore;
+  id: string;
+  value: HistoryRecord | null;
+}
+
+export type RecordSnapshot = Record<HistoryRecordStore, HistoryRecord[]>;
+
+export const HISTORY_STORES: HistoryRecordStore[] = [
+  "projects",
+  "tasks",
+  "groups",
+  "dependencies",
+  "resources",
+  "baselines",
+];
+
+// Oldest steps are dropped beyond this
+export const HISTORY_LIMIT = 100;
+
+// Fields that only change how records are shown, like layout settings and
+// expanded groups. Steps neither record nor restore them.
+const VIEW_ONLY_FIELDS: Partial<Record<HistoryRecordStore, string[]>> = {
+  projects: ["viewSettings"],
+  groups: ["isExpanded"],
+};
+
+const withoutViewOnlyFields = (
+  store: HistoryRecordStore,
+  record: HistoryRecord | null
+): object | null => {
+  if (!record || !VIEW_ONLY_FIELDS[store]) return record;
+  const fields: Record<string, unknown> = { ...record };
+  VIEW_ONLY_FIELDS[store]!.forEach((field) => delete fields[field]);
+  return fields;
+};
+
+// State updates copy changed records, so an unchanged record is usually the
+// same object. Reloaded records are new objects with the same content.
+const isSameRecord = (
+  store: HistoryRecordStore,
+  a: HistoryRecord | null,
+  b: HistoryRecord | null
+): boolean => {
+  return (
+    a === b ||
+    JSON.stringify(withoutViewOnlyFields(store, a)) ===
+      JSON.stringify(withoutViewOnlyFields(store, b))
+  );
+};
+
+/**
+ * Records added, changed or removed between two snapshots of the store
+ */
+export const diffSnapshots = (
+  before: RecordSnapshot,
+  after: RecordSnapshot
+): RecordChange[] => {
+  const changes: RecordChange[] = [];
+
+  HISTORY_STORES.forEach((store) => {
+    const beforeById = new Map(
+      before[store].map((record) => [record.id, record])
+    );
+    const afterById = new Map(
+      after[store].map((record) => [record.id, record])
+    );
+
+    beforeById.forEach((record, id) => {
+      const next = afterById.get(id) || null;
+      if (!isSameRecord(store, record, next)) {
+        changes.push({ store, id, before: record, after: next });
+      }
+    });
+    afterById.forEach((record, id) => {
+      if (!beforeById.has(id)) {
+        changes.push({ store, id, before: null, after: record });
+      }
+    });
+  });
+
+  return changes;
+};
+
+/**
+ * Fold the changes of one undo step into one change per record, keeping the
+ * first `before` and the last `after`. Records that end up as they started
+ * are dropped.
+ */
+export const mergeChanges = (changes: RecordChange[]): RecordChange[] => {
+  const merged = new Map<string, RecordChange>();
+
+  changes.forEach((change) => {
+    const key = `${change.store}:${change.id}`;
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing ? { ...existing, after: change.after } : { ...change }
+    );
+  });
+
+  return [...merged.values()].filter(
+    (change) => !isSameRecord(change.store, change.before, change.after)
+  );
+};
+
+/**
+ * The record values that restore one side of a step: `before` for undo,
+ * `after` for redo
+ */
+export const getRecordValues = (
+  changes: RecordChange[],
+  side: "before" | "after"
+): RecordValue[] => {
+  return changes.map((change) => ({
+    store: change.store,
+    id: change.id,
+    value: change[side],
+  }));
+};
+
+/**
+ * Apply restored records to one list of the store. Records that `include`
+ * rejects (those of another project) are only removed, never added. Lists
+ * that gain records are sorted by id, which is creation order, so they look
+ * as they would after a reload.
+ */
+export const applyRecordValues = <T extends HistoryRecord>(
+  list: T[],
+  values: RecordValue[],
+  store: HistoryRecordStore,
+  include: (record: T) => boolean = () => true
+): T[] => {
+  const storeValues = new Map(
+    values
+      .filter((value) => value.store === store)
+      .map((value) => [value.id, value.value as T | null])
+  );
+  if (storeValues.size === 0) return list;
+
+  const result = list
+    .filter((record) => storeValues.get(record.id) !== null)
+    .map((record) =>
+      storeValues.has(record.id) ? storeValues.get(record.id)! : record
+    );
+
+  const existingIds = new Set(list.map((record) => record.id));
+  const added = [...storeValues.values()].filter(
+    (record): record is T =>
+      record !== null && !existingIds.has(record.id) && include(record)
+  );
+  if (added.length === 0) return result;
+
+  return [...result, ...added].sort((a, b) => a.id.localeCompare(b.id));
+};
+
+/**
+ * Restored records with the view-only fields they have now, so that undo
+ * and redo leave layout settings and expanded groups as they are. Records
+ * that no longer exist come back with their recorded values.
+ */
+export const keepViewOnlyFields = (
+  values: RecordValue[],
+  current: RecordSnapshot
+): RecordValue[] => {
+  return values.map((value) => {
+    const fields = VIEW_ONLY_FIELDS[value.store];
+    const record =
+      fields && value.value
+        ? current[value.store].find((r) => r.id === value.id)
+        : undefined;
+    if (!fields || !value.value || !record) return value;
+
+    const currentFields = record as unknown as Record<string, unknown>;
+    const restored: Record<string, unknown> = { ...value.value };
+    fields.forEach((field) => {
+      if (field in currentFields) {
+        restored[field] = currentFields[field];
+      } else {
+        delete restored[field];
+      }
+    });
+    return { ...value, value: restored as unknown as HistoryRecord };
+  });
+};
+
+/**
+ * Changes that create whole records, for actions whose records are not all
+ * in the loaded state (such as importing a project)
+ */
+export const toAddedRecords = (
+  store: HistoryRecordStore,
+  records: HistoryRecord[]
+): RecordChange[] => {
+  return records.map((record) => ({
+    store,
+    id: record.id,
+    before: null,
+    after: record,
+  }));
+};
+
+/**
+ * Changes that delete whole records, for actions whose records are not all
+ * in the loaded state (such as deleting a project that is not open)
+ */
+export const toRemovedRecords = (
+  store: HistoryRecordStore,
+  records: HistoryRecord[]
+): RecordChange[] => {
+  return records.map((record) => ({
+    store,
+    id: record.id,
+    before: record,
+    after: null,
+  }));
+};
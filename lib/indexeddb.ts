@@ -1,10 +1,22 @@
-import { Project, GanttTask, TaskGroup, TASK_COLORS } from "./types";
+import {
+  Project,
+  GanttTask,
+  TaskGroup,
+  TaskDependency,
+  Resource,
+  Baseline,
+  TASK_COLORS,
+} from "./types";
+import { RecordValue } from "./history";
 
 const DB_NAME = "GanttDB";
-const DB_VERSION = 3;
+const DB_VERSION = 7;
 const PROJECTS_STORE = "projects";
 const TASKS_STORE = "tasks";
 const GROUPS_STORE = "groups";
+const DEPENDENCIES_STORE = "dependencies";
+const RESOURCES_STORE = "resources";
+const BASELINES_STORE = "baselines";
 
 class IndexedDBManager {
   private db: IDBDatabase | null = null;
@@ -74,6 +86,7 @@ class IndexedDBManager {
           taskStore.createIndex("projectId", "projectId", { unique: false });
           taskStore.createIndex("groupId", "groupId", { unique: false });
           taskStore.createIndex("title", "title", { unique: false });
+          taskStore.createIndex("parentId", "parentId", { unique: false });
         } else {
           // Upgrade existing tasks store to add missing indexes
           const taskStore = transaction.objectStore(TASKS_STORE);
@@ -109,6 +122,16 @@ class IndexedDBManager {
               console.warn("Failed to add title index:", error);
             }
           }
+
+          // Add parentId index for subtasks (new in version 5)
+          if (!taskStore.indexNames.contains("parentId")) {
+            try {
+              taskStore.createIndex("parentId", "parentId", { unique: false });
+              console.log("Added parentId index to tasks store");
+            } catch (error) {
+              console.warn("Failed to add parentId index:", error);
+            }
+          }
         }
 
         // Create groups store (new in version 2)
@@ -119,6 +142,42 @@ class IndexedDBManager {
           groupStore.createIndex("projectId", "projectId", { unique: false });
           groupStore.createIndex("title", "title", { unique: false });
         }
+
+        // Create dependencies store (new in version 4)
+        if (!db.objectStoreNames.contains(DEPENDENCIES_STORE)) {
+          const dependencyStore = db.createObjectStore(DEPENDENCIES_STORE, {
+            keyPath: "id",
+          });
+          dependencyStore.createIndex("projectId", "projectId", {
+            unique: false,
+          });
+          dependencyStore.createIndex("predecessorId", "predecessorId", {
+            unique: false,
+          });
+          dependencyStore.createIndex("successorId", "successorId", {
+            unique: false,
+          });
+        }
+
+        // Create resources store (new in version 6)
+        if (!db.objectStoreNames.contains(RESOURCES_STORE)) {
+          const resourceStore = db.createObjectStore(RESOURCES_STORE, {
+            keyPath: "id",
+          });
+          resourceStore.createIndex("projectId", "projectId", {
+            unique: false,
+          });
+        }
+
+        // Create baselines store (new in version 7)
+        if (!db.objectStoreNames.contains(BASELINES_STORE)) {
+          const baselineStore = db.createObjectStore(BASELINES_STORE, {
+            keyPath: "id",
+          });
+          baselineStore.createIndex("projectId", "projectId", {
+            unique: false,
+          });
+        }
       };
     });
   }
@@ -135,7 +194,14 @@ class IndexedDBManager {
     const db = this.ensureDB();
 
     // Check if all required object stores exist
-    const requiredStores = [PROJECTS_STORE, TASKS_STORE, GROUPS_STORE];
+    const requiredStores = [
+      PROJECTS_STORE,
+      TASKS_STORE,
+      GROUPS_STORE,
+      DEPENDENCIES_STORE,
+      RESOURCES_STORE,
+      BASELINES_STORE,
+    ];
     const missingStores = requiredStores.filter(
       (store) => !db.objectStoreNames.contains(store)
     );
@@ -155,7 +221,7 @@ class IndexedDBManager {
       const transaction = db.transaction([TASKS_STORE], "readonly");
       const taskStore = transaction.objectStore(TASKS_STORE);
 
-      const requiredIndexes = ["projectId", "groupId", "title"];
+      const requiredIndexes = ["projectId", "groupId", "title", "parentId"];
       const missingIndexes = requiredIndexes.filter(
         (index) => !taskStore.indexNames.contains(index)
       );
@@ -224,7 +290,14 @@ class IndexedDBManager {
     const db = this.ensureDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(
-        [PROJECTS_STORE, TASKS_STORE, GROUPS_STORE],
+        [
+          PROJECTS_STORE,
+          TASKS_STORE,
+          GROUPS_STORE,
+          DEPENDENCIES_STORE,
+          RESOURCES_STORE,
+          BASELINES_STORE,
+        ],
         "readwrite"
       );
 
@@ -232,9 +305,12 @@ class IndexedDBManager {
       const projectStore = transaction.objectStore(PROJECTS_STORE);
       projectStore.delete(id);
 
-      // Delete all tasks and groups for this project
+      // Delete all tasks, groups, dependencies, resources and baselines for
+      // this project
       const taskStore = transaction.objectStore(TASKS_STORE);
       const groupStore = transaction.objectStore(GROUPS_STORE);
+      const dependencyStore = transaction.objectStore(DEPENDENCIES_STORE);
+      const resourceStore = transaction.objectStore(RESOURCES_STORE);
 
       const taskIndex = taskStore.index("projectId");
       const taskRequest = taskIndex.openCursor(IDBKeyRange.only(id));
@@ -258,6 +334,44 @@ class IndexedDBManager {
         }
       };
 
+      const dependencyIndex = dependencyStore.index("projectId");
+      const dependencyRequest = dependencyIndex.openCursor(
+        IDBKeyRange.only(id)
+      );
+
+      dependencyRequest.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+
+      const resourceRequest = resourceStore
+        .index("projectId")
+        .openCursor(IDBKeyRange.only(id));
+
+      resourceRequest.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+
+      const baselineRequest = transaction
+        .objectStore(BASELINES_STORE)
+        .index("projectId")
+        .openCursor(IDBKeyRange.only(id));
+
+      baselineRequest.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
     });
@@ -300,6 +414,19 @@ class IndexedDBManager {
     });
   }
 
+  // Add several tasks in a single transaction
+  async addTasks(tasks: GanttTask[]): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TASKS_STORE], "readwrite");
+      const store = transaction.objectStore(TASKS_STORE);
+      tasks.forEach((task) => store.add(task));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async updateTask(task: Partial<GanttTask> & { id: string }): Promise<void> {
     const db = this.ensureDB();
     return new Promise((resolve, reject) => {
@@ -322,15 +449,86 @@ class IndexedDBManager {
     });
   }
 
-  async deleteTask(id: string): Promise<void> {
+  // Update several tasks in a single transaction so either all or none of
+  // the changes are persisted
+  async updateTasks(
+    tasks: (Partial<GanttTask> & { id: string })[]
+  ): Promise<void> {
     const db = this.ensureDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([TASKS_STORE], "readwrite");
       const store = transaction.objectStore(TASKS_STORE);
-      const request = store.delete(id);
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+      // Merge repeated updates of the same task before writing
+      const mergedTasks = new Map<string, Partial<GanttTask>>();
+      tasks.forEach((task) =>
+        mergedTasks.set(task.id, { ...mergedTasks.get(task.id), ...task })
+      );
+
+      mergedTasks.forEach((task, id) => {
+        const getRequest = store.get(id);
+        getRequest.onsuccess = () => {
+          const existingTask = getRequest.result;
+          if (existingTask) {
+            store.put({ ...existingTask, ...task });
+          } else {
+            transaction.abort();
+          }
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () =>
+        reject(transaction.error || new Error("Task not found"));
+    });
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [TASKS_STORE, DEPENDENCIES_STORE],
+        "readwrite"
+      );
+      const store = transaction.objectStore(TASKS_STORE);
+
+      // Move subtasks up to the deleted task's parent
+      const getRequest = store.get(id);
+      getRequest.onsuccess = () => {
+        const task = getRequest.result as GanttTask | undefined;
+        const childrenRequest = store
+          .index("parentId")
+          .openCursor(IDBKeyRange.only(id));
+
+        childrenRequest.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result;
+          if (cursor) {
+            cursor.update({ ...cursor.value, parentId: task?.parentId });
+            cursor.continue();
+          }
+        };
+        store.delete(id);
+      };
+
+      // Delete dependencies on either side of the task
+      const dependencyStore = transaction.objectStore(DEPENDENCIES_STORE);
+      ["predecessorId", "successorId"].forEach((indexName) => {
+        const request = dependencyStore
+          .index(indexName)
+          .openCursor(IDBKeyRange.only(id));
+
+        request.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result;
+          if (cursor) {
+            cursor.delete();
+            cursor.continue();
+          }
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
@@ -393,6 +591,32 @@ class IndexedDBManager {
       getRequest.onerror = () => reject(getRequest.error);
     });
   }
+  async updateGroups(
+    groups: (Partial<TaskGroup> & { id: string })[]
+  ): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([GROUPS_STORE], "readwrite");
+      const store = transaction.objectStore(GROUPS_STORE);
+
+      groups.forEach((group) => {
+        const getRequest = store.get(group.id);
+        getRequest.onsuccess = () => {
+          const existingGroup = getRequest.result;
+          if (existingGroup) {
+            store.put({ ...existingGroup, ...group });
+          } else {
+            transaction.abort();
+          }
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () =>
+        reject(transaction.error || new Error("Group not found"));
+    });
+  }
 
   async deleteGroup(id: string): Promise<void> {
     const db = this.ensureDB();
@@ -475,6 +699,249 @@ class IndexedDBManager {
       request.onsuccess = () => resolve(request.result || null);
     });
   }
+
+  // Dependency operations
+  async addDependency(dependency: TaskDependency): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DEPENDENCIES_STORE], "readwrite");
+      const store = transaction.objectStore(DEPENDENCIES_STORE);
+      const request = store.add(dependency);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async updateDependency(
+    dependency: Partial<TaskDependency> & { id: string }
+  ): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DEPENDENCIES_STORE], "readwrite");
+      const store = transaction.objectStore(DEPENDENCIES_STORE);
+
+      const getRequest = store.get(dependency.id);
+      getRequest.onsuccess = () => {
+        const existingDependency = getRequest.result;
+        if (existingDependency) {
+          const updatedDependency = { ...existingDependency, ...dependency };
+          const putRequest = store.put(updatedDependency);
+          putRequest.onerror = () => reject(putRequest.error);
+          putRequest.onsuccess = () => resolve();
+        } else {
+          reject(new Error("Dependency not found"));
+        }
+      };
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
+  async deleteDependency(id: string): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DEPENDENCIES_STORE], "readwrite");
+      const store = transaction.objectStore(DEPENDENCIES_STORE);
+      const request = store.delete(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getDependenciesByProject(projectId: string): Promise<TaskDependency[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DEPENDENCIES_STORE], "readonly");
+      const store = transaction.objectStore(DEPENDENCIES_STORE);
+      const index = store.index("projectId");
+      const request = index.getAll(projectId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  // Resource operations
+  async addResource(resource: Resource): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RESOURCES_STORE], "readwrite");
+      const store = transaction.objectStore(RESOURCES_STORE);
+      const request = store.add(resource);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async updateResource(
+    resource: Partial<Resource> & { id: string }
+  ): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RESOURCES_STORE], "readwrite");
+      const store = transaction.objectStore(RESOURCES_STORE);
+
+      const getRequest = store.get(resource.id);
+      getRequest.onsuccess = () => {
+        const existingResource = getRequest.result;
+        if (existingResource) {
+          const updatedResource = { ...existingResource, ...resource };
+          const putRequest = store.put(updatedResource);
+          putRequest.onerror = () => reject(putRequest.error);
+          putRequest.onsuccess = () => resolve();
+        } else {
+          reject(new Error("Resource not found"));
+        }
+      };
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
+  async deleteResource(id: string): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [RESOURCES_STORE, TASKS_STORE],
+        "readwrite"
+      );
+      const store = transaction.objectStore(RESOURCES_STORE);
+
+      // Unassign the resource from the tasks of its project
+      const getRequest = store.get(id);
+      getRequest.onsuccess = () => {
+        const resource = getRequest.result as Resource | undefined;
+        if (!resource) return;
+
+        const taskRequest = transaction
+          .objectStore(TASKS_STORE)
+          .index("projectId")
+          .openCursor(IDBKeyRange.only(resource.projectId));
+
+        taskRequest.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result;
+          if (cursor) {
+            const task = cursor.value as GanttTask;
+            if (task.assignments?.some((a) => a.resourceId === id)) {
+              cursor.update({
+                ...task,
+                assignments: task.assignments.filter(
+                  (a) => a.resourceId !== id
+                ),
+              });
+            }
+            cursor.continue();
+          }
+        };
+        store.delete(id);
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getResourcesByProject(projectId: string): Promise<Resource[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RESOURCES_STORE], "readonly");
+      const store = transaction.objectStore(RESOURCES_STORE);
+      const index = store.index("projectId");
+      const request = index.getAll(projectId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  // Baseline operations
+  async addBaseline(baseline: Baseline): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([BASELINES_STORE], "readwrite");
+      const store = transaction.objectStore(BASELINES_STORE);
+      const request = store.add(baseline);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async updateBaseline(
+    baseline: Partial<Baseline> & { id: string }
+  ): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([BASELINES_STORE], "readwrite");
+      const store = transaction.objectStore(BASELINES_STORE);
+
+      const getRequest = store.get(baseline.id);
+      getRequest.onsuccess = () => {
+        const existingBaseline = getRequest.result;
+        if (existingBaseline) {
+          const putRequest = store.put({ ...existingBaseline, ...baseline });
+          putRequest.onerror = () => reject(putRequest.error);
+          putRequest.onsuccess = () => resolve();
+        } else {
+          reject(new Error("Baseline not found"));
+        }
+      };
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
+  async deleteBaseline(id: string): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([BASELINES_STORE], "readwrite");
+      const store = transaction.objectStore(BASELINES_STORE);
+      const request = store.delete(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getBaselinesByProject(projectId: string): Promise<Baseline[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([BASELINES_STORE], "readonly");
+      const store = transaction.objectStore(BASELINES_STORE);
+      const index = store.index("projectId");
+      const request = index.getAll(projectId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  // Put or delete records across every store in one transaction, so an
+  // undo or redo step is applied completely or not at all. A null value
+  // deletes the record.
+  async restoreRecords(records: RecordValue[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const storeNames = [...new Set(records.map((record) => record.store))];
+      const transaction = db.transaction(storeNames, "readwrite");
+
+      records.forEach((record) => {
+        const store = transaction.objectStore(record.store);
+        if (record.value) {
+          store.put(record.value);
+        } else {
+          store.delete(record.id);
+        }
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () =>
+        reject(transaction.error || new Error("Restore aborted"));
+    });
+  }
 }
 
 export const dbManager = new IndexedDBManager();
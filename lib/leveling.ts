@@ -0,0 +1,303 @@
+import jMoment from "jalali-moment";
+import {
+  GanttTask,
+  Resource,
+  TaskDependency,
+  TaskUpdatePayload,
+  WorkCalendar,
+} from "./types";
+import { getPriorityRank } from "./priority";
+import { OVERLOAD_TOLERANCE } from "./resources";
+import {
+  getRequiredStart,
+  getTaskDuration,
+  getTaskSpan,
+  moveTaskStart,
+  planTaskChanges,
+} from "./scheduling";
+import {
+  DEFAULT_WORK_CALENDAR,
+  addDays,
+  getDayKey,
+  isWorkingDay,
+} from "./work-calendar";
+
+// How far a task may be pushed back while looking for free capacity; a task
+// that finds none within it stays where its predecessors allow
+const MAX_LEVELING_DELAY_DAYS = 3650;
+
+// A task whose dates change when the project is leveled
+export interface LevelingMove {
+  taskId: string;
+  fromStart: Date;
+  fromEnd: Date;
+  toStart: Date;
+  toEnd: Date;
+  delayDays: number; // Calendar days the start moves by
+}
+
+export interface LevelingPlan {
+  updates: (Partial<GanttTask> & { id: string })[];
+  moves: LevelingMove[];
+}
+
+const startOfDay = (date: Date) => jMoment(date).startOf("day");
+
+/**
+ * Delay tasks until no resource is booked above its daily capacity.
+ *
+ * Tasks are placed one at a time: pinned tasks first, where they are, then
+ * the most important task whose predecessors have been placed, earliest
+ * start first among equals. Each task starts no earlier than its current
+ * start and what its placed predecessors require, and is pushed back to the
+ * first working day from which every one of its working days leaves its
+ * assignees within capacity. Tasks only ever move later and keep their
+ * length in working days.
+ *
+ * A task that overloads a resource on its own only waits for a day the
+ * resource is otherwise free. Summary tasks are rolled up, and successors
+ * of moved summary tasks pushed, after leveling.
+ */
+export const planResourceLeveling = (
+  tasks: GanttTask[],
+  dependencies: TaskDependency[],
+  resources: Resource[],
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): LevelingPlan => {
+  const resourcesById = new Map(resources.map((r) => [r.id, r]));
+  const parentIds = new Set(tasks.map((task) => task.parentId));
+  const leaves = tasks.filter((task) => !parentIds.has(task.id));
+  const leafIds = new Set(leaves.map((task) => task.id));
+  const links = dependencies.filter(
+    (d) => leafIds.has(d.predecessorId) && leafIds.has(d.successorId)
+  );
+
+  // Hours booked per resource and day, keyed by getDayKey
+  const loads = new Map<string, Map<number, number>>(
+    resources.map((resource) => [resource.id, new Map()])
+  );
+  const placed = new Map<string, GanttTask>();
+
+  // Whether a date is worked is looked up once per date, as the calendar
+  // check formats Jalali dates
+  const workingDays = new Map<number, boolean>();
+  const isWorkingDate = (date: Date) => {
+    const key = getDayKey(date);
+    let isWorking = workingDays.get(key);
+    if (isWorking === undefined) {
+      isWorking = isWorkingDay(date, calendar);
+      workingDays.set(key, isWorking);
+    }
+    return isWorking;
+  };
+
+  // Lengths in working days, which leveling keeps
+  const durations = new Map(
+    leaves.map((task) => [
+      task.id,
+      task.type === "milestone" ? 0 : getTaskDuration(task, calendar),
+    ])
+  );
+
+  // Working days a task books when it starts on the given day: as many as
+  // its length in working days, or those of its span for a task that lies
+  // wholly on non-working days
+  const getBookedDays = (task: GanttTask, start: Date): Date[] => {
+    if (task.type === "milestone") return [];
+    const days: Date[] = [];
+    const duration = durations.get(task.id)!;
+    if (duration > 0) {
+      for (let day = start; days.length < duration; day = addDays(day, 1)) {
+        if (isWorkingDate(day)) days.push(day);
+      }
+    } else {
+      for (let offset = 0; offset <= getTaskSpan(task); offset++) {
+        const day = addDays(start, offset);
+        if (isWorkingDate(day)) days.push(day);
+      }
+    }
+    return days;
+  };
+
+  const getDailyHours = (task: GanttTask) =>
+    (task.assignments || []).flatMap((assignment) => {
+      const resource = resourcesById.get(assignment.resourceId);
+      return resource
+        ? [
+            {
+              resource,
+              hours: (resource.capacity * assignment.allocation) / 100,
+            },
+          ]
+        : [];
+    });
+
+  const hasCapacity = (
+    day: Date,
+    dailyHours: ReturnType<typeof getDailyHours>
+  ) => {
+    const key = getDayKey(day);
+    return dailyHours.every(({ resource, hours }) => {
+      const booked = loads.get(resource.id)!.get(key) || 0;
+      return (
+        booked === 0 || booked + hours <= resource.capacity + OVERLOAD_TOLERANCE
+      );
+    });
+  };
+
+  // Successor links per task, and how many of its predecessors are not
+  // placed yet
+  const successorLinks = new Map<string, TaskDependency[]>();
+  const predecessorLinks = new Map<string, TaskDependency[]>();
+  links.forEach((link) => {
+    successorLinks.set(link.predecessorId, [
+      ...(successorLinks.get(link.predecessorId) || []),
+      link,
+    ]);
+    predecessorLinks.set(link.successorId, [
+      ...(predecessorLinks.get(link.successorId) || []),
+      link,
+    ]);
+  });
+  const unplacedPredecessors = new Map(
+    leaves.map((task) => [task.id, predecessorLinks.get(task.id)?.length || 0])
+  );
+  const pending = new Map(leaves.map((task) => [task.id, task]));
+  const ready = new Map<string, GanttTask>();
+
+  const place = (task: GanttTask, days: Date[]) => {
+    placed.set(task.id, task);
+    pending.delete(task.id);
+    ready.delete(task.id);
+    const dailyHours = getDailyHours(task);
+    days.forEach((day) => {
+      const key = getDayKey(day);
+      dailyHours.forEach(({ resource, hours }) => {
+        const resourceLoads = loads.get(resource.id)!;
+        resourceLoads.set(key, (resourceLoads.get(key) || 0) + hours);
+      });
+    });
+
+    (successorLinks.get(task.id) || []).forEach((link) => {
+      const remaining = unplacedPredecessors.get(link.successorId)! - 1;
+      unplacedPredecessors.set(link.successorId, remaining);
+      const successor = pending.get(link.successorId);
+      if (remaining === 0 && successor) ready.set(successor.id, successor);
+    });
+  };
+
+  // Pinned tasks never move, so they claim their capacity first
+  leaves
+    .filter((task) => task.isPinned)
+    .forEach((task) => place(task, getBookedDays(task, task.startDate)));
+  pending.forEach((task) => {
+    if (unplacedPredecessors.get(task.id) === 0) ready.set(task.id, task);
+  });
+
+  // Ties keep the order of the task list
+  const leafIndexes = new Map(leaves.map((task, index) => [task.id, index]));
+  const isMoreUrgent = (a: GanttTask, b: GanttTask) => {
+    const rankDifference = getPriorityRank(a) - getPriorityRank(b);
+    if (rankDifference !== 0) return rankDifference > 0;
+    const startDifference = a.startDate.getTime() - b.startDate.getTime();
+    if (startDifference !== 0) return startDifference < 0;
+    return leafIndexes.get(a.id)! < leafIndexes.get(b.id)!;
+  };
+
+  while (pending.size > 0) {
+    // Tasks caught in a dependency cycle are placed by priority alone
+    const candidates = (ready.size > 0 ? ready : pending).values();
+    let best: GanttTask | null = null;
+    for (const candidate of candidates) {
+      if (!best || isMoreUrgent(candidate, best)) best = candidate;
+    }
+    if (!best) break;
+    const task = best;
+
+    let earliestStart = task.startDate;
+    (predecessorLinks.get(task.id) || []).forEach((link) => {
+      const predecessor = placed.get(link.predecessorId);
+      if (!predecessor) return;
+      const requiredStart = getRequiredStart(predecessor, task, link, calendar);
+      if (startOfDay(requiredStart).isAfter(startOfDay(earliestStart))) {
+        earliestStart = requiredStart;
+      }
+    });
+
+    // A start that books an overloaded day fits no better than any later
+    // start up to that day, so the search skips past it
+    const dailyHours = getDailyHours(task);
+    const lastStart = addDays(earliestStart, MAX_LEVELING_DELAY_DAYS);
+    let start = earliestStart;
+    let days = getBookedDays(task, start);
+    for (;;) {
+      const overloaded = days.find((day) => !hasCapacity(day, dailyHours));
+      if (!overloaded) break;
+      let next = addDays(overloaded, 1);
+      while (!isWorkingDate(next) && next <= lastStart) {
+        next = addDays(next, 1);
+      }
+      if (next > lastStart) {
+        start = earliestStart;
+        days = getBookedDays(task, start);
+        break;
+      }
+      start = next;
+      days = getBookedDays(task, start);
+    }
+
+    // Later starts keep the time of day of the earliest one
+    const leveledStart =
+      start === earliestStart
+        ? earliestStart
+        : jMoment(earliestStart)
+            .add(jMoment(start).diff(startOfDay(earliestStart), "days"), "days")
+            .toDate();
+    place({ ...task, ...moveTaskStart(task, leveledStart, calendar) }, days);
+  }
+
+  const changes: TaskUpdatePayload[] = leaves
+    .filter(
+      (task) =>
+        placed.get(task.id)!.startDate.getTime() !== task.startDate.getTime()
+    )
+    .map((task) => ({
+      id: task.id,
+      startDate: placed.get(task.id)!.startDate,
+      endDate: placed.get(task.id)!.endDate,
+    }));
+
+  const updates = planTaskChanges(
+    tasks,
+    dependencies,
+    changes,
+    changes.map((change) => change.id),
+    calendar
+  );
+
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const moves = updates.flatMap((update): LevelingMove[] => {
+    const task = tasksById.get(update.id);
+    if (!task || (!update.startDate && !update.endDate)) return [];
+    const toStart = update.startDate || task.startDate;
+    const toEnd = update.endDate || task.endDate;
+    if (
+      toStart.getTime() === task.startDate.getTime() &&
+      toEnd.getTime() === task.endDate.getTime()
+    ) {
+      return [];
+    }
+    return [
+      {
+        taskId: task.id,
+        fromStart: task.startDate,
+        fromEnd: task.endDate,
+        toStart,
+        toEnd,
+        delayDays: startOfDay(toStart).diff(startOfDay(task.startDate), "days"),
+      },
+    ];
+  });
+
+  return { updates, moves };
+};
@@ -1,4 +1,6 @@
 import moment from "jalali-moment";
+import { WorkCalendar } from "./types";
+import { DEFAULT_WORK_CALENDAR, countWorkingDays } from "./work-calendar";
 
 export interface PersianDate {
   year: number;
@@ -128,7 +130,7 @@ export function diffDays(startDate: string, endDate: string): number {
  */
 export function isWeekend(persianDate: string): boolean {
   const m = moment(persianDate, "jYYYY/jMM/jDD");
-  const dayOfWeek = m.day(); // 0 = Saturday, 6 = Friday
+  const dayOfWeek = m.day(); // 0 = Sunday, 6 = Saturday
   return dayOfWeek === 4 || dayOfWeek === 5; // Thursday or Friday
 }
 
@@ -291,25 +293,17 @@ export function isValidPersianDate(dateString: string): boolean {
 }
 
 /**
- * Get working days between two dates
+ * Get working days between two dates (inclusive), skipping weekends and
+ * holidays of the work calendar
  */
 export function getWorkingDays(
   startDate: string,
   endDate: string,
-  workingDays: number[] = [1, 2, 3, 4, 5] // Monday to Friday
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
 ): number {
-  let workingDaysCount = 0;
-  const start = moment(startDate, "jYYYY/jMM/jDD");
-  const end = moment(endDate, "jYYYY/jMM/jDD");
-
-  const current = start.clone();
-  while (current.isSameOrBefore(end)) {
-    const dayOfWeek = (current.day() + 1) % 7; // Convert to Monday = 1, Sunday = 0
-    if (workingDays.includes(dayOfWeek)) {
-      workingDaysCount++;
-    }
-    current.add(1, "day");
-  }
-
-  return workingDaysCount;
+  return countWorkingDays(
+    fromPersianDate(startDate),
+    fromPersianDate(endDate),
+    calendar
+  );
 }
@@ -0,0 +1,32 @@
+import { GanttTask, TaskPriority } from "./types";
+
+// From the least to the most important
+export const TASK_PRIORITIES: TaskPriority[] = [
+  "low",
+  "normal",
+  "high",
+  "urgent",
+];
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: "کم",
+  normal: "عادی",
+  high: "زیاد",
+  urgent: "فوری",
+};
+
+export const TASK_PRIORITY_COLORS: Record<TaskPriority, string> = {
+  low: "#9ca3af",
+  normal: "#3b82f6",
+  high: "#f59e0b",
+  urgent: "#ef4444",
+};
+
+export const DEFAULT_TASK_PRIORITY: TaskPriority = "normal";
+
+/**
+ * Rank of a task's priority, higher for more important tasks
+ */
+export const getPriorityRank = (task: GanttTask): number => {
+  return TASK_PRIORITIES.indexOf(task.priority || DEFAULT_TASK_PRIORITY);
+};
@@ -0,0 +1,176 @@
+import jMoment from "jalali-moment";
+import { GanttConfig, GanttTask, Resource } from "./types";
+import { getTimelineColumnRanges, isMilestone } from "./gantt-utils";
+import {
+  DEFAULT_WORK_CALENDAR,
+  getDayKey,
+  isWorkingDay,
+} from "./work-calendar";
+
+// Default share of a resource's day given to a new assignment
+export const DEFAULT_ALLOCATION = 100;
+
+// Working hours per day of a new resource
+export const DEFAULT_CAPACITY = 8;
+
+/**
+ * One or two letters for a resource avatar: the first letters of the first
+ * two words of the name
+ */
+export const getInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "?";
+  // Joined with a zero-width non-joiner, so Persian letters stay apart
+  return words
+    .slice(0, 2)
+    .map((word) => word[0])
+    .join("‌");
+};
+
+/**
+ * The resources assigned to a task, in assignment order. Assignments of
+ * deleted resources are skipped.
+ */
+export const getTaskAssignees = (
+  task: GanttTask,
+  resourcesById: Map<string, Resource>
+): { resource: Resource; allocation: number }[] => {
+  return (task.assignments || []).flatMap((assignment) => {
+    const resource = resourcesById.get(assignment.resourceId);
+    return resource ? [{ resource, allocation: assignment.allocation }] : [];
+  });
+};
+
+// Assignee filter value for tasks without any assignee
+export const UNASSIGNED_FILTER = "unassigned";
+
+/**
+ * Whether a task passes the task list's assignee filter: a resource id,
+ * UNASSIGNED_FILTER or "all"
+ */
+export const matchesAssigneeFilter = (
+  task: GanttTask,
+  filter: string
+): boolean => {
+  if (filter === "all") return true;
+  if (filter === UNASSIGNED_FILTER) return !task.assignments?.length;
+  return !!task.assignments?.some(
+    (assignment) => assignment.resourceId === filter
+  );
+};
+
+// Load above capacity by less than this many hours is rounding, not overload.
+// Leveling uses it too, so both agree on what counts as overloaded.
+export const OVERLOAD_TOLERANCE = 0.01;
+
+export interface WorkloadCell {
+  hours: number; // Work assigned to the resource in the column
+  capacity: number; // Resource hours available on the column's working days
+  isOverallocated: boolean; // Some day in the column is over capacity
+}
+
+export interface ProjectWorkload {
+  // One cell per timeline column, for each resource
+  cells: Map<string, WorkloadCell[]>;
+  // Tasks that run on a day when one of their assignees is over capacity,
+  // with those assignees
+  overallocatedTasks: Map<string, Resource[]>;
+}
+
+/**
+ * Each resource's load in hours per timeline column, and the tasks that put
+ * a resource over its daily capacity. An assignment takes `allocation`
+ * percent of the resource's capacity on every working day of the task.
+ * Summary tasks and milestones carry no work of their own.
+ */
+export const getProjectWorkload = (
+  tasks: GanttTask[],
+  resources: Resource[],
+  config: GanttConfig
+): ProjectWorkload => {
+  const calendar = config.calendar || DEFAULT_WORK_CALENDAR;
+  const resourcesById = new Map(resources.map((r) => [r.id, r]));
+  const parentIds = new Set(tasks.map((task) => task.parentId));
+
+  // Hours and tasks per resource and day
+  const dayLoads = new Map<
+    string,
+    Map<number, { hours: number; taskIds: string[] }>
+  >(resources.map((resource) => [resource.id, new Map()]));
+
+  tasks.forEach((task) => {
+    if (!task.assignments?.length) return;
+    if (parentIds.has(task.id) || isMilestone(task)) return;
+
+    const current = jMoment(task.startDate).startOf("day");
+    const end = jMoment(task.endDate).startOf("day");
+    while (current.isSameOrBefore(end)) {
+      if (isWorkingDay(current.toDate(), calendar)) {
+        const dayKey = getDayKey(current.toDate());
+        task.assignments.forEach((assignment) => {
+          const resource = resourcesById.get(assignment.resourceId);
+          if (!resource) return;
+          const loads = dayLoads.get(resource.id)!;
+          const load = loads.get(dayKey) || { hours: 0, taskIds: [] };
+          load.hours += (resource.capacity * assignment.allocation) / 100;
+          load.taskIds.push(task.id);
+          loads.set(dayKey, load);
+        });
+      }
+      current.add(1, "day");
+    }
+  });
+
+  // Every task on an overloaded day shares the blame
+  const overallocatedTasks = new Map<string, Resource[]>();
+  resources.forEach((resource) => {
+    dayLoads.get(resource.id)!.forEach((load) => {
+      if (load.hours <= resource.capacity + OVERLOAD_TOLERANCE) return;
+      load.taskIds.forEach((taskId) => {
+        const assignees = overallocatedTasks.get(taskId) || [];
+        if (!assignees.includes(resource)) {
+          overallocatedTasks.set(taskId, [...assignees, resource]);
+        }
+      });
+    });
+  });
+
+  // Working days of each timeline column, worked out once for all resources
+  const columnDays = getTimelineColumnRanges(config).map(({ start, end }) => {
+    const days: number[] = [];
+    const current = jMoment(start);
+    while (current.isBefore(end)) {
+      if (isWorkingDay(current.toDate(), calendar)) {
+        days.push(getDayKey(current.toDate()));
+      }
+      current.add(1, "day");
+    }
+    return days;
+  });
+
+  const cells = new Map<string, WorkloadCell[]>();
+  resources.forEach((resource) => {
+    const loads = dayLoads.get(resource.id)!;
+    cells.set(
+      resource.id,
+      columnDays.map((days) => {
+        let hours = 0;
+        let isOverallocated = false;
+        days.forEach((day) => {
+          const dayHours = loads.get(day)?.hours || 0;
+          hours += dayHours;
+          if (dayHours > resource.capacity + OVERLOAD_TOLERANCE) {
+            isOverallocated = true;
+          }
+        });
+        return {
+          hours,
+          capacity: resource.capacity * days.length,
+          isOverallocated,
+        };
+      })
+    );
+  });
+
+  return { cells, overallocatedTasks };
+};
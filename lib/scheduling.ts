@@ -0,0 +1,517 @@
+import jMoment from "jalali-moment";
+import {
+  GanttTask,
+  TaskDependency,
+  TaskUpdatePayload,
+  WorkCalendar,
+} from "./types";
+import { getChildrenMap, rollupSummaryTasks } from "./task-hierarchy";
+import {
+  DEFAULT_WORK_CALENDAR,
+  countWorkingDays,
+  createWorkingDayIndex,
+  getWorkingEndDate,
+} from "./work-calendar";
+
+const startOfDay = (date: Date) => jMoment(date).startOf("day");
+
+/**
+ * Task length in days, not counting the start day (0 for a one-day task)
+ */
+export const getTaskSpan = (task: GanttTask): number => {
+  return startOfDay(task.endDate).diff(startOfDay(task.startDate), "days");
+};
+
+/**
+ * Task length in working days of the calendar, counting both ends
+ */
+export const getTaskDuration = (
+  task: GanttTask,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): number => {
+  return countWorkingDays(task.startDate, task.endDate, calendar);
+};
+
+/**
+ * Dates of a task moved to a new start. The task keeps its length in
+ * working days, so the end date skips weekends and holidays. Milestones and
+ * tasks that lie wholly on non-working days keep their length in days.
+ */
+export const moveTaskStart = (
+  task: GanttTask,
+  startDate: Date,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): { startDate: Date; endDate: Date } => {
+  const duration =
+    task.type === "milestone" ? 0 : getTaskDuration(task, calendar);
+  const endDate =
+    duration > 0
+      ? getWorkingEndDate(startDate, duration, calendar)
+      : jMoment(startDate).add(getTaskSpan(task), "days").toDate();
+  return { startDate, endDate };
+};
+
+export interface TaskScheduleInfo {
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  totalFloat: number; // In working days
+  freeFloat: number; // In working days
+  isCritical: boolean;
+}
+
+/**
+ * Earliest successor start (as a day number) implied by one dependency.
+ * End dates are inclusive, so finish-to-start means the successor starts
+ * the day after the predecessor ends.
+ */
+const getRequiredStartDay = (
+  dependency: TaskDependency,
+  predecessorStart: number,
+  predecessorEnd: number,
+  successorSpan: number
+): number => {
+  switch (dependency.type) {
+    case "SS":
+      return predecessorStart + dependency.lag;
+    case "FF":
+      return predecessorEnd + dependency.lag - successorSpan;
+    case "SF":
+      return predecessorStart + dependency.lag - 1 - successorSpan;
+    case "FS":
+    default:
+      return predecessorEnd + dependency.lag + 1;
+  }
+};
+
+/**
+ * Latest predecessor finish (as a day number) one dependency allows without
+ * delaying the successor's late dates
+ */
+const getAllowedFinishDay = (
+  dependency: TaskDependency,
+  successorLateStart: number,
+  successorLateFinish: number,
+  predecessorSpan: number
+): number => {
+  switch (dependency.type) {
+    case "SS":
+      return successorLateStart - dependency.lag + predecessorSpan;
+    case "FF":
+      return successorLateFinish - dependency.lag;
+    case "SF":
+      return successorLateFinish - dependency.lag + 1 + predecessorSpan;
+    case "FS":
+    default:
+      return successorLateStart - dependency.lag - 1;
+  }
+};
+
+/**
+ * Task length in working days, not counting the start day (0 for a one-day
+ * task, a milestone or a task wholly on non-working days)
+ */
+const getWorkingSpan = (
+  task: GanttTask,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): number => {
+  if (task.type === "milestone") return 0;
+  return Math.max(0, getTaskDuration(task, calendar) - 1);
+};
+
+/**
+ * Earliest start a single dependency allows for its successor, keeping the
+ * successor's current length. Lags count working days, so the start is
+ * always a working day.
+ */
+export const getRequiredStart = (
+  predecessor: GanttTask,
+  successor: GanttTask,
+  dependency: TaskDependency,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): Date => {
+  const workingDays = createWorkingDayIndex(predecessor.startDate, calendar);
+  return workingDays.toDate(
+    getRequiredStartDay(
+      dependency,
+      workingDays.toNumber(predecessor.startDate, "next"),
+      workingDays.toNumber(predecessor.endDate, "previous"),
+      getWorkingSpan(successor, calendar)
+    )
+  );
+};
+
+/**
+ * Order the given task ids so every predecessor comes before its successors.
+ * Links into or out of the set are ignored; tasks caught in a cycle are
+ * appended in their original order.
+ */
+export const topologicalSort = (
+  taskIds: string[],
+  dependencies: TaskDependency[]
+): string[] => {
+  const idSet = new Set(taskIds);
+  const inDegree = new Map(taskIds.map((id) => [id, 0]));
+  const successors = new Map<string, string[]>();
+
+  dependencies.forEach((dependency) => {
+    if (!idSet.has(dependency.predecessorId)) return;
+    if (!idSet.has(dependency.successorId)) return;
+    inDegree.set(
+      dependency.successorId,
+      (inDegree.get(dependency.successorId) || 0) + 1
+    );
+    successors.set(dependency.predecessorId, [
+      ...(successors.get(dependency.predecessorId) || []),
+      dependency.successorId,
+    ]);
+  });
+
+  const queue = taskIds.filter((id) => inDegree.get(id) === 0);
+  const ordered: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    ordered.push(id);
+    (successors.get(id) || []).forEach((successorId) => {
+      const remaining = (inDegree.get(successorId) || 0) - 1;
+      inDegree.set(successorId, remaining);
+      if (remaining === 0) queue.push(successorId);
+    });
+  }
+
+  if (ordered.length < taskIds.length) {
+    const orderedSet = new Set(ordered);
+    ordered.push(...taskIds.filter((id) => !orderedSet.has(id)));
+  }
+
+  return ordered;
+};
+
+/**
+ * Forward pass from the changed tasks: push every downstream task that now
+ * starts earlier than its dependencies allow, keeping its length in working
+ * days. Pushed tasks start on a working day. Changed tasks, their
+ * predecessors, pinned tasks and summary tasks (whose dates come from their
+ * children) keep their dates.
+ */
+export const propagateSchedule = (
+  tasks: GanttTask[],
+  dependencies: TaskDependency[],
+  changedTaskIds: string[],
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): TaskUpdatePayload[] => {
+  const tasksById = new Map(tasks.map((task) => [task.id, { ...task }]));
+  const parentIds = new Set(tasks.map((task) => task.parentId));
+
+  // Collect every task reachable from the changed ones
+  const affected = new Set<string>();
+  const stack = [...changedTaskIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    dependencies
+      .filter((dependency) => dependency.predecessorId === id)
+      .forEach((dependency) => {
+        if (!affected.has(dependency.successorId)) {
+          affected.add(dependency.successorId);
+          stack.push(dependency.successorId);
+        }
+      });
+  }
+  changedTaskIds.forEach((id) => affected.delete(id));
+
+  const updates = new Map<string, TaskUpdatePayload>();
+  const ordered = topologicalSort(
+    [...changedTaskIds, ...affected],
+    dependencies
+  );
+
+  ordered.forEach((id) => {
+    if (!affected.has(id)) return;
+
+    const task = tasksById.get(id);
+    if (!task || task.isPinned || parentIds.has(id)) return;
+
+    let requiredStart: Date | null = null;
+    for (const dependency of dependencies) {
+      if (dependency.successorId !== id) continue;
+      const predecessor = tasksById.get(dependency.predecessorId);
+      if (!predecessor) continue;
+      const start = getRequiredStart(predecessor, task, dependency, calendar);
+      if (!requiredStart || start > requiredStart) {
+        requiredStart = start;
+      }
+    }
+
+    if (!requiredStart) return;
+
+    const shift = startOfDay(requiredStart).diff(
+      startOfDay(task.startDate),
+      "days"
+    );
+    if (shift <= 0) return;
+
+    Object.assign(
+      task,
+      moveTaskStart(
+        task,
+        jMoment(task.startDate).add(shift, "days").toDate(),
+        calendar
+      )
+    );
+    updates.set(id, {
+      id,
+      startDate: task.startDate,
+      endDate: task.endDate,
+    });
+  });
+
+  return [...updates.values()];
+};
+
+/**
+ * Work out every task change that follows from the given ones: successors
+ * are pushed, summary tasks are rolled up, and summary tasks whose dates
+ * moved push their own successors in turn, until nothing changes.
+ */
+export const planTaskChanges = (
+  tasks: GanttTask[],
+  dependencies: TaskDependency[],
+  changes: (Partial<GanttTask> & { id: string })[],
+  scheduleRoots: string[],
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): (Partial<GanttTask> & { id: string })[] => {
+  const tasksById = new Map(tasks.map((task) => [task.id, { ...task }]));
+  const planned = new Map<string, Partial<GanttTask> & { id: string }>();
+
+  const apply = (list: (Partial<GanttTask> & { id: string })[]) => {
+    list.forEach((change) => {
+      const task = tasksById.get(change.id);
+      if (!task) return;
+      Object.assign(task, change);
+      planned.set(change.id, { ...planned.get(change.id), ...change });
+    });
+  };
+
+  apply(changes);
+
+  // Every pass only moves dates later, so this settles within a pass per task
+  let roots = scheduleRoots;
+  for (let pass = 0; pass <= tasks.length; pass++) {
+    if (roots.length > 0) {
+      apply(
+        propagateSchedule(
+          [...tasksById.values()],
+          dependencies,
+          roots,
+          calendar
+        )
+      );
+    }
+
+    const rollup = rollupSummaryTasks([...tasksById.values()]);
+    roots = rollup
+      .filter((change) => {
+        const task = tasksById.get(change.id)!;
+        return (
+          task.startDate.getTime() !== change.startDate!.getTime() ||
+          task.endDate.getTime() !== change.endDate!.getTime()
+        );
+      })
+      .map((change) => change.id);
+    apply(rollup);
+
+    if (roots.length === 0) break;
+  }
+
+  return [...planned.values()];
+};
+
+/**
+ * Critical path method over the leaf tasks, in working days of the
+ * calendar: a forward pass for early dates (a task never starts before its
+ * scheduled start), a backward pass from the project finish for late dates,
+ * and total/free float per task. Tasks without float drive the project end
+ * date and are marked critical.
+ *
+ * Summary tasks are not scheduled themselves. A link from a summary task
+ * stands for links from the subtasks that finish it (FS, FF) or start it
+ * (SS, SF); links into one are left out, as they push nothing. A summary
+ * task gets the outer dates and least float of its subtasks, so it is
+ * critical only when one of them is.
+ */
+export const computeCriticalPath = (
+  tasks: GanttTask[],
+  dependencies: TaskDependency[],
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): Map<string, TaskScheduleInfo> => {
+  const result = new Map<string, TaskScheduleInfo>();
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const parentIds = new Set(tasks.map((task) => task.parentId));
+  const leaves = tasks.filter((task) => !parentIds.has(task.id));
+  if (leaves.length === 0) return result;
+
+  // Leaf tasks under each summary task, at any depth
+  const children = getChildrenMap(tasks);
+  const subtasksById = new Map<string, GanttTask[]>();
+  const getSubtasks = (id: string): GanttTask[] => {
+    const cached = subtasksById.get(id);
+    if (cached) return cached;
+    subtasksById.set(id, []);
+    const subtasks = (children.get(id) || []).flatMap((child) =>
+      parentIds.has(child.id) ? getSubtasks(child.id) : [child]
+    );
+    subtasksById.set(id, subtasks);
+    return subtasks;
+  };
+
+  const links = dependencies.flatMap((dependency): TaskDependency[] => {
+    const predecessor = tasksById.get(dependency.predecessorId);
+    const successor = tasksById.get(dependency.successorId);
+    if (!predecessor || !successor || parentIds.has(successor.id)) return [];
+    if (!parentIds.has(predecessor.id)) return [dependency];
+
+    const subtasks = getSubtasks(predecessor.id);
+    const fromStart = dependency.type === "SS" || dependency.type === "SF";
+    const firstStart = Math.min(
+      ...subtasks.map((task) => startOfDay(task.startDate).valueOf())
+    );
+    return subtasks
+      .filter(
+        (task) =>
+          !fromStart || startOfDay(task.startDate).valueOf() === firstStart
+      )
+      .map((task) => ({ ...dependency, predecessorId: task.id }));
+  });
+
+  const incoming = new Map<string, TaskDependency[]>();
+  const outgoing = new Map<string, TaskDependency[]>();
+  links.forEach((dependency) => {
+    incoming.set(dependency.successorId, [
+      ...(incoming.get(dependency.successorId) || []),
+      dependency,
+    ]);
+    outgoing.set(dependency.predecessorId, [
+      ...(outgoing.get(dependency.predecessorId) || []),
+      dependency,
+    ]);
+  });
+
+  // Work in working days numbered from the earliest task start
+  const workingDays = createWorkingDayIndex(
+    new Date(Math.min(...leaves.map((task) => task.startDate.getTime()))),
+    calendar
+  );
+  const spans = new Map(
+    leaves.map((task) => [task.id, getWorkingSpan(task, calendar)])
+  );
+  const ordered = topologicalSort(
+    leaves.map((task) => task.id),
+    links
+  );
+
+  // Forward pass
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  ordered.forEach((id) => {
+    let start = workingDays.toNumber(tasksById.get(id)!.startDate, "next");
+    (incoming.get(id) || []).forEach((dependency) => {
+      const predecessorId = dependency.predecessorId;
+      if (!earlyStart.has(predecessorId)) return;
+      start = Math.max(
+        start,
+        getRequiredStartDay(
+          dependency,
+          earlyStart.get(predecessorId)!,
+          earlyFinish.get(predecessorId)!,
+          spans.get(id)!
+        )
+      );
+    });
+    earlyStart.set(id, start);
+    earlyFinish.set(id, start + spans.get(id)!);
+  });
+
+  const projectFinish = Math.max(...earlyFinish.values());
+
+  // Backward pass
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+  [...ordered].reverse().forEach((id) => {
+    let finish = projectFinish;
+    (outgoing.get(id) || []).forEach((dependency) => {
+      const successorId = dependency.successorId;
+      if (!lateStart.has(successorId)) return;
+      finish = Math.min(
+        finish,
+        getAllowedFinishDay(
+          dependency,
+          lateStart.get(successorId)!,
+          lateFinish.get(successorId)!,
+          spans.get(id)!
+        )
+      );
+    });
+    lateFinish.set(id, finish);
+    lateStart.set(id, finish - spans.get(id)!);
+  });
+
+  ordered.forEach((id) => {
+    const es = earlyStart.get(id)!;
+    const ef = earlyFinish.get(id)!;
+    const totalFloat = lateStart.get(id)! - es;
+
+    // Free float: slack before the earliest successor would have to move
+    const successorLinks = outgoing.get(id) || [];
+    const freeFloat =
+      successorLinks.length === 0
+        ? projectFinish - ef
+        : Math.min(
+            ...successorLinks.map(
+              (dependency) =>
+                earlyStart.get(dependency.successorId)! -
+                getRequiredStartDay(
+                  dependency,
+                  es,
+                  ef,
+                  spans.get(dependency.successorId)!
+                )
+            )
+          );
+
+    result.set(id, {
+      earlyStart: workingDays.toDate(es),
+      earlyFinish: workingDays.toDate(ef),
+      lateStart: workingDays.toDate(lateStart.get(id)!),
+      lateFinish: workingDays.toDate(lateFinish.get(id)!),
+      totalFloat,
+      freeFloat: Math.max(0, Math.min(freeFloat, totalFloat)),
+      isCritical: totalFloat <= 0,
+    });
+  });
+
+  tasks
+    .filter((task) => parentIds.has(task.id))
+    .forEach((task) => {
+      const infos = getSubtasks(task.id).flatMap((subtask) =>
+        result.has(subtask.id) ? [result.get(subtask.id)!] : []
+      );
+      if (infos.length === 0) return;
+      const earliest = (dates: Date[]) =>
+        new Date(Math.min(...dates.map((date) => date.getTime())));
+      const latest = (dates: Date[]) =>
+        new Date(Math.max(...dates.map((date) => date.getTime())));
+      result.set(task.id, {
+        earlyStart: earliest(infos.map((info) => info.earlyStart)),
+        earlyFinish: latest(infos.map((info) => info.earlyFinish)),
+        lateStart: earliest(infos.map((info) => info.lateStart)),
+        lateFinish: latest(infos.map((info) => info.lateFinish)),
+        totalFloat: Math.min(...infos.map((info) => info.totalFloat)),
+        freeFloat: Math.min(...infos.map((info) => info.freeFloat)),
+        isCritical: infos.some((info) => info.isCritical),
+      });
+    });
+
+  return result;
+};
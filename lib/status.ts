@@ -0,0 +1,85 @@
+import {
+  GanttTask,
+  Project,
+  TaskStatusCategory,
+  TaskStatusDefinition,
+} from "./types";
+
+// In workflow order
+export const TASK_STATUS_CATEGORIES: TaskStatusCategory[] = [
+  "not-started",
+  "in-progress",
+  "blocked",
+  "done",
+  "cancelled",
+];
+
+export const TASK_STATUS_CATEGORY_LABELS: Record<TaskStatusCategory, string> = {
+  "not-started": "شروع نشده",
+  "in-progress": "در حال انجام",
+  blocked: "مسدود",
+  done: "انجام شده",
+  cancelled: "لغو شده",
+};
+
+const TASK_STATUS_CATEGORY_COLORS: Record<TaskStatusCategory, string> = {
+  "not-started": "#9ca3af",
+  "in-progress": "#3b82f6",
+  blocked: "#ef4444",
+  done: "#10b981",
+  cancelled: "#78716c",
+};
+
+// The status list of projects without a custom one. The ids are the
+// categories, so they stay valid if a project later switches back to it.
+export const DEFAULT_TASK_STATUSES: TaskStatusDefinition[] =
+  TASK_STATUS_CATEGORIES.map((category) => ({
+    id: category,
+    label: TASK_STATUS_CATEGORY_LABELS[category],
+    color: TASK_STATUS_CATEGORY_COLORS[category],
+    category,
+  }));
+
+export const getProjectStatuses = (
+  project: Project | null | undefined
+): TaskStatusDefinition[] => {
+  return project?.statuses?.length ? project.statuses : DEFAULT_TASK_STATUSES;
+};
+
+/**
+ * A task's status in the given list. Tasks without a status, or whose status
+ * was removed from the list, are in the first one.
+ */
+export const getTaskStatus = (
+  task: GanttTask,
+  statuses: TaskStatusDefinition[]
+): TaskStatusDefinition => {
+  return statuses.find((status) => status.id === task.status) || statuses[0];
+};
+
+/**
+ * The task changes that go with moving a task to a status. A task marked
+ * done is complete and records when it finished; reopening it clears that.
+ * Summary tasks take their progress from their subtasks, so marking one done
+ * leaves its progress alone.
+ */
+export const getStatusChanges = (
+  task: GanttTask,
+  statusId: string,
+  statuses: TaskStatusDefinition[],
+  isSummary = false
+): Partial<GanttTask> => {
+  const wasDone = getTaskStatus(task, statuses).category === "done";
+  const isDone =
+    statuses.find((status) => status.id === statusId)?.category === "done";
+
+  if (isDone && !wasDone) {
+    return isSummary
+      ? { status: statusId, actualEndDate: new Date() }
+      : { status: statusId, progress: 100, actualEndDate: new Date() };
+  }
+  if (!isDone && wasDone) {
+    return { status: statusId, actualEndDate: undefined };
+  }
+  return { status: statusId };
+};
@@ -1,15 +1,53 @@
-import { create } from "zustand";
-import { Project, GanttTask, TaskGroup } from "./types";
+import { create, StoreApi } from "zustand";
+import {
+  Project,
+  GanttTask,
+  TaskGroup,
+  TaskDependency,
+  Resource,
+  Baseline,
+  DependencyType,
+  GanttTaskType,
+  ProjectViewSettings,
+  TaskDraft,
+} from "./types";
 import { dbManager, generateId, generateRandomColor } from "./indexeddb";
+import { validateDependency } from "./dependencies";
+import { moveTaskStart, planTaskChanges } from "./scheduling";
+import { LevelingMove, planResourceLeveling } from "./leveling";
+import { getProjectStatuses, getStatusChanges } from "./status";
+import {
+  getDescendantIds,
+  hasChildTasks,
+  validateParent,
+} from "./task-hierarchy";
+import {
+  HistoryEntry,
+  RecordChange,
+  RecordSnapshot,
+  HISTORY_LIMIT,
+  applyRecordValues,
+  diffSnapshots,
+  getRecordValues,
+  keepViewOnlyFields,
+  mergeChanges,
+  toAddedRecords,
+  toRemovedRecords,
+} from "./history";
 
 interface AppState {
   projects: Project[];
   currentProject: Project | null;
   tasks: GanttTask[];
   groups: TaskGroup[];
+  dependencies: TaskDependency[];
+  resources: Resource[];
+  baselines: Baseline[];
   isLoading: boolean;
   error: string | null;
   isDBInitialized: boolean;
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
 
   // Actions
   initializeDB: () => Promise<void>;
@@ -17,38 +55,192 @@ interface AppState {
   loadProjects: () => Promise<void>;
   createProject: (name: string, description?: string) => Promise<Project>;
   updateProject: (id: string, updates: Partial<Project>) => Promise<void>;
+  updateProjectViewSettings: (
+    id: string,
+    updates: Partial<ProjectViewSettings>
+  ) => Promise<void>;
   deleteProject: (id: string) => Promise<void>;
   setCurrentProject: (project: Project | null) => void;
   loadTasksForProject: (projectId: string) => Promise<void>;
   loadGroupsForProject: (projectId: string) => Promise<void>;
+  loadDependenciesForProject: (projectId: string) => Promise<void>;
+  loadResourcesForProject: (projectId: string) => Promise<void>;
+  loadBaselinesForProject: (projectId: string) => Promise<void>;
   createTask: (
     projectId: string,
     title: string,
     startDate: Date,
     endDate: Date,
-    groupId?: string
+    groupId?: string,
+    type?: GanttTaskType,
+    parentId?: string
   ) => Promise<GanttTask>;
+  createTasks: (projectId: string, drafts: TaskDraft[]) => Promise<GanttTask[]>;
   updateTask: (id: string, updates: Partial<GanttTask>) => Promise<void>;
+  applyTaskUpdates: (
+    updates: (Partial<GanttTask> & { id: string })[]
+  ) => Promise<void>;
+  rescheduleSuccessors: (
+    taskIds: string[]
+  ) => Promise<(Partial<GanttTask> & { id: string })[]>;
   deleteTask: (id: string) => Promise<void>;
+  reorderTasks: (orderedIds: string[]) => Promise<void>;
   createGroup: (projectId: string, title: string) => Promise<TaskGroup>;
   updateGroup: (id: string, updates: Partial<TaskGroup>) => Promise<void>;
+  updateGroups: (
+    updates: (Partial<TaskGroup> & { id: string })[]
+  ) => Promise<void>;
+  applyGroupUpdates: (
+    updates: (Partial<TaskGroup> & { id: string })[]
+  ) => Promise<void>;
+  setGroupsExpanded: (ids: string[], isExpanded: boolean) => Promise<void>;
   deleteGroup: (id: string) => Promise<void>;
+  reorderGroups: (orderedIds: string[]) => Promise<void>;
+  createDependency: (
+    projectId: string,
+    predecessorId: string,
+    successorId: string,
+    type?: DependencyType,
+    lag?: number
+  ) => Promise<TaskDependency>;
+  updateDependency: (
+    id: string,
+    updates: Partial<TaskDependency>
+  ) => Promise<void>;
+  deleteDependency: (id: string) => Promise<void>;
+  createResource: (
+    projectId: string,
+    resource: Omit<Resource, "id" | "projectId" | "createdAt">
+  ) => Promise<Resource>;
+  updateResource: (id: string, updates: Partial<Resource>) => Promise<void>;
+  deleteResource: (id: string) => Promise<void>;
+  levelResources: () => Promise<LevelingMove[]>;
+  createBaseline: (projectId: string, name: string) => Promise<Baseline>;
+  updateBaseline: (id: string, updates: Partial<Baseline>) => Promise<void>;
+  deleteBaseline: (id: string) => Promise<void>;
   setError: (error: string | null) => void;
+  recordHistory: <T>(
+    label: string,
+    action: () => Promise<T>,
+    changes?: RecordChange[]
+  ) => Promise<T>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
   importProjectData: (projectData: {
     project: Project;
     tasks: GanttTask[];
     groups: TaskGroup[];
+    dependencies?: TaskDependency[];
+    resources?: Resource[];
+    baselines?: Baseline[];
   }) => Promise<void>;
 }
 
+// Recorded actions, undo and redo run one at a time, so that the snapshots
+// around an action see only its own changes. A recorded action must not wait
+// for another one; they share non-recording helpers like applyTaskUpdates.
+let historyQueue: Promise<unknown> = Promise.resolve();
+
+const runInHistoryOrder = <T>(step: () => Promise<T>): Promise<T> => {
+  const result = historyQueue.then(step);
+  historyQueue = result.catch(() => undefined);
+  return result;
+};
+
+const takeSnapshot = (state: AppState): RecordSnapshot => ({
+  projects: state.projects,
+  tasks: state.tasks,
+  groups: state.groups,
+  dependencies: state.dependencies,
+  resources: state.resources,
+  baselines: state.baselines,
+});
+
+const pushHistoryEntry = (
+  set: StoreApi<AppState>["setState"],
+  label: string,
+  changes: RecordChange[]
+) => {
+  const merged = mergeChanges(changes);
+  if (merged.length === 0) return;
+
+  set((state) => ({
+    undoStack: [...state.undoStack, { label, changes: merged }].slice(
+      -HISTORY_LIMIT
+    ),
+    redoStack: [],
+  }));
+};
+
+// Write one side of an undo step to IndexedDB and to the loaded state.
+// Records of other projects are only written to the database.
+const restoreHistoryEntry = async (
+  set: StoreApi<AppState>["setState"],
+  get: StoreApi<AppState>["getState"],
+  entry: HistoryEntry,
+  side: "before" | "after"
+) => {
+  const values = keepViewOnlyFields(
+    getRecordValues(entry.changes, side),
+    takeSnapshot(get())
+  );
+  await dbManager.restoreRecords(values);
+
+  set((state) => {
+    const projectId = state.currentProject?.id;
+    const inCurrentProject = (record: { projectId: string }) =>
+      record.projectId === projectId;
+    const currentProjectValue = values.find(
+      (value) => value.store === "projects" && value.id === projectId
+    );
+
+    return {
+      projects: applyRecordValues(state.projects, values, "projects"),
+      currentProject: currentProjectValue
+        ? (currentProjectValue.value as Project | null)
+        : state.currentProject,
+      tasks: applyRecordValues(state.tasks, values, "tasks", inCurrentProject),
+      groups: applyRecordValues(
+        state.groups,
+        values,
+        "groups",
+        inCurrentProject
+      ),
+      dependencies: applyRecordValues(
+        state.dependencies,
+        values,
+        "dependencies",
+        inCurrentProject
+      ),
+      resources: applyRecordValues(
+        state.resources,
+        values,
+        "resources",
+        inCurrentProject
+      ),
+      baselines: applyRecordValues(
+        state.baselines,
+        values,
+        "baselines",
+        inCurrentProject
+      ),
+    };
+  });
+};
+
 export const useAppStore = create<AppState>((set, get) => ({
   projects: [],
   currentProject: null,
   tasks: [],
   groups: [],
+  dependencies: [],
+  resources: [],
+  baselines: [],
   isLoading: false,
   error: null,
   isDBInitialized: false,
+  undoStack: [],
+  redoStack: [],
 
   initializeDB: async () => {
     // Prevent multiple initialization calls
@@ -88,7 +280,17 @@ export const useAppStore = create<AppState>((set, get) => ({
     try {
       set({ isLoading: true, error: null });
       await dbManager.resetDB();
-      set({ projects: [], currentProject: null, tasks: [], groups: [] });
+      set({
+        projects: [],
+        currentProject: null,
+        tasks: [],
+        groups: [],
+        dependencies: [],
+        resources: [],
+        baselines: [],
+        undoStack: [],
+        redoStack: [],
+      });
     } catch (error) {
       console.error("Failed to reset database:", error);
       set({ error: "Failed to reset database" });
@@ -110,74 +312,143 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  createProject: async (name: string, description?: string) => {
-    try {
-      set({ isLoading: true, error: null });
-      const project: Project = {
-        id: generateId(),
-        name,
-        description,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      await dbManager.addProject(project);
-      set((state) => ({
-        projects: [...state.projects, project],
-      }));
-      return project;
-    } catch (error) {
-      console.error("Failed to create project:", error);
-      set({ error: "Failed to create project" });
-      throw error;
-    } finally {
-      set({ isLoading: false });
-    }
-  },
+  createProject: async (name: string, description?: string) =>
+    get().recordHistory("ایجاد پروژه", async () => {
+      try {
+        set({ isLoading: true, error: null });
+        const project: Project = {
+          id: generateId(),
+          name,
+          description,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+
+        await dbManager.addProject(project);
+        set((state) => ({
+          projects: [...state.projects, project],
+        }));
+        return project;
+      } catch (error) {
+        console.error("Failed to create project:", error);
+        set({ error: "Failed to create project" });
+        throw error;
+      } finally {
+        set({ isLoading: false });
+      }
+    }),
+
+  updateProject: async (id: string, updates: Partial<Project>) =>
+    get().recordHistory("ویرایش پروژه", async () => {
+      try {
+        set({ isLoading: true, error: null });
+        await dbManager.updateProject({ id, ...updates });
+
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id ? { ...p, ...updates, updatedAt: new Date() } : p
+          ),
+          currentProject:
+            state.currentProject && state.currentProject.id === id
+              ? { ...state.currentProject, ...updates, updatedAt: new Date() }
+              : state.currentProject,
+        }));
+      } catch (error) {
+        console.error("Failed to update project:", error);
+        set({ error: "Failed to update project" });
+        throw error;
+      } finally {
+        set({ isLoading: false });
+      }
+    }),
 
-  updateProject: async (id: string, updates: Partial<Project>) => {
+  // Layout changes are not edits of the plan, so they stay out of the undo
+  // history
+  updateProjectViewSettings: async (
+    id: string,
+    updates: Partial<ProjectViewSettings>
+  ) => {
     try {
-      set({ isLoading: true, error: null });
-      await dbManager.updateProject({ id, ...updates });
+      const project =
+        get().projects.find((p) => p.id === id) || get().currentProject;
+      const viewSettings = { ...project?.viewSettings, ...updates };
+      await dbManager.updateProject({ id, viewSettings });
 
       set((state) => ({
         projects: state.projects.map((p) =>
-          p.id === id ? { ...p, ...updates, updatedAt: new Date() } : p
+          p.id === id ? { ...p, viewSettings } : p
         ),
         currentProject:
           state.currentProject && state.currentProject.id === id
-            ? { ...state.currentProject, ...updates, updatedAt: new Date() }
+            ? { ...state.currentProject, viewSettings }
             : state.currentProject,
       }));
     } catch (error) {
-      console.error("Failed to update project:", error);
-      set({ error: "Failed to update project" });
+      console.error("Failed to update view settings:", error);
+      set({ error: "Failed to update view settings" });
       throw error;
-    } finally {
-      set({ isLoading: false });
     }
   },
 
   deleteProject: async (id: string) => {
     try {
       set({ isLoading: true, error: null });
-      await dbManager.deleteProject(id);
 
-      set((state) => ({
-        projects: state.projects.filter((p) => p.id !== id),
-        currentProject:
-          state.currentProject && state.currentProject.id === id
-            ? null
-            : state.currentProject,
-        tasks:
-          state.currentProject && state.currentProject.id === id
-            ? []
-            : state.tasks,
-        groups:
-          state.currentProject && state.currentProject.id === id
-            ? []
-            : state.groups,
-      }));
+      // Only the open project's records are loaded, so read the rest from
+      // the database for the undo step
+      const [project, tasks, groups, dependencies, resources, baselines] =
+        await Promise.all([
+          dbManager.getProject(id),
+          dbManager.getTasksByProject(id),
+          dbManager.getGroupsByProject(id),
+          dbManager.getDependenciesByProject(id),
+          dbManager.getResourcesByProject(id),
+          dbManager.getBaselinesByProject(id),
+        ]);
+      const changes = [
+        ...toRemovedRecords("projects", project ? [project] : []),
+        ...toRemovedRecords("tasks", tasks),
+        ...toRemovedRecords("groups", groups),
+        ...toRemovedRecords("dependencies", dependencies),
+        ...toRemovedRecords("resources", resources),
+        ...toRemovedRecords("baselines", baselines),
+      ];
+
+      await get().recordHistory(
+        "حذف پروژه",
+        async () => {
+          await dbManager.deleteProject(id);
+
+          set((state) => ({
+            projects: state.projects.filter((p) => p.id !== id),
+            currentProject:
+              state.currentProject && state.currentProject.id === id
+                ? null
+                : state.currentProject,
+            tasks:
+              state.currentProject && state.currentProject.id === id
+                ? []
+                : state.tasks,
+            groups:
+              state.currentProject && state.currentProject.id === id
+                ? []
+                : state.groups,
+            dependencies:
+              state.currentProject && state.currentProject.id === id
+                ? []
+                : state.dependencies,
+            resources:
+              state.currentProject && state.currentProject.id === id
+                ? []
+                : state.resources,
+            baselines:
+              state.currentProject && state.currentProject.id === id
+                ? []
+                : state.baselines,
+          }));
+        },
+        changes
+      );
     } catch (error) {
       console.error("Failed to delete project:", error);
       set({ error: "Failed to delete project" });
@@ -198,8 +469,17 @@ export const useAppStore = create<AppState>((set, get) => ({
     if (project) {
       get().loadTasksForProject(project.id);
       get().loadGroupsForProject(project.id);
+      get().loadDependenciesForProject(project.id);
+      get().loadResourcesForProject(project.id);
+      get().loadBaselinesForProject(project.id);
     } else {
-      set({ tasks: [], groups: [] });
+      set({
+        tasks: [],
+        groups: [],
+        dependencies: [],
+        resources: [],
+        baselines: [],
+      });
     }
   },
 
@@ -211,6 +491,9 @@ export const useAppStore = create<AppState>((set, get) => ({
         ...task,
         startDate: new Date(task.startDate),
         endDate: new Date(task.endDate),
+        actualEndDate: task.actualEndDate
+          ? new Date(task.actualEndDate)
+          : undefined,
       }));
       set({ tasks: parsedTasks });
     } catch (error) {
@@ -235,160 +518,773 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  createTask: async (
-    projectId: string,
-    title: string,
-    startDate: Date,
-    endDate: Date,
-    groupId?: string
-  ) => {
+  loadDependenciesForProject: async (projectId: string) => {
     try {
-      set({ isLoading: true, error: null });
-      const task: GanttTask = {
-        id: generateId(),
-        title,
-        startDate,
-        endDate,
-        progress: 0,
-        color: generateRandomColor(),
-        projectId,
-        groupId,
-      };
-
-      await dbManager.addTask(task);
-      set((state) => ({
-        tasks: [...state.tasks, task],
+      const dependencies = await dbManager.getDependenciesByProject(projectId);
+      const parsedDependencies = dependencies.map((dependency) => ({
+        ...dependency,
+        createdAt: new Date(dependency.createdAt),
       }));
-      return task;
+      set({ dependencies: parsedDependencies });
     } catch (error) {
-      console.error("Failed to create task:", error);
-      set({ error: "Failed to create task" });
-      throw error;
-    } finally {
-      set({ isLoading: false });
+      console.error("Failed to load dependencies:", error);
+      set({ error: "Failed to load dependencies" });
     }
   },
 
-  updateTask: async (id: string, updates: Partial<GanttTask>) => {
+  loadResourcesForProject: async (projectId: string) => {
     try {
-      await dbManager.updateTask({ id, ...updates });
-      set((state) => ({
-        tasks: state.tasks.map((t) => (t.id === id ? { ...t, ...updates } : t)),
+      const resources = await dbManager.getResourcesByProject(projectId);
+      const parsedResources = resources.map((resource) => ({
+        ...resource,
+        createdAt: new Date(resource.createdAt),
       }));
+      set({ resources: parsedResources });
     } catch (error) {
-      console.error("Failed to update task:", error);
-      set({ error: "Failed to update task" });
-      throw error;
+      console.error("Failed to load resources:", error);
+      set({ error: "Failed to load resources" });
     }
   },
 
-  deleteTask: async (id: string) => {
+  loadBaselinesForProject: async (projectId: string) => {
     try {
-      set({ isLoading: true, error: null });
-      await dbManager.deleteTask(id);
-      set((state) => ({
-        tasks: state.tasks.filter((t) => t.id !== id),
+      const baselines = await dbManager.getBaselinesByProject(projectId);
+      const parsedBaselines = baselines.map((baseline) => ({
+        ...baseline,
+        tasks: baseline.tasks.map((task) => ({
+          ...task,
+          startDate: new Date(task.startDate),
+          endDate: new Date(task.endDate),
+        })),
+        createdAt: new Date(baseline.createdAt),
       }));
+      set({ baselines: parsedBaselines });
     } catch (error) {
-      console.error("Failed to delete task:", error);
-      set({ error: "Failed to delete task" });
-      throw error;
-    } finally {
-      set({ isLoading: false });
+      console.error("Failed to load baselines:", error);
+      set({ error: "Failed to load baselines" });
     }
   },
 
-  createGroup: async (projectId: string, title: string) => {
-    try {
-      set({ isLoading: true, error: null });
-      const group: TaskGroup = {
-        id: generateId(),
-        title,
-        projectId,
-        color: generateRandomColor(),
-        isExpanded: true,
-        createdAt: new Date(),
-      };
-
-      await dbManager.addGroup(group);
-      set((state) => ({
-        groups: [...state.groups, group],
-      }));
-      return group;
-    } catch (error) {
-      console.error("Failed to create group:", error);
-      set({ error: "Failed to create group" });
-      throw error;
-    } finally {
-      set({ isLoading: false });
-    }
-  },
+  createTask: async (
+    projectId: string,
+    title: string,
+    startDate: Date,
+    endDate: Date,
+    groupId?: string,
+    type: GanttTaskType = "task",
+    parentId?: string
+  ) =>
+    get().recordHistory("ایجاد تسک", async () => {
+      const parent = parentId
+        ? get().tasks.find((t) => t.id === parentId)
+        : undefined;
+      if (parentId) {
+        const validationError = validateParent(get().tasks, "", parentId);
+        if (validationError) {
+          throw new Error(validationError);
+        }
+      }
+
+      try {
+        set({ isLoading: true, error: null });
+        const task: GanttTask = {
+          id: generateId(),
+          title,
+          type,
+          startDate,
+          // Milestones are zero-duration
+          endDate: type === "milestone" ? startDate : endDate,
+          progress: 0,
+          color: generateRandomColor(),
+          projectId,
+          // Subtasks always live in their parent's group
+          groupId: parent ? parent.groupId : groupId,
+          parentId,
+        };
+
+        await dbManager.addTask(task);
+        set((state) => ({
+          tasks: [...state.tasks, task],
+        }));
+
+        // A new subtask can widen its parent's summary bar
+        if (parentId) {
+          await get().applyTaskUpdates(
+            planTaskChanges(
+              get().tasks,
+              get().dependencies,
+              [],
+              [],
+              get().currentProject?.calendar
+            )
+          );
+        }
+        return task;
+      } catch (error) {
+        console.error("Failed to create task:", error);
+        set({ error: "Failed to create task" });
+        throw error;
+      } finally {
+        set({ isLoading: false });
+      }
+    }),
+
+  // Tasks typed or pasted into the task list, saved in one transaction and
+  // undone in one step. The chart stays mounted, so isLoading is not set.
+  createTasks: async (projectId: string, drafts: TaskDraft[]) =>
+    get().recordHistory(
+      drafts.length === 1 ? "ایجاد تسک" : "ایجاد تسک‌ها",
+      async () => {
+        try {
+          const tasks: GanttTask[] = drafts.map((draft) => ({
+            id: generateId(),
+            type: "task",
+            color: generateRandomColor(),
+            projectId,
+            ...draft,
+            progress: draft.progress ?? 0,
+          }));
+
+          await dbManager.addTasks(tasks);
+          set((state) => ({
+            tasks: [...state.tasks, ...tasks],
+          }));
+          return tasks;
+        } catch (error) {
+          console.error("Failed to create tasks:", error);
+          set({ error: "Failed to create tasks" });
+          throw error;
+        }
+      }
+    ),
+
+  updateTask: async (id: string, updates: Partial<GanttTask>) =>
+    get().recordHistory("ویرایش تسک", async () => {
+      const tasks = get().tasks;
+      if (updates.parentId) {
+        const validationError = validateParent(tasks, id, updates.parentId);
+        if (validationError) {
+          throw new Error(validationError);
+        }
+      }
+
+      try {
+        const task = tasks.find((t) => t.id === id);
+        const calendar = get().currentProject?.calendar;
+        const changes: (Partial<GanttTask> & { id: string })[] = [
+          { id, ...updates },
+        ];
+
+        // Marking a task done completes it, reopening it clears its finish
+        if (task && updates.status && updates.status !== task.status) {
+          Object.assign(
+            changes[0],
+            getStatusChanges(
+              task,
+              updates.status,
+              getProjectStatuses(get().currentProject),
+              hasChildTasks(tasks, id)
+            )
+          );
+        }
+
+        // A new start without an end keeps the task's length in working days
+        if (task && updates.startDate && !updates.endDate) {
+          changes[0].endDate = moveTaskStart(
+            task,
+            updates.startDate,
+            calendar
+          ).endDate;
+        }
+
+        // Subtasks always live in their parent's group, and a task takes its
+        // whole branch along when it changes group
+        const parentId =
+          "parentId" in updates ? updates.parentId : task?.parentId;
+        const parent = parentId ? tasks.find((t) => t.id === parentId) : null;
+        if (parent) {
+          changes[0].groupId = parent.groupId;
+        }
+        const groupId =
+          "groupId" in changes[0] ? changes[0].groupId : undefined;
+        const changesGroup =
+          !!task && "groupId" in changes[0] && groupId !== task.groupId;
+        if (changesGroup) {
+          getDescendantIds(tasks, id).forEach((descendantId) =>
+            changes.push({ id: descendantId, groupId })
+          );
+        }
+
+        // A task that changes parent or group goes to the end of its new
+        // siblings
+        const changesParent =
+          !!task && "parentId" in updates && updates.parentId !== task.parentId;
+        if ((changesGroup || changesParent) && !("order" in updates)) {
+          changes[0].order = undefined;
+        }
+
+        // Moving or resizing a task re-runs the forward pass over its
+        // successors, and unpinning it lets its predecessors push it again.
+        // Summary tasks are rolled up along the way and everything is written
+        // in one transaction.
+        const scheduleRoots = updates.startDate || updates.endDate ? [id] : [];
+        if (updates.isPinned === false) {
+          scheduleRoots.push(
+            ...get()
+              .dependencies.filter((d) => d.successorId === id)
+              .map((d) => d.predecessorId)
+          );
+        }
+
+        await get().applyTaskUpdates(
+          planTaskChanges(
+            tasks,
+            get().dependencies,
+            changes,
+            scheduleRoots,
+            calendar
+          )
+        );
+      } catch (error) {
+        console.error("Failed to update task:", error);
+        set({ error: "Failed to update task" });
+        throw error;
+      }
+    }),
+
+  applyTaskUpdates: async (
+    updates: (Partial<GanttTask> & { id: string })[]
+  ) => {
+    if (updates.length === 0) return;
 
-  updateGroup: async (id: string, updates: Partial<TaskGroup>) => {
     try {
-      await dbManager.updateGroup({ id, ...updates });
+      await dbManager.updateTasks(updates);
+
+      const updatesById = new Map<string, Partial<GanttTask>>();
+      updates.forEach((update) =>
+        updatesById.set(update.id, {
+          ...updatesById.get(update.id),
+          ...update,
+        })
+      );
       set((state) => ({
-        groups: state.groups.map((g) =>
-          g.id === id ? { ...g, ...updates } : g
+        tasks: state.tasks.map((t) =>
+          updatesById.has(t.id) ? { ...t, ...updatesById.get(t.id) } : t
         ),
       }));
     } catch (error) {
-      console.error("Failed to update group:", error);
-      set({ error: "Failed to update group" });
+      console.error("Failed to update tasks:", error);
+      set({ error: "Failed to update tasks" });
       throw error;
     }
   },
 
-  deleteGroup: async (id: string) => {
+  rescheduleSuccessors: async (taskIds: string[]) => {
+    const cascadedUpdates = planTaskChanges(
+      get().tasks,
+      get().dependencies,
+      [],
+      taskIds,
+      get().currentProject?.calendar
+    );
+    await get().applyTaskUpdates(cascadedUpdates);
+    return cascadedUpdates;
+  },
+
+  // Saves the row order of a list of sibling tasks in one transaction
+  reorderTasks: async (orderedIds: string[]) =>
+    get().recordHistory("جابجایی ردیف‌ها", async () => {
+      await get().applyTaskUpdates(
+        orderedIds.map((id, order) => ({ id, order }))
+      );
+    }),
+
+  deleteTask: async (id: string) =>
+    get().recordHistory("حذف تسک", async () => {
+      try {
+        set({ isLoading: true, error: null });
+        const deletedTask = get().tasks.find((t) => t.id === id);
+        await dbManager.deleteTask(id);
+        set((state) => ({
+          // Subtasks move up to the deleted task's parent
+          tasks: state.tasks
+            .filter((t) => t.id !== id)
+            .map((t) =>
+              t.parentId === id ? { ...t, parentId: deletedTask?.parentId } : t
+            ),
+          dependencies: state.dependencies.filter(
+            (d) => d.predecessorId !== id && d.successorId !== id
+          ),
+        }));
+
+        if (deletedTask?.parentId) {
+          await get().applyTaskUpdates(
+            planTaskChanges(
+              get().tasks,
+              get().dependencies,
+              [],
+              [],
+              get().currentProject?.calendar
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Failed to delete task:", error);
+        set({ error: "Failed to delete task" });
+        throw error;
+      } finally {
+        set({ isLoading: false });
+      }
+    }),
+
+  createGroup: async (projectId: string, title: string) =>
+    get().recordHistory("ایجاد گروه", async () => {
+      try {
+        set({ isLoading: true, error: null });
+        const group: TaskGroup = {
+          id: generateId(),
+          title,
+          projectId,
+          color: generateRandomColor(),
+          isExpanded: true,
+          createdAt: new Date(),
+        };
+
+        await dbManager.addGroup(group);
+        set((state) => ({
+          groups: [...state.groups, group],
+        }));
+        return group;
+      } catch (error) {
+        console.error("Failed to create group:", error);
+        set({ error: "Failed to create group" });
+        throw error;
+      } finally {
+        set({ isLoading: false });
+      }
+    }),
+
+  updateGroup: async (id: string, updates: Partial<TaskGroup>) =>
+    get().recordHistory("ویرایش گروه", async () => {
+      try {
+        await dbManager.updateGroup({ id, ...updates });
+        set((state) => ({
+          groups: state.groups.map((g) =>
+            g.id === id ? { ...g, ...updates } : g
+          ),
+        }));
+      } catch (error) {
+        console.error("Failed to update group:", error);
+        set({ error: "Failed to update group" });
+        throw error;
+      }
+    }),
+
+  updateGroups: async (updates: (Partial<TaskGroup> & { id: string })[]) =>
+    get().recordHistory("ویرایش گروه‌ها", () =>
+      get().applyGroupUpdates(updates)
+    ),
+
+  applyGroupUpdates: async (
+    updates: (Partial<TaskGroup> & { id: string })[]
+  ) => {
+    if (updates.length === 0) return;
+
     try {
-      set({ isLoading: true, error: null });
-      await dbManager.deleteGroup(id);
+      await dbManager.updateGroups(updates);
+
+      const updatesById = new Map(updates.map((update) => [update.id, update]));
       set((state) => ({
-        groups: state.groups.filter((g) => g.id !== id),
-        // Also remove groupId from tasks that belonged to this group
-        tasks: state.tasks.map((t) =>
-          t.groupId === id ? { ...t, groupId: undefined } : t
+        groups: state.groups.map((g) =>
+          updatesById.has(g.id) ? { ...g, ...updatesById.get(g.id) } : g
         ),
       }));
     } catch (error) {
-      console.error("Failed to delete group:", error);
-      set({ error: "Failed to delete group" });
+      console.error("Failed to update groups:", error);
+      set({ error: "Failed to update groups" });
       throw error;
-    } finally {
-      set({ isLoading: false });
     }
   },
 
+  // Expanding or collapsing groups only changes what is shown, so like
+  // layout changes it stays out of the undo history
+  setGroupsExpanded: async (ids: string[], isExpanded: boolean) =>
+    get().applyGroupUpdates(ids.map((id) => ({ id, isExpanded }))),
+
+  reorderGroups: async (orderedIds: string[]) =>
+    get().recordHistory("جابجایی گروه‌ها", async () => {
+      await get().applyGroupUpdates(
+        orderedIds.map((id, order) => ({ id, order }))
+      );
+    }),
+
+  deleteGroup: async (id: string) =>
+    get().recordHistory("حذف گروه", async () => {
+      try {
+        set({ isLoading: true, error: null });
+        await dbManager.deleteGroup(id);
+        set((state) => ({
+          groups: state.groups.filter((g) => g.id !== id),
+          // Also remove groupId from tasks that belonged to this group
+          tasks: state.tasks.map((t) =>
+            t.groupId === id ? { ...t, groupId: undefined } : t
+          ),
+        }));
+      } catch (error) {
+        console.error("Failed to delete group:", error);
+        set({ error: "Failed to delete group" });
+        throw error;
+      } finally {
+        set({ isLoading: false });
+      }
+    }),
+
+  createDependency: async (
+    projectId: string,
+    predecessorId: string,
+    successorId: string,
+    type: DependencyType = "FS",
+    lag: number = 0
+  ) =>
+    get().recordHistory("ایجاد وابستگی", async () => {
+      const validationError = validateDependency(
+        get().dependencies,
+        predecessorId,
+        successorId
+      );
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      try {
+        const dependency: TaskDependency = {
+          id: generateId(),
+          projectId,
+          predecessorId,
+          successorId,
+          type,
+          lag,
+          createdAt: new Date(),
+        };
+
+        await dbManager.addDependency(dependency);
+        set((state) => ({
+          dependencies: [...state.dependencies, dependency],
+        }));
+        await get().rescheduleSuccessors([predecessorId]);
+        return dependency;
+      } catch (error) {
+        console.error("Failed to create dependency:", error);
+        set({ error: "Failed to create dependency" });
+        throw error;
+      }
+    }),
+
+  updateDependency: async (id: string, updates: Partial<TaskDependency>) =>
+    get().recordHistory("ویرایش وابستگی", async () => {
+      try {
+        await dbManager.updateDependency({ id, ...updates });
+        set((state) => ({
+          dependencies: state.dependencies.map((d) =>
+            d.id === id ? { ...d, ...updates } : d
+          ),
+        }));
+
+        const dependency = get().dependencies.find((d) => d.id === id);
+        if (dependency) {
+          await get().rescheduleSuccessors([dependency.predecessorId]);
+        }
+      } catch (error) {
+        console.error("Failed to update dependency:", error);
+        set({ error: "Failed to update dependency" });
+        throw error;
+      }
+    }),
+
+  deleteDependency: async (id: string) =>
+    get().recordHistory("حذف وابستگی", async () => {
+      try {
+        await dbManager.deleteDependency(id);
+        set((state) => ({
+          dependencies: state.dependencies.filter((d) => d.id !== id),
+        }));
+      } catch (error) {
+        console.error("Failed to delete dependency:", error);
+        set({ error: "Failed to delete dependency" });
+        throw error;
+      }
+    }),
+
+  createResource: async (
+    projectId: string,
+    resource: Omit<Resource, "id" | "projectId" | "createdAt">
+  ) =>
+    get().recordHistory("ایجاد منبع", async () => {
+      try {
+        const newResource: Resource = {
+          ...resource,
+          id: generateId(),
+          projectId,
+          createdAt: new Date(),
+        };
+
+        await dbManager.addResource(newResource);
+        set((state) => ({
+          resources: [...state.resources, newResource],
+        }));
+        return newResource;
+      } catch (error) {
+        console.error("Failed to create resource:", error);
+        set({ error: "Failed to create resource" });
+        throw error;
+      }
+    }),
+
+  updateResource: async (id: string, updates: Partial<Resource>) =>
+    get().recordHistory("ویرایش منبع", async () => {
+      try {
+        await dbManager.updateResource({ id, ...updates });
+        set((state) => ({
+          resources: state.resources.map((r) =>
+            r.id === id ? { ...r, ...updates } : r
+          ),
+        }));
+      } catch (error) {
+        console.error("Failed to update resource:", error);
+        set({ error: "Failed to update resource" });
+        throw error;
+      }
+    }),
+
+  deleteResource: async (id: string) =>
+    get().recordHistory("حذف منبع", async () => {
+      try {
+        await dbManager.deleteResource(id);
+        set((state) => ({
+          resources: state.resources.filter((r) => r.id !== id),
+          // Also unassign the resource from its tasks
+          tasks: state.tasks.map((t) =>
+            t.assignments?.some((a) => a.resourceId === id)
+              ? {
+                  ...t,
+                  assignments: t.assignments.filter((a) => a.resourceId !== id),
+                }
+              : t
+          ),
+        }));
+      } catch (error) {
+        console.error("Failed to delete resource:", error);
+        set({ error: "Failed to delete resource" });
+        throw error;
+      }
+    }),
+
+  // Delays lower-priority tasks until no resource is over capacity, as one
+  // undo step. Returns the tasks that moved.
+  levelResources: async () =>
+    get().recordHistory("تسطیح منابع", async () => {
+      try {
+        const { updates, moves } = planResourceLeveling(
+          get().tasks,
+          get().dependencies,
+          get().resources,
+          get().currentProject?.calendar
+        );
+        await get().applyTaskUpdates(updates);
+        return moves;
+      } catch (error) {
+        console.error("Failed to level resources:", error);
+        set({ error: "Failed to level resources" });
+        throw error;
+      }
+    }),
+
+  // Saves the current dates and progress of every task in the project
+  createBaseline: async (projectId: string, name: string) =>
+    get().recordHistory("ذخیره خط مبنا", async () => {
+      try {
+        const baseline: Baseline = {
+          id: generateId(),
+          projectId,
+          name,
+          tasks: get()
+            .tasks.filter((task) => task.projectId === projectId)
+            .map((task) => ({
+              taskId: task.id,
+              startDate: task.startDate,
+              endDate: task.endDate,
+              progress: task.progress,
+            })),
+          createdAt: new Date(),
+        };
+
+        await dbManager.addBaseline(baseline);
+        set((state) => ({
+          baselines: [...state.baselines, baseline],
+        }));
+        return baseline;
+      } catch (error) {
+        console.error("Failed to create baseline:", error);
+        set({ error: "Failed to create baseline" });
+        throw error;
+      }
+    }),
+
+  updateBaseline: async (id: string, updates: Partial<Baseline>) =>
+    get().recordHistory("ویرایش خط مبنا", async () => {
+      try {
+        await dbManager.updateBaseline({ id, ...updates });
+        set((state) => ({
+          baselines: state.baselines.map((b) =>
+            b.id === id ? { ...b, ...updates } : b
+          ),
+        }));
+      } catch (error) {
+        console.error("Failed to update baseline:", error);
+        set({ error: "Failed to update baseline" });
+        throw error;
+      }
+    }),
+
+  deleteBaseline: async (id: string) =>
+    get().recordHistory("حذف خط مبنا", async () => {
+      try {
+        await dbManager.deleteBaseline(id);
+        set((state) => ({
+          baselines: state.baselines.filter((b) => b.id !== id),
+        }));
+      } catch (error) {
+        console.error("Failed to delete baseline:", error);
+        set({ error: "Failed to delete baseline" });
+        throw error;
+      }
+    }),
+
   setError: (error: string | null) => {
     set({ error });
   },
 
+  // Run a mutating action as one undo step. The step holds every record the
+  // action changed in the loaded state, or the given changes when the action
+  // touches records that are not loaded.
+  recordHistory: async <T>(
+    label: string,
+    action: () => Promise<T>,
+    changes?: RecordChange[]
+  ): Promise<T> =>
+    runInHistoryOrder(async () => {
+      const before = takeSnapshot(get());
+      let succeeded = false;
+      try {
+        const result = await action();
+        succeeded = true;
+        return result;
+      } finally {
+        // Given changes describe a complete action, so a failed one is not
+        // recorded; the loaded state shows what a failed action did change
+        if (!changes) {
+          pushHistoryEntry(
+            set,
+            label,
+            diffSnapshots(before, takeSnapshot(get()))
+          );
+        } else if (succeeded) {
+          pushHistoryEntry(set, label, changes);
+        }
+      }
+    }),
+
+  undo: async () =>
+    runInHistoryOrder(async () => {
+      const entry = get().undoStack[get().undoStack.length - 1];
+      if (!entry) return;
+
+      try {
+        await restoreHistoryEntry(set, get, entry, "before");
+        set((state) => ({
+          undoStack: state.undoStack.slice(0, -1),
+          redoStack: [...state.redoStack, entry],
+        }));
+      } catch (error) {
+        console.error("Failed to undo:", error);
+        set({ error: "Failed to undo" });
+        throw error;
+      }
+    }),
+
+  redo: async () =>
+    runInHistoryOrder(async () => {
+      const entry = get().redoStack[get().redoStack.length - 1];
+      if (!entry) return;
+
+      try {
+        await restoreHistoryEntry(set, get, entry, "after");
+        set((state) => ({
+          redoStack: state.redoStack.slice(0, -1),
+          undoStack: [...state.undoStack, entry],
+        }));
+      } catch (error) {
+        console.error("Failed to redo:", error);
+        set({ error: "Failed to redo" });
+        throw error;
+      }
+    }),
+
   importProjectData: async (projectData: {
     project: Project;
     tasks: GanttTask[];
     groups: TaskGroup[];
+    dependencies?: TaskDependency[];
+    resources?: Resource[];
+    baselines?: Baseline[];
   }) => {
     try {
       set({ isLoading: true, error: null });
 
-      // Import project
-      await dbManager.addProject(projectData.project);
+      await get().recordHistory(
+        "وارد کردن پروژه",
+        async () => {
+          // Import project
+          await dbManager.addProject(projectData.project);
 
-      // Import groups first (since tasks may reference them)
-      for (const group of projectData.groups) {
-        await dbManager.addGroup(group);
-      }
+          // Import resources and groups first (tasks reference them)
+          for (const resource of projectData.resources || []) {
+            await dbManager.addResource(resource);
+          }
 
-      // Import tasks
-      for (const task of projectData.tasks) {
-        await dbManager.addTask(task);
-      }
+          for (const group of projectData.groups) {
+            await dbManager.addGroup(group);
+          }
 
-      // Refresh the projects list
-      await get().loadProjects();
+          // Import tasks
+          for (const task of projectData.tasks) {
+            await dbManager.addTask(task);
+          }
+
+          // Import dependencies last (they reference tasks)
+          for (const dependency of projectData.dependencies || []) {
+            await dbManager.addDependency(dependency);
+          }
+
+          for (const baseline of projectData.baselines || []) {
+            await dbManager.addBaseline(baseline);
+          }
+
+          // Refresh the projects list
+          await get().loadProjects();
 
-      // Set the imported project as current
-      get().setCurrentProject(projectData.project);
+          // Set the imported project as current
+          get().setCurrentProject(projectData.project);
+        },
+        [
+          ...toAddedRecords("projects", [projectData.project]),
+          ...toAddedRecords("groups", projectData.groups),
+          ...toAddedRecords("tasks", projectData.tasks),
+          ...toAddedRecords("dependencies", projectData.dependencies || []),
+          ...toAddedRecords("resources", projectData.resources || []),
+          ...toAddedRecords("baselines", projectData.baselines || []),
+        ]
+      );
     } catch (error) {
       console.error("Failed to import project data:", error);
       set({ error: "خطا در وارد کردن داده‌ها" });
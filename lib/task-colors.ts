@@ -0,0 +1,119 @@
+import {
+  GanttTask,
+  Resource,
+  TaskColorMode,
+  TaskGroup,
+  TaskStatusDefinition,
+} from "./types";
+import {
+  DEFAULT_TASK_PRIORITY,
+  TASK_PRIORITIES,
+  TASK_PRIORITY_COLORS,
+  TASK_PRIORITY_LABELS,
+} from "./priority";
+import { getTaskStatus } from "./status";
+
+export const TASK_COLOR_MODE_LABELS: Record<TaskColorMode, string> = {
+  manual: "رنگ تسک",
+  status: "وضعیت",
+  group: "گروه",
+  assignee: "مسئول",
+  priority: "اولویت",
+};
+
+// Tasks without a group or an assignee
+const NEUTRAL_COLOR = "#9ca3af";
+const GROUP_COLOR = "#6b7280";
+
+// What the colors mean: the project's statuses, groups, etc.
+export interface ColorLegendItem {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export interface TaskColorContext {
+  statuses: TaskStatusDefinition[];
+  groups: TaskGroup[];
+  resources: Resource[];
+}
+
+/**
+ * The bar color of each task under a color mode, null for "manual", where
+ * bars keep their own color
+ */
+export const getTaskColorsById = (
+  tasks: GanttTask[],
+  mode: TaskColorMode,
+  { statuses, groups, resources }: TaskColorContext
+): Map<string, string> | null => {
+  if (mode === "manual") return null;
+
+  const groupsById = new Map(groups.map((group) => [group.id, group]));
+  const resourcesById = new Map(
+    resources.map((resource) => [resource.id, resource])
+  );
+
+  const getColor = (task: GanttTask): string => {
+    switch (mode) {
+      case "status":
+        return getTaskStatus(task, statuses).color;
+      case "group": {
+        const group = task.groupId ? groupsById.get(task.groupId) : undefined;
+        return group ? group.color || GROUP_COLOR : NEUTRAL_COLOR;
+      }
+      case "assignee": {
+        // The first assignee, in assignment order
+        const assignment = (task.assignments || []).find((a) =>
+          resourcesById.has(a.resourceId)
+        );
+        return assignment
+          ? resourcesById.get(assignment.resourceId)!.color
+          : NEUTRAL_COLOR;
+      }
+      case "priority":
+        return TASK_PRIORITY_COLORS[task.priority || DEFAULT_TASK_PRIORITY];
+    }
+  };
+
+  return new Map(tasks.map((task) => [task.id, getColor(task)]));
+};
+
+/**
+ * The legend for a color mode, empty for "manual"
+ */
+export const getColorLegend = (
+  mode: TaskColorMode,
+  { statuses, groups, resources }: TaskColorContext
+): ColorLegendItem[] => {
+  switch (mode) {
+    case "manual":
+      return [];
+    case "status":
+      return statuses.map(({ id, label, color }) => ({ id, label, color }));
+    case "group":
+      return [
+        ...groups.map((group) => ({
+          id: group.id,
+          label: group.title,
+          color: group.color || GROUP_COLOR,
+        })),
+        { id: "none", label: "بدون گروه", color: NEUTRAL_COLOR },
+      ];
+    case "assignee":
+      return [
+        ...resources.map((resource) => ({
+          id: resource.id,
+          label: resource.name,
+          color: resource.color,
+        })),
+        { id: "none", label: "بدون مسئول", color: NEUTRAL_COLOR },
+      ];
+    case "priority":
+      return [...TASK_PRIORITIES].reverse().map((priority) => ({
+        id: priority,
+        label: TASK_PRIORITY_LABELS[priority],
+        color: TASK_PRIORITY_COLORS[priority],
+      }));
+  }
+};
@@ -0,0 +1,200 @@
+import jMoment from "jalali-moment";
+import { GanttTask, TaskDraft, WorkCalendar } from "./types";
+import { toLatinNumbers } from "./gantt-utils";
+import { getWorkingEndDate } from "./work-calendar";
+import { BuiltInColumnId } from "./task-list-columns";
+
+// Task list columns whose cells can be edited in place, in the order
+// pasted values fill them
+export const EDITABLE_COLUMNS: BuiltInColumnId[] = [
+  "title",
+  "start",
+  "end",
+  "duration",
+  "progress",
+];
+
+export const isEditableColumn = (columnId: string): boolean =>
+  EDITABLE_COLUMNS.includes(columnId as BuiltInColumnId);
+
+/**
+ * Whether a cell of a task can be edited in place. Summary tasks take their
+ * dates and progress from their subtasks, and milestones have no length.
+ */
+export const isCellEditable = (
+  task: GanttTask,
+  columnId: string,
+  isSummary: boolean
+): boolean => {
+  if (columnId === "title") return true;
+  if (!isEditableColumn(columnId) || isSummary) return false;
+  return task.type !== "milestone" || columnId === "start";
+};
+
+/**
+ * A date typed as jYYYY/jMM/jDD, or jMM/jDD in the current year, in Persian
+ * or Latin digits and with / or - between the parts. Years from 1700 are
+ * read as Gregorian, for dates pasted from other tools.
+ */
+export const parseDateInput = (text: string): Date | null => {
+  const parts = toLatinNumbers(text.trim()).split(/[/\-.]/);
+  if (
+    parts.length < 2 ||
+    parts.length > 3 ||
+    parts.some((p) => !/^\d+$/.test(p))
+  ) {
+    return null;
+  }
+
+  const [year, month, day] =
+    parts.length === 3
+      ? parts.map(Number)
+      : [jMoment().jYear(), ...parts.map(Number)];
+  // Both calendars roll days past the month end over, so check the parts
+  if (year >= 1700) {
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year &&
+      date.getMonth() + 1 === month &&
+      date.getDate() === day
+      ? date
+      : null;
+  }
+  const date = jMoment(`${year}/${month}/${day}`, "jYYYY/jM/jD");
+  return date.jYear() === year &&
+    date.jMonth() + 1 === month &&
+    date.jDate() === day
+    ? date.toDate()
+    : null;
+};
+
+const parseWholeNumber = (text: string): number | null => {
+  const number = parseInt(toLatinNumbers(text.trim()).replace(/[%٪]/g, ""), 10);
+  return isNaN(number) ? null : number;
+};
+
+/**
+ * The text a cell editor starts with, in Latin digits so it can be edited
+ */
+export const getCellEditText = (
+  task: GanttTask,
+  columnId: string,
+  workingDays: number
+): string => {
+  switch (columnId as BuiltInColumnId) {
+    case "title":
+      return task.title;
+    case "start":
+      return jMoment(task.startDate).format("jYYYY/jMM/jDD");
+    case "end":
+      return jMoment(task.endDate).format("jYYYY/jMM/jDD");
+    case "duration":
+      return workingDays.toString();
+    case "progress":
+      return (task.progress || 0).toString();
+    default:
+      return "";
+  }
+};
+
+/**
+ * The task changes for a value typed into one of its cells, or null when
+ * the value cannot be read or changes nothing. A new duration in working
+ * days moves the end date; a new start keeps the length (the store's
+ * updateTask does that).
+ */
+export const getCellUpdates = (
+  task: GanttTask,
+  columnId: string,
+  text: string,
+  calendar?: WorkCalendar
+): Partial<GanttTask> | null => {
+  switch (columnId as BuiltInColumnId) {
+    case "title": {
+      const title = text.trim();
+      return title && title !== task.title ? { title } : null;
+    }
+    case "start": {
+      const startDate = parseDateInput(text);
+      return startDate && startDate.getTime() !== task.startDate.getTime()
+        ? { startDate }
+        : null;
+    }
+    case "end": {
+      const endDate = parseDateInput(text);
+      return endDate && endDate.getTime() !== task.endDate.getTime()
+        ? { endDate }
+        : null;
+    }
+    case "duration": {
+      const duration = parseWholeNumber(text);
+      if (duration === null || duration < 1) return null;
+      return {
+        endDate: getWorkingEndDate(task.startDate, duration, calendar),
+      };
+    }
+    case "progress": {
+      const progress = parseWholeNumber(text);
+      if (progress === null) return null;
+      const clamped = Math.min(100, Math.max(0, progress));
+      return clamped !== task.progress ? { progress: clamped } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * A new task from values typed or pasted by column. Without a start it
+ * starts today; the end comes from the duration, then the end date, and
+ * otherwise the task lasts one working day. Returns null without a title.
+ */
+export const createTaskDraft = (
+  values: Partial<Record<BuiltInColumnId, string>>,
+  calendar?: WorkCalendar
+): TaskDraft | null => {
+  const title = values.title?.trim();
+  if (!title) return null;
+
+  const startDate =
+    (values.start && parseDateInput(values.start)) ||
+    jMoment().startOf("day").toDate();
+  const endDate = values.end ? parseDateInput(values.end) : null;
+  const duration = values.duration ? parseWholeNumber(values.duration) : null;
+  const progress = values.progress ? parseWholeNumber(values.progress) : null;
+
+  return {
+    title,
+    startDate,
+    endDate:
+      duration && duration > 0
+        ? getWorkingEndDate(startDate, duration, calendar)
+        : endDate && endDate >= startDate
+        ? endDate
+        : getWorkingEndDate(startDate, 1, calendar),
+    progress:
+      progress === null ? undefined : Math.min(100, Math.max(0, progress)),
+  };
+};
+
+/**
+ * Tasks from pasted text: one per line, with tab-separated values (as
+ * copied from a spreadsheet) filling the given columns in order. Lines
+ * without a title are skipped.
+ */
+export const parsePastedTasks = (
+  text: string,
+  columnIds: BuiltInColumnId[],
+  calendar?: WorkCalendar
+): TaskDraft[] => {
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const cells = line.split("\t");
+      const values: Partial<Record<BuiltInColumnId, string>> = {};
+      columnIds.forEach((columnId, index) => {
+        if (cells[index] !== undefined) values[columnId] = cells[index];
+      });
+      return createTaskDraft(values, calendar);
+    })
+    .filter((draft): draft is TaskDraft => draft !== null);
+};
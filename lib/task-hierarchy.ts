@@ -0,0 +1,238 @@
+import jMoment from "jalali-moment";
+import { GanttTask, TaskGroup } from "./types";
+
+export interface TaskTreeNode {
+  task: GanttTask;
+  depth: number;
+  hasChildren: boolean;
+}
+
+type TaskChange = Partial<GanttTask> & { id: string };
+
+/**
+ * Sort tasks or groups by their saved row order. Rows that were never
+ * reordered have no order and follow in their original (creation) order.
+ */
+export const sortByOrder = <T extends { order?: number }>(items: T[]): T[] => {
+  return [...items].sort((a, b) => {
+    if (a.order === undefined) return b.order === undefined ? 0 : 1;
+    if (b.order === undefined) return -1;
+    return a.order - b.order;
+  });
+};
+
+/**
+ * Map each parent id to its direct children in row order. Tasks whose parent
+ * is not in the list are treated as roots (key `undefined`).
+ */
+export const getChildrenMap = (
+  tasks: GanttTask[]
+): Map<string | undefined, GanttTask[]> => {
+  const ids = new Set(tasks.map((task) => task.id));
+  const children = new Map<string | undefined, GanttTask[]>();
+
+  sortByOrder(tasks).forEach((task) => {
+    const parentId =
+      task.parentId && ids.has(task.parentId) ? task.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) || []), task]);
+  });
+
+  return children;
+};
+
+export const hasChildTasks = (tasks: GanttTask[], taskId: string): boolean => {
+  return tasks.some((task) => task.parentId === taskId);
+};
+
+/**
+ * Ids of every task nested (at any depth) under the given task
+ */
+export const getDescendantIds = (
+  tasks: GanttTask[],
+  taskId: string
+): Set<string> => {
+  const descendants = new Set<string>();
+  const stack = [taskId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    tasks.forEach((task) => {
+      if (task.parentId === current && !descendants.has(task.id)) {
+        descendants.add(task.id);
+        stack.push(task.id);
+      }
+    });
+  }
+
+  return descendants;
+};
+
+/**
+ * Depth-first list of tasks with their nesting depth. Children of collapsed
+ * tasks are left out. Siblings are in row order, or sorted by `compare`
+ * when given; subtasks always stay under their parent.
+ */
+export const flattenTaskTree = (
+  tasks: GanttTask[],
+  collapsedTaskIds: Set<string> = new Set(),
+  compare?: (a: GanttTask, b: GanttTask) => number
+): TaskTreeNode[] => {
+  const childrenMap = getChildrenMap(tasks);
+  const nodes: TaskTreeNode[] = [];
+  const sortSiblings = (siblings: GanttTask[]) =>
+    compare ? [...siblings].sort(compare) : siblings;
+
+  const visit = (task: GanttTask, depth: number) => {
+    const children = childrenMap.get(task.id) || [];
+    nodes.push({ task, depth, hasChildren: children.length > 0 });
+    if (!collapsedTaskIds.has(task.id)) {
+      sortSiblings(children).forEach((child) => visit(child, depth + 1));
+    }
+  };
+
+  sortSiblings(childrenMap.get(undefined) || []).forEach((task) =>
+    visit(task, 0)
+  );
+  return nodes;
+};
+
+/**
+ * Outline numbers (1, 1.1, 1.2, 2, ...) of tasks in row order: the tasks of
+ * each group in group order, then the ungrouped ones. Top-level tasks are
+ * numbered on across groups, so every number is unique in the project.
+ */
+export const getWbsNumbers = (
+  tasks: GanttTask[],
+  groups: TaskGroup[]
+): Map<string, string> => {
+  const numbers = new Map<string, string>();
+  let rootNumber = 0;
+
+  const number = (sectionTasks: GanttTask[]) => {
+    const childrenMap = getChildrenMap(sectionTasks);
+    const visit = (task: GanttTask, prefix: string) => {
+      numbers.set(task.id, prefix);
+      (childrenMap.get(task.id) || []).forEach((child, index) =>
+        visit(child, `${prefix}.${index + 1}`)
+      );
+    };
+    (childrenMap.get(undefined) || []).forEach((task) =>
+      visit(task, `${++rootNumber}`)
+    );
+  };
+
+  sortByOrder(groups).forEach((group) =>
+    number(tasks.filter((task) => task.groupId === group.id))
+  );
+  number(tasks.filter((task) => !task.groupId));
+  return numbers;
+};
+
+/**
+ * Progress of a set of tasks weighted by their length in days. Milestones
+ * have no length and do not count.
+ */
+export const calculateWeightedProgress = (tasks: GanttTask[]): number => {
+  let totalWeight = 0;
+  let weightedProgress = 0;
+
+  tasks.forEach((task) => {
+    if (task.type === "milestone") return;
+    const weight =
+      jMoment(task.endDate)
+        .startOf("day")
+        .diff(jMoment(task.startDate).startOf("day"), "days") + 1;
+    totalWeight += weight;
+    weightedProgress += weight * (task.progress || 0);
+  });
+
+  return totalWeight > 0 ? Math.round(weightedProgress / totalWeight) : 0;
+};
+
+/**
+ * Date range and duration-weighted progress of a set of tasks, as shown on a
+ * collapsed group's summary bar. Only leaf tasks count towards progress so
+ * summary tasks are not counted twice.
+ */
+export const summarizeTasks = (
+  tasks: GanttTask[]
+): { startDate: Date; endDate: Date; progress: number } | null => {
+  if (tasks.length === 0) return null;
+
+  const parentIds = new Set(tasks.map((task) => task.parentId));
+  return {
+    startDate: new Date(
+      Math.min(...tasks.map((task) => task.startDate.getTime()))
+    ),
+    endDate: new Date(Math.max(...tasks.map((task) => task.endDate.getTime()))),
+    progress: calculateWeightedProgress(
+      tasks.filter((task) => !parentIds.has(task.id))
+    ),
+  };
+};
+
+/**
+ * Recalculate summary (parent) tasks bottom-up: dates cover all children and
+ * progress is the duration-weighted roll-up. Only changed parents are
+ * returned.
+ */
+export const rollupSummaryTasks = (tasks: GanttTask[]): TaskChange[] => {
+  const childrenMap = getChildrenMap(tasks);
+  const changes: TaskChange[] = [];
+
+  const visit = (task: GanttTask): GanttTask => {
+    const children = childrenMap.get(task.id) || [];
+    if (children.length === 0) return task;
+
+    const rolledChildren = children.map(visit);
+    const startDate = new Date(
+      Math.min(...rolledChildren.map((child) => child.startDate.getTime()))
+    );
+    const endDate = new Date(
+      Math.max(...rolledChildren.map((child) => child.endDate.getTime()))
+    );
+    const progress = calculateWeightedProgress(rolledChildren);
+    const summary = { ...task, startDate, endDate, progress };
+
+    if (
+      task.startDate.getTime() !== startDate.getTime() ||
+      task.endDate.getTime() !== endDate.getTime() ||
+      task.progress !== progress
+    ) {
+      changes.push({ id: task.id, startDate, endDate, progress });
+    }
+
+    return summary;
+  };
+
+  (childrenMap.get(undefined) || []).forEach(visit);
+  return changes;
+};
+
+/**
+ * Validate a new parent for a task, returning a user-facing error message
+ * or null
+ */
+export const validateParent = (
+  tasks: GanttTask[],
+  taskId: string,
+  parentId: string
+): string | null => {
+  if (taskId === parentId) {
+    return "یک تسک نمی‌تواند زیرمجموعه خودش باشد";
+  }
+
+  const parent = tasks.find((task) => task.id === parentId);
+  if (!parent) {
+    return "تسک والد پیدا نشد";
+  }
+  if (parent.type === "milestone") {
+    return "نقطه عطف نمی‌تواند زیرمجموعه داشته باشد";
+  }
+
+  if (getDescendantIds(tasks, taskId).has(parentId)) {
+    return "این تغییر باعث ایجاد حلقه در ساختار تسک‌ها می‌شود";
+  }
+
+  return null;
+};
@@ -0,0 +1,190 @@
+import {
+  CustomFieldDefinition,
+  GanttTask,
+  Resource,
+  TaskListColumn,
+  TaskListSort,
+  TaskStatusDefinition,
+} from "./types";
+import { getCustomFieldValue } from "./custom-fields";
+import { getTaskStatus } from "./status";
+
+export type BuiltInColumnId =
+  | "title"
+  | "wbs"
+  | "start"
+  | "end"
+  | "duration"
+  | "progress"
+  | "assignee"
+  | "status";
+
+// Built-in columns in the order they are offered
+export const BUILT_IN_COLUMNS: {
+  id: BuiltInColumnId;
+  label: string;
+  width: number;
+}[] = [
+  { id: "title", label: "عنوان", width: 220 },
+  { id: "wbs", label: "شماره", width: 64 },
+  { id: "start", label: "شروع", width: 88 },
+  { id: "end", label: "پایان", width: 88 },
+  { id: "duration", label: "مدت", width: 64 },
+  { id: "progress", label: "پیشرفت", width: 88 },
+  { id: "assignee", label: "مسئول", width: 96 },
+  { id: "status", label: "وضعیت", width: 112 },
+];
+
+export const CUSTOM_FIELD_COLUMN_PREFIX = "field:";
+export const CUSTOM_FIELD_COLUMN_WIDTH = 112;
+
+// Narrowest a column can be resized to
+export const MIN_COLUMN_WIDTH = 48;
+
+// Columns of a project that has never changed its layout
+export const DEFAULT_TASK_LIST_COLUMNS: TaskListColumn[] = [
+  { id: "title", width: 220 },
+  { id: "start", width: 88 },
+  { id: "end", width: 88 },
+  { id: "progress", width: 88 },
+];
+
+export const getCustomFieldColumnId = (field: CustomFieldDefinition) =>
+  `${CUSTOM_FIELD_COLUMN_PREFIX}${field.id}`;
+
+/**
+ * The custom field shown in a column, or undefined for built-in columns
+ */
+export const getColumnField = (
+  columnId: string,
+  customFields: CustomFieldDefinition[]
+): CustomFieldDefinition | undefined => {
+  if (!columnId.startsWith(CUSTOM_FIELD_COLUMN_PREFIX)) return undefined;
+  const fieldId = columnId.slice(CUSTOM_FIELD_COLUMN_PREFIX.length);
+  return customFields.find((field) => field.id === fieldId);
+};
+
+export const getColumnLabel = (
+  columnId: string,
+  customFields: CustomFieldDefinition[]
+): string => {
+  return (
+    BUILT_IN_COLUMNS.find((column) => column.id === columnId)?.label ||
+    getColumnField(columnId, customFields)?.name ||
+    ""
+  );
+};
+
+/**
+ * A saved column layout cleaned up for display: columns of deleted custom
+ * fields are dropped and the title column is always first
+ */
+export const resolveTaskListColumns = (
+  columns: TaskListColumn[] | undefined,
+  customFields: CustomFieldDefinition[]
+): TaskListColumn[] => {
+  const shown = (columns || DEFAULT_TASK_LIST_COLUMNS).filter(
+    (column) =>
+      column.id !== "title" &&
+      (BUILT_IN_COLUMNS.some((c) => c.id === column.id) ||
+        !!getColumnField(column.id, customFields))
+  );
+  const title = (columns || DEFAULT_TASK_LIST_COLUMNS).find(
+    (column) => column.id === "title"
+  ) || { id: "title", width: BUILT_IN_COLUMNS[0].width };
+  return [title, ...shown];
+};
+
+/**
+ * Every column that can be shown: the built-in ones, then one per custom
+ * field, with their default widths
+ */
+export const getAvailableColumns = (
+  customFields: CustomFieldDefinition[]
+): TaskListColumn[] => {
+  return [
+    ...BUILT_IN_COLUMNS.map(({ id, width }) => ({ id, width })),
+    ...customFields.map((field) => ({
+      id: getCustomFieldColumnId(field),
+      width: CUSTOM_FIELD_COLUMN_WIDTH,
+    })),
+  ];
+};
+
+export interface TaskSortContext {
+  statuses: TaskStatusDefinition[];
+  resourcesById: Map<string, Resource>;
+  customFields: CustomFieldDefinition[];
+  wbsNumbers: Map<string, string>;
+  taskDurations: Map<string, { workingDays: number; calendarDays: number }>;
+}
+
+const compareWbs = (a: string, b: string) => {
+  const aParts = a.split(".").map(Number);
+  const bParts = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const difference = (aParts[i] ?? -1) - (bParts[i] ?? -1);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+/**
+ * A comparator for the task list sort. Tasks without a value sort last in
+ * both directions; ties keep their row order.
+ */
+export const createTaskComparator = (
+  sort: TaskListSort,
+  {
+    statuses,
+    resourcesById,
+    customFields,
+    wbsNumbers,
+    taskDurations,
+  }: TaskSortContext
+): ((a: GanttTask, b: GanttTask) => number) => {
+  const field = getColumnField(sort.columnId, customFields);
+
+  const getValue = (task: GanttTask): string | number | undefined => {
+    if (field) return getCustomFieldValue(task, field);
+    switch (sort.columnId as BuiltInColumnId) {
+      case "title":
+        return task.title;
+      case "wbs":
+        return wbsNumbers.get(task.id);
+      case "start":
+        return task.startDate.getTime();
+      case "end":
+        return task.endDate.getTime();
+      case "duration":
+        return taskDurations.get(task.id)?.workingDays;
+      case "progress":
+        return task.type === "milestone" ? undefined : task.progress || 0;
+      case "assignee": {
+        const assignment = (task.assignments || []).find((a) =>
+          resourcesById.has(a.resourceId)
+        );
+        return assignment
+          ? resourcesById.get(assignment.resourceId)!.name
+          : undefined;
+      }
+      case "status":
+        return statuses.indexOf(getTaskStatus(task, statuses));
+    }
+  };
+
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return (a, b) => {
+    const aValue = getValue(a);
+    const bValue = getValue(b);
+    if (aValue === undefined) return bValue === undefined ? 0 : 1;
+    if (bValue === undefined) return -1;
+    if (sort.columnId === "wbs") {
+      return sign * compareWbs(aValue.toString(), bValue.toString());
+    }
+    if (typeof aValue === "number" && typeof bValue === "number") {
+      return sign * (aValue - bValue);
+    }
+    return sign * aValue.toString().localeCompare(bValue.toString(), "fa");
+  };
+};
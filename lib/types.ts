@@ -1,12 +1,90 @@
+export type GanttTaskType = "task" | "milestone";
+
+export type TaskPriority = "low" | "normal" | "high" | "urgent";
+
+// The built-in workflow; custom statuses each behave like one of these
+export type TaskStatusCategory =
+  | "not-started"
+  | "in-progress"
+  | "blocked"
+  | "done"
+  | "cancelled";
+
+// One entry of a project's status list
+export interface TaskStatusDefinition {
+  id: string;
+  label: string;
+  color: string;
+  category: TaskStatusCategory;
+}
+
 export interface GanttTask {
   id: string;
   title: string;
+  type?: GanttTaskType; // Milestones have the same start and end date
   startDate: Date;
   endDate: Date;
   progress?: number;
   color?: string;
   projectId: string;
   groupId?: string;
+  parentId?: string; // Parent (summary) task, nesting can go to any depth
+  isPinned?: boolean; // Manually scheduled, never moved by auto-scheduling
+  order?: number; // Row position among siblings, unset rows come last
+  assignments?: ResourceAssignment[];
+  priority?: TaskPriority; // Unset means "normal"
+  status?: string; // Id in the project's status list, unset is the first one
+  actualEndDate?: Date; // When the task was marked done
+  description?: string; // Markdown
+  tags?: string[];
+  customFields?: Record<string, CustomFieldValue>; // By custom field id
+}
+
+export type CustomFieldType = "text" | "number" | "date" | "select";
+
+// Dates are stored as jYYYY/jMM/jDD, like custom holidays
+export type CustomFieldValue = string | number;
+
+// A field defined by a project and filled in on each of its tasks
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // Choices of a "select" field
+}
+
+export interface ResourceAssignment {
+  resourceId: string;
+  allocation: number; // Percent of the resource's daily capacity
+}
+
+// A person (or team) in a project's resource pool
+export interface Resource {
+  id: string;
+  projectId: string;
+  name: string;
+  role?: string;
+  color: string;
+  capacity: number; // Working hours per day
+  costRate?: number; // Cost per working hour
+  createdAt: Date;
+}
+
+// A task's dates and progress when a baseline was saved
+export interface BaselineTask {
+  taskId: string;
+  startDate: Date;
+  endDate: Date;
+  progress?: number;
+}
+
+// A named snapshot of a project's schedule, to compare the plan against
+export interface Baseline {
+  id: string;
+  projectId: string;
+  name: string;
+  tasks: BaselineTask[];
+  createdAt: Date;
 }
 
 export interface TaskGroup {
@@ -15,18 +93,71 @@ export interface TaskGroup {
   projectId: string;
   color?: string;
   isExpanded?: boolean;
+  order?: number; // Row position in the task list, unset groups come last
+  createdAt: Date;
+}
+
+export type DependencyType = "FS" | "SS" | "FF" | "SF";
+
+export interface TaskDependency {
+  id: string;
+  projectId: string;
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  lag: number; // In days, negative values are leads
   createdAt: Date;
 }
 
+export interface WorkCalendar {
+  weekendDays: number[]; // Day of week, 0 = Sunday ... 6 = Saturday
+  useOfficialHolidays: boolean; // Iranian official (solar and lunar) holidays
+  customHolidays: string[]; // Company closure days, jYYYY/jMM/jDD
+}
+
 export interface Project {
   id: string;
   name: string;
   description?: string;
+  calendar?: WorkCalendar;
+  statuses?: TaskStatusDefinition[]; // Custom status list, built-in if unset
+  customFields?: CustomFieldDefinition[];
+  viewSettings?: ProjectViewSettings;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type TimelineView = "daily" | "weekly";
+// A task list column and its width in pixels. Custom field columns have
+// the id "field:<field id>".
+export interface TaskListColumn {
+  id: string;
+  width: number;
+}
+
+export interface TaskListSort {
+  columnId: string;
+  direction: "asc" | "desc";
+}
+
+// How a project's chart is laid out. Saved as it changes, outside the undo
+// history.
+export interface ProjectViewSettings {
+  taskListColumns?: TaskListColumn[]; // Shown columns in order
+  taskListSort?: TaskListSort | null;
+  taskListWidth?: number; // Set by the splitter; all columns fit if unset
+  isTaskListCollapsed?: boolean;
+  isFullscreen?: boolean; // The chart fills the window
+}
+
+export type TimelineView =
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly";
+
+// DOM bars are easier to style; canvas stays fast on very dense plans
+export type GanttRenderer = "dom" | "canvas";
 
 export interface GanttConfig {
   view: TimelineView;
@@ -34,6 +165,26 @@ export interface GanttConfig {
   endDate: Date;
   cellWidth: number;
   rowHeight: number;
+  calendar?: WorkCalendar;
+  renderer?: GanttRenderer; // Chart body renderer, "dom" when not set
+}
+
+// What the bar colors show
+export type TaskColorMode =
+  | "manual"
+  | "status"
+  | "group"
+  | "assignee"
+  | "priority";
+
+// One row of the chart: a group header or a task
+export interface GanttRow {
+  type: "group" | "task";
+  id: string;
+  data: TaskGroup | GanttTask;
+  index: number; // Position in the visual list
+  depth?: number; // Nesting level of subtasks
+  hasChildren?: boolean; // Task is a summary of its subtasks
 }
 
 export interface TaskUpdatePayload {
@@ -43,6 +194,16 @@ export interface TaskUpdatePayload {
   title?: string;
   progress?: number;
   groupId?: string;
+  parentId?: string;
+}
+
+// A task typed or pasted into the task list, before it is saved
+export interface TaskDraft {
+  title: string;
+  startDate: Date;
+  endDate: Date;
+  progress?: number;
+  groupId?: string;
 }
 
 // Predefined color palette for tasks and groups (12 colors)
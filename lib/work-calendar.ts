@@ -0,0 +1,255 @@
+import jMoment from "jalali-moment";
+import hijriMoment from "moment-hijri";
+import { WorkCalendar } from "./types";
+
+// moment-hijri switches the shared moment locale when it loads
+jMoment.locale("fa");
+
+export interface Holiday {
+  date: string; // jYYYY/jMM/jDD
+  title: string;
+}
+
+// Thursday and Friday, the usual Iranian weekend
+export const DEFAULT_WORK_CALENDAR: WorkCalendar = {
+  weekendDays: [4, 5],
+  useOfficialHolidays: true,
+  customHolidays: [],
+};
+
+// Official holidays on fixed Jalali dates
+const SOLAR_HOLIDAYS: { month: number; day: number; title: string }[] = [
+  { month: 1, day: 1, title: "عید نوروز" },
+  { month: 1, day: 2, title: "عید نوروز" },
+  { month: 1, day: 3, title: "عید نوروز" },
+  { month: 1, day: 4, title: "عید نوروز" },
+  { month: 1, day: 12, title: "روز جمهوری اسلامی" },
+  { month: 1, day: 13, title: "روز طبیعت" },
+  { month: 3, day: 14, title: "رحلت امام خمینی" },
+  { month: 3, day: 15, title: "قیام ۱۵ خرداد" },
+  { month: 11, day: 22, title: "پیروزی انقلاب اسلامی" },
+  { month: 12, day: 29, title: "ملی شدن صنعت نفت" },
+];
+
+// Official holidays on fixed Hijri dates. Day 0 means the last day of the
+// month before, since Safar can have 29 or 30 days.
+const LUNAR_HOLIDAYS: { month: number; day: number; title: string }[] = [
+  { month: 1, day: 9, title: "تاسوعا" },
+  { month: 1, day: 10, title: "عاشورا" },
+  { month: 2, day: 20, title: "اربعین حسینی" },
+  { month: 2, day: 28, title: "رحلت پیامبر و شهادت امام حسن" },
+  { month: 3, day: 0, title: "شهادت امام رضا" },
+  { month: 3, day: 8, title: "شهادت امام حسن عسکری" },
+  { month: 3, day: 17, title: "میلاد پیامبر و امام جعفر صادق" },
+  { month: 6, day: 3, title: "شهادت حضرت فاطمه" },
+  { month: 7, day: 13, title: "ولادت امام علی" },
+  { month: 7, day: 27, title: "مبعث" },
+  { month: 8, day: 15, title: "ولادت امام مهدی" },
+  { month: 9, day: 21, title: "شهادت امام علی" },
+  { month: 10, day: 1, title: "عید فطر" },
+  { month: 10, day: 2, title: "تعطیلی عید فطر" },
+  { month: 10, day: 25, title: "شهادت امام جعفر صادق" },
+  { month: 12, day: 10, title: "عید قربان" },
+  { month: 12, day: 18, title: "عید غدیر" },
+];
+
+const holidaysByYear = new Map<number, Map<string, string>>();
+
+/**
+ * Official holidays of a Jalali year, keyed by jYYYY/jMM/jDD. Lunar dates
+ * come from moment-hijri's tabular calendar and can differ by a day from
+ * the dates announced by the Iranian calendar authority.
+ */
+const getHolidayMap = (jYear: number): Map<string, string> => {
+  const cached = holidaysByYear.get(jYear);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string>();
+  const addHoliday = (date: jMoment.Moment, title: string) => {
+    if (date.jYear() !== jYear) return;
+    const key = date.format("jYYYY/jMM/jDD");
+    holidays.set(
+      key,
+      holidays.has(key) ? `${holidays.get(key)}، ${title}` : title
+    );
+  };
+
+  SOLAR_HOLIDAYS.forEach(({ month, day, title }) => {
+    addHoliday(jMoment(`${jYear}/${month}/${day}`, "jYYYY/jM/jD"), title);
+  });
+
+  // A Jalali year overlaps two or three Hijri years
+  const yearStart = jMoment(`${jYear}/1/1`, "jYYYY/jM/jD").toDate();
+  const yearEnd = jMoment(`${jYear + 1}/1/1`, "jYYYY/jM/jD").toDate();
+  const firstHijriYear = hijriMoment(yearStart).iYear();
+  const lastHijriYear = hijriMoment(yearEnd).iYear();
+
+  for (let iYear = firstHijriYear; iYear <= lastHijriYear; iYear++) {
+    LUNAR_HOLIDAYS.forEach(({ month, day, title }) => {
+      const date = hijriMoment(
+        `${iYear}/${month}/${Math.max(day, 1)}`,
+        "iYYYY/iM/iD"
+      );
+      if (day === 0) date.subtract(1, "day");
+      addHoliday(jMoment(date.toDate()), title);
+    });
+  }
+
+  holidaysByYear.set(jYear, holidays);
+  return holidays;
+};
+
+/**
+ * List the official holidays of a Jalali year in date order
+ */
+export const getOfficialHolidays = (jYear: number): Holiday[] => {
+  return [...getHolidayMap(jYear).entries()]
+    .map(([date, title]) => ({ date, title }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Why a day is not worked, or null for a working day
+ */
+export const getNonWorkingReason = (
+  date: Date,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): string | null => {
+  const day = jMoment(date);
+  const key = day.format("jYYYY/jMM/jDD");
+
+  if (calendar.customHolidays.includes(key)) {
+    return "تعطیلی شرکت";
+  }
+  if (calendar.useOfficialHolidays) {
+    const holiday = getHolidayMap(day.jYear()).get(key);
+    if (holiday) return holiday;
+  }
+  if (calendar.weekendDays.includes(day.day())) {
+    return "تعطیل آخر هفته";
+  }
+  return null;
+};
+
+export const isWorkingDay = (
+  date: Date,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): boolean => {
+  return getNonWorkingReason(date, calendar) === null;
+};
+
+/**
+ * Count the working days from start to end, both inclusive
+ */
+export const countWorkingDays = (
+  startDate: Date,
+  endDate: Date,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): number => {
+  let count = 0;
+  const current = jMoment(startDate).startOf("day");
+  const end = jMoment(endDate).startOf("day");
+
+  while (current.isSameOrBefore(end)) {
+    if (isWorkingDay(current.toDate(), calendar)) count++;
+    current.add(1, "day");
+  }
+
+  return count;
+};
+
+/**
+ * The day on which a task starting at startDate completes the given number
+ * of working days. Weekends and holidays on the way are skipped; a duration
+ * below one ends the task on its start day.
+ */
+export const getWorkingEndDate = (
+  startDate: Date,
+  duration: number,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): Date => {
+  const current = jMoment(startDate).startOf("day");
+  // A calendar without working days would never finish
+  if (duration < 1 || calendar.weekendDays.length >= 7) {
+    return current.toDate();
+  }
+
+  let remaining = duration;
+  for (;;) {
+    if (isWorkingDay(current.toDate(), calendar)) {
+      remaining--;
+      if (remaining === 0) return current.toDate();
+    }
+    current.add(1, "day");
+  }
+};
+
+// The local calendar date as a number, stable across daylight saving changes
+export const getDayKey = (date: Date) =>
+  date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+
+// Midnight of the date the given number of days later
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export interface WorkingDayIndex {
+  // The number of a working day, or for a non-working day that of the
+  // next or previous working day
+  toNumber: (date: Date, snap: "next" | "previous") => number;
+  toDate: (workingDay: number) => Date;
+}
+
+/**
+ * Number the working days around a date: the first working day on or after
+ * it is 0, later ones count up and earlier ones count down from -1. Days are
+ * checked against the calendar once each, as they are reached. A calendar
+ * without working days counts every day.
+ */
+export const createWorkingDayIndex = (
+  origin: Date,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+): WorkingDayIndex => {
+  const countsEveryDay = calendar.weekendDays.length >= 7;
+  // Working days numbered 0, 1, ... and -1, -2, ...
+  const later: Date[] = [];
+  const earlier: Date[] = [];
+  // Per checked day, whether it is worked and the number of the next
+  // working day (its own if it is worked)
+  const days = new Map<number, { isWorking: boolean; next: number }>();
+  let nextDay = addDays(origin, 0);
+  let previousDay = addDays(origin, -1);
+
+  const checkLater = () => {
+    const isWorking = countsEveryDay || isWorkingDay(nextDay, calendar);
+    days.set(getDayKey(nextDay), { isWorking, next: later.length });
+    if (isWorking) later.push(nextDay);
+    nextDay = addDays(nextDay, 1);
+  };
+
+  const checkEarlier = () => {
+    const isWorking = countsEveryDay || isWorkingDay(previousDay, calendar);
+    if (isWorking) earlier.push(previousDay);
+    days.set(getDayKey(previousDay), { isWorking, next: -earlier.length });
+    previousDay = addDays(previousDay, -1);
+  };
+
+  return {
+    toNumber: (date, snap) => {
+      const key = getDayKey(date);
+      while (!days.has(key)) {
+        if (date >= nextDay) checkLater();
+        else checkEarlier();
+      }
+      const { isWorking, next } = days.get(key)!;
+      return isWorking || snap === "next" ? next : next - 1;
+    },
+    toDate: (workingDay) => {
+      if (workingDay >= 0) {
+        while (later.length <= workingDay) checkLater();
+        return later[workingDay];
+      }
+      while (earlier.length < -workingDay) checkEarlier();
+      return earlier[-workingDay - 1];
+    },
+  };
+};